@@ -0,0 +1,122 @@
+import * as vscode from 'vscode';
+import type { ChatEvent, RoomState, TwitchMessage } from './protocol';
+import type { TwitchChatViewProvider } from './twitchChatViewProvider';
+
+export type { ChatEvent, RoomState, TwitchMessage };
+
+/**
+ * Moderation actions available through the API
+ * `unban` and `untimeout` both lift a ban or timeout
+ */
+export type ModerationAction = 'ban' | 'unban' | 'timeout' | 'untimeout' | 'delete';
+
+export interface ModerationOptions {
+    /** Timeout length in seconds (default 600) */
+    duration?: number;
+    /** Message to delete, required for `delete` */
+    messageId?: string;
+}
+
+/**
+ * Context passed to a custom slash command
+ */
+export interface ChatCommandContext {
+    /** Channel of the tab the command was typed in */
+    channel: string;
+    /** Whitespace-separated words after the command name */
+    args: string[];
+}
+
+/**
+ * A slash command contributed by another extension
+ * Shows up in the chat input's autocomplete next to the built-in commands
+ */
+export interface ChatCommand {
+    /** Name without the leading slash (lowercase letters, digits, '-' and '_') */
+    name: string;
+    description: string;
+    /** Usage hint shown after the name, e.g. '<username> [reason]' */
+    args?: string;
+    /** Only offer the command in channels the user moderates */
+    moderatorOnly?: boolean;
+    execute(context: ChatCommandContext): void | Promise<void>;
+}
+
+/**
+ * API returned from `activate()` for other extensions
+ *
+ * ```ts
+ * const api = vscode.extensions.getExtension<TwitchChatApi>('sublimnl.twitch-chat-viewer')?.exports;
+ * api?.onDidReceiveMessage(event => { ... });
+ * ```
+ */
+export interface TwitchChatApi {
+    /** Fires for every chat event in a joined channel (messages, room state, deletions, clears) */
+    readonly onDidReceiveMessage: vscode.Event<ChatEvent>;
+
+    /**
+     * Get the joined channels
+     */
+    getChannels(): string[];
+
+    /**
+     * Send a chat message as the signed-in user
+     * @param channel A joined channel
+     * @param text The message
+     * @throws Error if not signed in or the channel isn't joined
+     */
+    sendMessage(channel: string, text: string): Promise<void>;
+
+    /**
+     * Ban, time out or unban a user, or delete a message
+     * @param channel A joined channel the user moderates
+     * @param action The moderation action
+     * @param username The target user
+     * @param options Timeout duration or message ID
+     * @throws Error if not signed in, not a moderator or the moderator scopes weren't granted
+     */
+    moderate(channel: string, action: ModerationAction, username: string, options?: ModerationOptions): Promise<void>;
+
+    /**
+     * Get the current chat modes of a joined channel
+     * @returns The room state, or undefined if the channel isn't joined
+     */
+    getRoomState(channel: string): RoomState | undefined;
+
+    /**
+     * Add a slash command to the chat input
+     * @param command The command definition
+     * @returns Disposable that removes the command
+     * @throws Error if the name is invalid or already taken
+     */
+    registerCommand(command: ChatCommand): vscode.Disposable;
+}
+
+/**
+ * Build the API object exported from `activate()`
+ * @param provider The chat view provider that owns the Twitch connection
+ */
+export function createApi(provider: TwitchChatViewProvider): TwitchChatApi {
+    return {
+        onDidReceiveMessage: provider.onDidReceiveEvent,
+        getChannels: () => provider.getChannels(),
+        sendMessage: (channel, text) => provider.sendMessage(channel, text),
+        moderate: (channel, action, username, options = {}) => {
+            let internalAction: string;
+            switch (action) {
+                case 'timeout':
+                    internalAction = `timeout-${options.duration ?? 600}`;
+                    break;
+                case 'unban':
+                case 'untimeout':
+                    internalAction = 'untimeout';
+                    break;
+                default:
+                    internalAction = action;
+            }
+            return provider.moderate(channel, internalAction, username, options.messageId);
+        },
+        getRoomState: (channel) => provider.getRoomState(channel),
+        registerCommand: (command) => provider.registerCommand(command)
+    };
+}
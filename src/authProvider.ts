@@ -1,17 +1,25 @@
 import * as vscode from 'vscode';
 import * as http from 'http';
-import * as crypto from 'crypto';
 import * as https from 'https';
+import * as crypto from 'crypto';
 import { config } from './config';
+import { HelixClient } from './helixClient';
 
 /**
  * Authentication session data
  */
-interface AuthSession {
+export interface AuthSession {
+    /** Stable ID for the VS Code authentication session (legacy sessions fall back to the username) */
+    id?: string;
     accessToken: string;
     refreshToken: string;
     expiresIn: number;
+    /** Absolute expiry time in ms since epoch, undefined if unknown or the token doesn't expire */
+    expiresAt?: number;
     username?: string;
+    userId?: string;
+    /** Granted scopes (legacy sessions were granted every scope) */
+    scopes?: string[];
 }
 
 /**
@@ -24,6 +32,30 @@ interface TwitchUser {
     email?: string;
 }
 
+/**
+ * Response from the token validation endpoint
+ * @see https://dev.twitch.tv/docs/authentication/validate-tokens/
+ */
+interface TokenValidation {
+    client_id: string;
+    login: string;
+    scopes: string[];
+    user_id: string;
+    expires_in: number;
+}
+
+/**
+ * Response from the device authorization endpoint
+ * @see https://dev.twitch.tv/docs/authentication/getting-tokens-oauth/#device-code-grant-flow
+ */
+interface DeviceCodeResponse {
+    device_code: string;
+    user_code: string;
+    verification_uri: string;
+    expires_in: number;
+    interval: number;
+}
+
 /**
  * Token response from Twitch
  */
@@ -36,37 +68,80 @@ interface TokenResponse {
 }
 
 /**
- * Authentication provider for Twitch OAuth using Implicit Grant Flow
+ * Raised when the user cancels a sign-in, which isn't an error worth reporting
+ */
+class SignInCancelledError extends Error {
+    constructor() {
+        super('Sign-in was cancelled');
+        this.name = 'SignInCancelledError';
+    }
+}
+
+/**
+ * Authentication provider for Twitch OAuth
+ * Registered with VS Code as the 'twitch' authentication provider, so other extensions can call
+ * `vscode.authentication.getSession('twitch', scopes)` and the session shows in the Accounts menu
+ * Supports the Device Code Grant Flow (with refresh tokens) and the Implicit Grant Flow
+ * @see https://dev.twitch.tv/docs/authentication/getting-tokens-oauth/#device-code-grant-flow
  * @see https://dev.twitch.tv/docs/authentication/getting-tokens-oauth/#implicit-grant-flow
  */
-export class TwitchAuthProvider {
+export class TwitchAuthProvider implements vscode.AuthenticationProvider, vscode.Disposable {
+    static readonly ID = 'twitch';
+    static readonly LABEL = 'Twitch';
+
     private static readonly CLIENT_ID = config.twitch.clientId;
     private static readonly REDIRECT_URI = config.twitch.redirectUri;
     private static readonly SCOPES = config.twitch.scopes;
+    private static readonly LEGACY_SCOPES = [...config.twitch.scopes, ...config.twitch.moderatorScopes];
     private static readonly STORAGE_KEY = config.storage.authSessionKey;
+    // setTimeout can't wait longer than this; hourly validation reschedules far-off timers
+    private static readonly MAX_TIMER_DELAY = 2147483647;
+    private static readonly REFRESH_RETRY_DELAY = 60000;
+
+    private readonly sessionsChangedEmitter = new vscode.EventEmitter<vscode.AuthenticationProviderAuthenticationSessionsChangeEvent>();
+    /**
+     * Fires when signing in (added), signing out or losing the session (removed) and refreshing the token (changed)
+     */
+    readonly onDidChangeSessions = this.sessionsChangedEmitter.event;
+
+    private helixListener: vscode.Disposable;
+    private validateTimer: NodeJS.Timeout | undefined;
+    private expiryWarningTimer: NodeJS.Timeout | undefined;
+    private expiryTimer: NodeJS.Timeout | undefined;
+    private isInvalidating: boolean = false;
+    private refreshPromise: Promise<AuthSession | undefined> | undefined;
 
     constructor(
         private readonly context: vscode.ExtensionContext,
-        private readonly outputChannel: vscode.OutputChannel
-    ) { }
+        private readonly outputChannel: vscode.OutputChannel,
+        private readonly helix: HelixClient
+    ) {
+        this.helixListener = helix.onDidInvalidateToken(() => this.handleTokenRejected());
+    }
 
     /**
-     * Sign in to Twitch using Implicit Grant Flow
-     * Opens browser for OAuth and starts local server for callback
+     * Sign in to Twitch
+     * Asks whether to use a device code (works anywhere, can be refreshed)
+     * or the browser redirect to a local server on port 3000
+     * @param scopes Extra scopes to request on top of the chat scopes and any already granted
      */
-    async signIn(): Promise<AuthSession | undefined> {
-        try {
-            // Generate state for CSRF protection
-            const state = this.generateState();
-
-            this.outputChannel.appendLine('Starting Implicit Grant OAuth flow...');
-            this.outputChannel.appendLine(`State: ${state.substring(0, 20)}...`);
+    async signIn(scopes: readonly string[] = []): Promise<AuthSession | undefined> {
+        const method = await this.pickSignInMethod();
+        if (!method) {
+            return undefined;
+        }
 
-            // Build authorization URL (response_type=token for implicit flow)
-            const authUrl = this.buildAuthUrl(state);
+        try {
+            const previous = await this.readSession();
+            const requestedScopes = Array.from(new Set([
+                ...TwitchAuthProvider.SCOPES,
+                ...(previous ? this.getGrantedScopes(previous) : []),
+                ...scopes
+            ]));
 
-            // Start local server to receive callback with token in fragment
-            const tokenData = await this.startCallbackServer(state, authUrl);
+            const tokenData = method === 'deviceCode'
+                ? await this.runDeviceCodeFlow(requestedScopes)
+                : await this.runImplicitFlow(requestedScopes);
 
             if (!tokenData) {
                 throw new Error('Failed to receive access token');
@@ -75,17 +150,28 @@ export class TwitchAuthProvider {
             this.outputChannel.appendLine('✅ Successfully received access token!');
 
             // Fetch username
-            const username = await this.fetchUsername(tokenData.access_token);
+            const user = await this.fetchUser(tokenData.access_token);
+            const username = user?.login;
 
             const session: AuthSession = {
+                id: crypto.randomUUID(),
                 accessToken: tokenData.access_token,
-                refreshToken: '',
+                refreshToken: tokenData.refresh_token || '',
                 expiresIn: tokenData.expires_in || 0,
-                username: username
+                expiresAt: tokenData.expires_in ? Date.now() + tokenData.expires_in * 1000 : undefined,
+                username: username,
+                userId: user?.id,
+                scopes: tokenData.scope && tokenData.scope.length > 0 ? tokenData.scope : requestedScopes
             };
 
             // Store session securely
             await this.storeSession(session);
+            this.scheduleExpiry(session);
+            this.sessionsChangedEmitter.fire({
+                added: [this.toAuthenticationSession(session)],
+                removed: previous ? [this.toAuthenticationSession(previous)] : [],
+                changed: []
+            });
 
             this.outputChannel.appendLine(`Successfully authenticated as: ${username}`);
             vscode.window.showInformationMessage(`Signed in to Twitch as ${username}`);
@@ -93,19 +179,161 @@ export class TwitchAuthProvider {
             return session;
 
         } catch (error) {
+            if (error instanceof SignInCancelledError) {
+                this.outputChannel.appendLine('Sign-in cancelled');
+                return undefined;
+            }
             this.outputChannel.appendLine(`Authentication error: ${error}`);
             vscode.window.showErrorMessage(`Failed to sign in: ${error}`);
             return undefined;
         }
     }
 
+    /**
+     * Ask which sign-in flow to use
+     * @returns The chosen flow, or undefined if cancelled
+     */
+    private async pickSignInMethod(): Promise<'deviceCode' | 'implicit' | undefined> {
+        const items: (vscode.QuickPickItem & { method: 'deviceCode' | 'implicit' })[] = [
+            {
+                label: '$(key) Sign in with a device code',
+                description: 'Recommended',
+                detail: 'Enter a code on twitch.tv. Works in Remote-SSH and Codespaces, and stays signed in.',
+                method: 'deviceCode'
+            },
+            {
+                label: '$(globe) Sign in with the browser',
+                detail: 'Redirects to a local server on port 3000. You have to sign in again when the token expires.',
+                method: 'implicit'
+            }
+        ];
+
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: 'How do you want to sign in to Twitch?' });
+        return picked?.method;
+    }
+
+    /**
+     * Get a token using the Implicit Grant Flow
+     * Opens browser for OAuth and starts local server for callback
+     * @param scopes The scopes to request
+     */
+    private async runImplicitFlow(scopes: string[]): Promise<TokenResponse | undefined> {
+        // Generate state for CSRF protection
+        const state = this.generateState();
+
+        this.outputChannel.appendLine('Starting Implicit Grant OAuth flow...');
+        this.outputChannel.appendLine(`State: ${state.substring(0, 20)}...`);
+
+        // Build authorization URL (response_type=token for implicit flow)
+        const authUrl = this.buildAuthUrl(state, scopes);
+
+        // Start local server to receive callback with token in fragment
+        return this.startCallbackServer(state, authUrl);
+    }
+
+    /**
+     * Get a token using the Device Code Grant Flow
+     * Shows the user code in a notification and polls until the user has authorized it
+     * @param scopes The scopes to request
+     */
+    private async runDeviceCodeFlow(scopes: string[]): Promise<TokenResponse> {
+        this.outputChannel.appendLine('Starting Device Code Grant OAuth flow...');
+
+        const response = await this.postForm('/device', {
+            client_id: TwitchAuthProvider.CLIENT_ID,
+            scopes: scopes.join(' ')
+        });
+        if (response.status !== 200) {
+            throw new Error(`Could not start device sign-in: ${response.json?.message || `HTTP ${response.status}`}`);
+        }
+
+        const device: DeviceCodeResponse = response.json;
+        this.outputChannel.appendLine(`Device code issued, expires in ${device.expires_in}s`);
+
+        // Not awaited - polling starts right away
+        vscode.window.showInformationMessage(
+            `To sign in to Twitch, open ${device.verification_uri} and enter the code ${device.user_code}`,
+            'Copy Code & Open Browser'
+        ).then(async choice => {
+            if (choice) {
+                await vscode.env.clipboard.writeText(device.user_code);
+                vscode.env.openExternal(vscode.Uri.parse(device.verification_uri));
+            }
+        });
+
+        return vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Waiting for Twitch sign-in (code ${device.user_code})...`,
+            cancellable: true
+        }, (_progress, cancellation) => this.pollDeviceToken(device, scopes, cancellation));
+    }
+
+    /**
+     * Poll the token endpoint until the device code is authorized
+     * @param device The device code response
+     * @param scopes The scopes requested with the device code
+     * @param cancellation Cancelled when the user dismisses the progress notification
+     * @returns The token
+     * @throws SignInCancelledError if the user cancels
+     */
+    private async pollDeviceToken(device: DeviceCodeResponse, scopes: string[], cancellation: vscode.CancellationToken): Promise<TokenResponse> {
+        const deadline = Date.now() + device.expires_in * 1000;
+        let interval = (device.interval || 5) * 1000;
+
+        while (Date.now() < deadline) {
+            // Wait for the next poll, or stop right away when cancelled
+            await new Promise<void>(resolve => {
+                const timer = setTimeout(() => {
+                    listener.dispose();
+                    resolve();
+                }, interval);
+                const listener = cancellation.onCancellationRequested(() => {
+                    clearTimeout(timer);
+                    listener.dispose();
+                    resolve();
+                });
+            });
+            if (cancellation.isCancellationRequested) {
+                throw new SignInCancelledError();
+            }
+
+            const response = await this.postForm('/token', {
+                client_id: TwitchAuthProvider.CLIENT_ID,
+                scopes: scopes.join(' '),
+                device_code: device.device_code,
+                grant_type: 'urn:ietf:params:oauth:grant-type:device_code'
+            });
+
+            if (response.status === 200) {
+                this.outputChannel.appendLine('✅ Device code authorized');
+                return response.json;
+            }
+
+            const message = response.json?.message;
+            if (message === 'authorization_pending') {
+                continue;
+            } else if (message === 'slow_down') {
+                interval += 5000;
+                continue;
+            }
+
+            throw new Error(message || `HTTP ${response.status}`);
+        }
+
+        throw new Error('The sign-in code expired, please try again');
+    }
+
     /**
      * Sign out from Twitch
      * Clears stored session
      */
     async signOut(): Promise<void> {
         try {
-            await this.context.secrets.delete(TwitchAuthProvider.STORAGE_KEY);
+            const previous = await this.readSession();
+            await this.clearSession();
+            if (previous) {
+                this.sessionsChangedEmitter.fire({ added: [], removed: [this.toAuthenticationSession(previous)], changed: [] });
+            }
             this.outputChannel.appendLine('Signed out successfully');
             vscode.window.showInformationMessage('Signed out from Twitch');
         } catch (error) {
@@ -125,7 +353,13 @@ export class TwitchAuthProvider {
 
             const session: AuthSession = JSON.parse(sessionJson);
 
-            // TODO: Add token refresh logic if expired
+            if (session.expiresAt && Date.now() >= session.expiresAt) {
+                if (session.refreshToken) {
+                    return await this.refreshSession(session);
+                }
+                await this.invalidateSession('Your Twitch sign-in has expired.');
+                return undefined;
+            }
 
             return session;
         } catch (error) {
@@ -134,6 +368,379 @@ export class TwitchAuthProvider {
         }
     }
 
+    /**
+     * Check whether a session was granted all of the given scopes
+     * @param session The session
+     * @param scopes The required scopes
+     */
+    hasScopes(session: AuthSession, scopes: readonly string[]): boolean {
+        const granted = this.getGrantedScopes(session);
+        return scopes.every(scope => granted.includes(scope));
+    }
+
+    /**
+     * Get the sessions that include all of the given scopes
+     * Part of `vscode.AuthenticationProvider`
+     * @param scopes The required scopes, if any
+     */
+    async getSessions(scopes?: readonly string[]): Promise<vscode.AuthenticationSession[]> {
+        const session = await this.getSession();
+        if (!session || !this.hasScopes(session, scopes || [])) {
+            return [];
+        }
+        return [this.toAuthenticationSession(session)];
+    }
+
+    /**
+     * Sign in with the given scopes (added to the ones already granted)
+     * Part of `vscode.AuthenticationProvider`
+     * @param scopes The scopes to request
+     */
+    async createSession(scopes: readonly string[]): Promise<vscode.AuthenticationSession> {
+        const session = await this.signIn(scopes);
+        if (!session) {
+            throw new Error('Twitch sign-in was cancelled or failed');
+        }
+        return this.toAuthenticationSession(session);
+    }
+
+    /**
+     * Sign out (e.g. from the Accounts menu)
+     * Part of `vscode.AuthenticationProvider`
+     * @param _sessionId Only one session is stored at a time
+     */
+    async removeSession(_sessionId: string): Promise<void> {
+        await this.signOut();
+    }
+
+    private getGrantedScopes(session: AuthSession): string[] {
+        return session.scopes || TwitchAuthProvider.LEGACY_SCOPES;
+    }
+
+    private toAuthenticationSession(session: AuthSession): vscode.AuthenticationSession {
+        const label = session.username || 'Twitch user';
+        return {
+            id: session.id || label,
+            accessToken: session.accessToken,
+            account: {
+                id: session.userId || label,
+                label: label
+            },
+            scopes: this.getGrantedScopes(session)
+        };
+    }
+
+    /**
+     * Validate the stored token on startup and then every hour, as Twitch requires
+     */
+    startValidation() {
+        this.validateSession();
+        this.validateTimer = setInterval(() => this.validateSession(), config.twitch.validateIntervalMs);
+    }
+
+    /**
+     * Validate the stored token with Twitch
+     * Refreshes the expiry time, or signs out if Twitch no longer accepts the token
+     */
+    async validateSession(): Promise<void> {
+        const session = await this.getSession();
+        if (!session) {
+            return;
+        }
+
+        let validation: TokenValidation | undefined;
+        try {
+            validation = await this.validateToken(session.accessToken);
+        } catch (error) {
+            // Network trouble - keep the session and try again on the next run
+            this.outputChannel.appendLine(`Token validation failed: ${error}`);
+            return;
+        }
+
+        if (!validation) {
+            // Refreshes the token if possible, signs out otherwise
+            await this.handleTokenRejected();
+            return;
+        }
+
+        // Don't resurrect a session that was replaced or signed out while validating
+        const current = await this.readSession();
+        if (current?.accessToken !== session.accessToken) {
+            return;
+        }
+
+        session.expiresAt = validation.expires_in > 0 ? Date.now() + validation.expires_in * 1000 : undefined;
+        session.username = validation.login || session.username;
+        session.userId = validation.user_id || session.userId;
+        session.scopes = validation.scopes || session.scopes;
+        await this.storeSession(session);
+        this.scheduleExpiry(session);
+
+        const expiry = session.expiresAt ? `expires in ${Math.round(validation.expires_in / 60)} min` : 'does not expire';
+        this.outputChannel.appendLine(`Token validated for ${validation.login} (${expiry})`);
+    }
+
+    /**
+     * Call the token validation endpoint
+     * @param accessToken The access token to validate
+     * @returns Token details, or undefined if Twitch rejected the token
+     */
+    private async validateToken(accessToken: string): Promise<TokenValidation | undefined> {
+        return new Promise((resolve, reject) => {
+            const req = https.request(`${config.twitch.authBaseUrl}/validate`, {
+                method: 'GET',
+                headers: {
+                    'Authorization': `OAuth ${accessToken}`
+                }
+            }, (res) => {
+                let data = '';
+                res.on('data', (chunk) => { data += chunk; });
+                res.on('end', () => {
+                    if (res.statusCode === 401) {
+                        resolve(undefined);
+                    } else if (res.statusCode !== 200) {
+                        reject(new Error(`HTTP ${res.statusCode}: ${data}`));
+                    } else {
+                        try {
+                            resolve(JSON.parse(data));
+                        } catch (error) {
+                            reject(new Error(`Failed to parse validation response: ${error}`));
+                        }
+                    }
+                });
+            });
+
+            req.on('error', (error) => reject(error));
+            req.end();
+        });
+    }
+
+    /**
+     * Refresh the token shortly before it expires, or (without a refresh token)
+     * warn shortly before it expires and sign out once it has
+     * @param session The stored session
+     */
+    private scheduleExpiry(session: AuthSession) {
+        this.clearExpiryTimers();
+
+        if (!session.expiresAt) {
+            return;
+        }
+
+        const remaining = session.expiresAt - Date.now();
+
+        if (session.refreshToken) {
+            const refreshIn = Math.max(remaining - config.twitch.refreshMarginMs, 0);
+            if (refreshIn < TwitchAuthProvider.MAX_TIMER_DELAY) {
+                this.expiryTimer = setTimeout(() => this.refreshSession(session), refreshIn);
+            }
+            return;
+        }
+
+        const warnIn = remaining - config.twitch.expiryWarningMs;
+
+        if (warnIn <= 0) {
+            this.showExpiryWarning(remaining);
+        } else if (warnIn < TwitchAuthProvider.MAX_TIMER_DELAY) {
+            this.expiryWarningTimer = setTimeout(() => this.showExpiryWarning(config.twitch.expiryWarningMs), warnIn);
+        }
+
+        if (remaining < TwitchAuthProvider.MAX_TIMER_DELAY) {
+            this.expiryTimer = setTimeout(() => this.invalidateSession('Your Twitch sign-in has expired.'), Math.max(remaining, 0));
+        }
+    }
+
+    private async showExpiryWarning(remaining: number) {
+        const minutes = Math.max(1, Math.round(remaining / 60000));
+        const choice = await vscode.window.showWarningMessage(
+            `Your Twitch sign-in expires in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+            'Sign In Again'
+        );
+        if (choice === 'Sign In Again') {
+            vscode.commands.executeCommand('twitchChat.signIn');
+        }
+    }
+
+    private clearExpiryTimers() {
+        if (this.expiryWarningTimer) {
+            clearTimeout(this.expiryWarningTimer);
+            this.expiryWarningTimer = undefined;
+        }
+        if (this.expiryTimer) {
+            clearTimeout(this.expiryTimer);
+            this.expiryTimer = undefined;
+        }
+    }
+
+    /**
+     * Handle Twitch rejecting the access token
+     * Tries a refresh first, since the token may just have expired early
+     */
+    private async handleTokenRejected() {
+        const session = await this.readSession();
+        if (session?.refreshToken) {
+            await this.refreshSession(session);
+        } else {
+            await this.invalidateSession('Twitch rejected your sign-in.');
+        }
+    }
+
+    /**
+     * Exchange the refresh token for a new access token
+     * Concurrent callers share one request, since Twitch rotates the refresh token
+     * @param session The stored session
+     * @returns The refreshed session, or undefined if it could not be refreshed
+     */
+    private refreshSession(session: AuthSession): Promise<AuthSession | undefined> {
+        if (!this.refreshPromise) {
+            this.refreshPromise = this.performRefresh(session).finally(() => {
+                this.refreshPromise = undefined;
+            });
+        }
+        return this.refreshPromise;
+    }
+
+    private async performRefresh(session: AuthSession): Promise<AuthSession | undefined> {
+        this.outputChannel.appendLine('Refreshing access token...');
+
+        let response: { status: number; json: any };
+        try {
+            response = await this.postForm('/token', {
+                client_id: TwitchAuthProvider.CLIENT_ID,
+                grant_type: 'refresh_token',
+                refresh_token: session.refreshToken
+            });
+        } catch (error) {
+            // Network trouble - try again shortly, the current token may still be good
+            this.outputChannel.appendLine(`Token refresh failed: ${error}`);
+            this.clearExpiryTimers();
+            this.expiryTimer = setTimeout(() => this.refreshSession(session), TwitchAuthProvider.REFRESH_RETRY_DELAY);
+            return session.expiresAt && Date.now() < session.expiresAt ? session : undefined;
+        }
+
+        if (response.status !== 200) {
+            this.outputChannel.appendLine(`Refresh token rejected: HTTP ${response.status} - ${response.json?.message}`);
+            await this.invalidateSession('Your Twitch sign-in could not be renewed.');
+            return undefined;
+        }
+
+        // Don't resurrect a session that was replaced or signed out while refreshing
+        const current = await this.readSession();
+        if (current?.refreshToken !== session.refreshToken) {
+            return current;
+        }
+
+        const tokenData: TokenResponse = response.json;
+        const refreshed: AuthSession = {
+            ...session,
+            accessToken: tokenData.access_token,
+            refreshToken: tokenData.refresh_token || session.refreshToken,
+            expiresIn: tokenData.expires_in || 0,
+            expiresAt: tokenData.expires_in ? Date.now() + tokenData.expires_in * 1000 : undefined
+        };
+
+        await this.storeSession(refreshed);
+        this.scheduleExpiry(refreshed);
+        this.outputChannel.appendLine('✅ Access token refreshed');
+        this.sessionsChangedEmitter.fire({ added: [], removed: [], changed: [this.toAuthenticationSession(refreshed)] });
+
+        return refreshed;
+    }
+
+    /**
+     * POST a form to the Twitch OAuth endpoints
+     * @param path Path relative to the OAuth base URL (e.g. '/token')
+     * @param params Form fields
+     * @returns Status code and parsed JSON body
+     */
+    private async postForm(path: string, params: { [key: string]: string }): Promise<{ status: number; json: any }> {
+        return new Promise((resolve, reject) => {
+            const body = new URLSearchParams(params).toString();
+
+            const req = https.request(`${config.twitch.authBaseUrl}${path}`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/x-www-form-urlencoded',
+                    'Content-Length': Buffer.byteLength(body)
+                }
+            }, (res) => {
+                let data = '';
+                res.on('data', (chunk) => { data += chunk; });
+                res.on('end', () => {
+                    let json: any;
+                    try {
+                        json = data ? JSON.parse(data) : undefined;
+                    } catch {
+                        json = undefined;
+                    }
+                    resolve({ status: res.statusCode || 0, json: json });
+                });
+            });
+
+            req.on('error', (error) => reject(error));
+            req.write(body);
+            req.end();
+        });
+    }
+
+    /**
+     * Drop a session Twitch no longer accepts and offer to sign in again
+     * @param reason Shown to the user
+     */
+    private async invalidateSession(reason: string) {
+        // Several in-flight requests can fail at once, only handle the first
+        if (this.isInvalidating) {
+            return;
+        }
+        this.isInvalidating = true;
+
+        try {
+            const session = await this.readSession();
+            if (!session) {
+                return;
+            }
+
+            this.outputChannel.appendLine(`Signing out: ${reason}`);
+            await this.clearSession();
+            this.sessionsChangedEmitter.fire({ added: [], removed: [this.toAuthenticationSession(session)], changed: [] });
+
+            // Not awaited - callers shouldn't wait for the user to answer
+            vscode.window.showWarningMessage(`${reason} Sign in again to chat and moderate.`, 'Sign In').then(choice => {
+                if (choice === 'Sign In') {
+                    vscode.commands.executeCommand('twitchChat.signIn');
+                }
+            });
+        } finally {
+            this.isInvalidating = false;
+        }
+    }
+
+    /**
+     * Read the stored session as-is, without expiry handling
+     */
+    private async readSession(): Promise<AuthSession | undefined> {
+        const sessionJson = await this.context.secrets.get(TwitchAuthProvider.STORAGE_KEY);
+        return sessionJson ? JSON.parse(sessionJson) : undefined;
+    }
+
+    /**
+     * Remove the stored session and its expiry timers
+     */
+    private async clearSession(): Promise<void> {
+        this.clearExpiryTimers();
+        await this.context.secrets.delete(TwitchAuthProvider.STORAGE_KEY);
+    }
+
+    dispose() {
+        if (this.validateTimer) {
+            clearInterval(this.validateTimer);
+            this.validateTimer = undefined;
+        }
+        this.clearExpiryTimers();
+        this.helixListener.dispose();
+        this.sessionsChangedEmitter.dispose();
+    }
+
     /**
      * Generate random state parameter for CSRF protection
      */
@@ -145,17 +752,17 @@ export class TwitchAuthProvider {
      * Build Twitch authorization URL using Implicit Grant Flow
      * Uses response_type=token to get token directly (no code exchange)
      */
-    private buildAuthUrl(state: string): string {
+    private buildAuthUrl(state: string, scopes: string[]): string {
         const params = new URLSearchParams({
             client_id: TwitchAuthProvider.CLIENT_ID,
             redirect_uri: TwitchAuthProvider.REDIRECT_URI,
             response_type: 'token', // Implicit flow - token returned directly!
-            scope: TwitchAuthProvider.SCOPES.join(' '),
+            scope: scopes.join(' '),
             state: state,
             force_verify: 'false' // Set to 'true' to always show authorization
         });
 
-        return `https://id.twitch.tv/oauth2/authorize?${params.toString()}`;
+        return `${config.twitch.authBaseUrl}/authorize?${params.toString()}`;
     }
 
     /**
@@ -215,7 +822,7 @@ export class TwitchAuthProvider {
                                 access_token: data.access_token,
                                 refresh_token: '', // Implicit flow doesn't provide refresh token
                                 expires_in: parseInt(data.expires_in || '0'),
-                                scope: (data.scope || '').split(' '),
+                                scope: (data.scope || '').split(' ').filter(Boolean),
                                 token_type: data.token_type || 'bearer'
                             });
                         } catch (error) {
@@ -321,57 +928,22 @@ export class TwitchAuthProvider {
 
 
     /**
-     * Fetch Twitch username from Helix API
+     * Fetch the signed-in Twitch user from Helix API
      */
-    private async fetchUsername(accessToken: string): Promise<string | undefined> {
-        return new Promise((resolve) => {
-            const options = {
-                hostname: 'api.twitch.tv',
-                path: '/helix/users',
-                method: 'GET',
-                headers: {
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Client-Id': TwitchAuthProvider.CLIENT_ID
-                }
-            };
-
-            const req = https.request(options, (res) => {
-                let data = '';
-
-                res.on('data', (chunk) => {
-                    data += chunk;
-                });
-
-                res.on('end', () => {
-                    try {
-                        if (res.statusCode === 200) {
-                            const json = JSON.parse(data);
-                            if (json.data && json.data.length > 0) {
-                                const user: TwitchUser = json.data[0];
-                                this.outputChannel.appendLine(`Fetched username: ${user.login}`);
-                                resolve(user.login);
-                            } else {
-                                this.outputChannel.appendLine('No user data in response');
-                                resolve(undefined);
-                            }
-                        } else {
-                            this.outputChannel.appendLine(`Failed to fetch username: HTTP ${res.statusCode}`);
-                            resolve(undefined);
-                        }
-                    } catch (error) {
-                        this.outputChannel.appendLine(`Error parsing user data: ${error}`);
-                        resolve(undefined);
-                    }
-                });
-            });
-
-            req.on('error', (error) => {
-                this.outputChannel.appendLine(`Error fetching username: ${error}`);
-                resolve(undefined);
-            });
+    private async fetchUser(accessToken: string): Promise<TwitchUser | undefined> {
+        try {
+            const [user] = await this.helix.get<TwitchUser>('/users', {}, accessToken);
+            if (!user) {
+                this.outputChannel.appendLine('No user data in response');
+                return undefined;
+            }
 
-            req.end();
-        });
+            this.outputChannel.appendLine(`Fetched username: ${user.login}`);
+            return user;
+        } catch (error) {
+            this.outputChannel.appendLine(`Failed to fetch username: ${error}`);
+            return undefined;
+        }
     }
 
     /**
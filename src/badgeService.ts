@@ -0,0 +1,229 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from './config';
+import { HelixClient } from './helixClient';
+import { MessageBadge, TwitchMessage } from './protocol';
+
+/**
+ * Image and title of one badge version
+ */
+interface BadgeImage {
+    title: string;
+    url: string;
+}
+
+/**
+ * Cache file contents, badges keyed by 'set/version'
+ */
+interface CachedBadges {
+    fetchedAt: number;
+    badges: [string, BadgeImage][];
+}
+
+/**
+ * Resolves the `set/version` badge pairs from IRC tags to images and titles
+ *
+ * Global badges come from `/chat/badges/global` and each joined channel's custom badges
+ * (subscriber tenure, bits tiers) from `/chat/badges?broadcaster_id=`; a channel's version
+ * of a badge wins over the global one. Both are cached on disk like the emote lists.
+ * Without a token (anonymous chat) only the badges in `config.badgeUrls` are shown.
+ * @see https://dev.twitch.tv/docs/api/reference/#get-global-chat-badges
+ */
+export class BadgeService {
+    private readonly cacheDir: string | undefined;
+    private globalBadges: Map<string, BadgeImage> = new Map();
+    private globalLoad: Promise<void> | undefined;
+    private channelBadges: Map<string, Map<string, BadgeImage>> = new Map();
+
+    /**
+     * @param helix Helix API client
+     * @param outputChannel Output channel for logging
+     * @param storageUri Where to cache badge lists (the extension's global storage); no caching if omitted
+     */
+    constructor(
+        private readonly helix: HelixClient,
+        private readonly outputChannel: vscode.OutputChannel,
+        storageUri?: vscode.Uri
+    ) {
+        this.cacheDir = storageUri ? path.join(storageUri.fsPath, 'badges') : undefined;
+    }
+
+    /**
+     * Load the global badges, once
+     * @param token User access token (Helix requires one)
+     */
+    loadGlobalBadges(token?: string): Promise<void> {
+        if (!this.globalLoad) {
+            this.globalLoad = this.loadBadges('badges-global', 'global badges', '/chat/badges/global', {}, token).then(badges => {
+                this.globalBadges = badges;
+                if (badges.size === 0) {
+                    // Try again with the next channel
+                    this.globalLoad = undefined;
+                }
+            });
+        }
+        return this.globalLoad;
+    }
+
+    /**
+     * Load a channel's custom badges
+     * @param channelName The Twitch channel name (lowercase)
+     * @param broadcasterId The channel's user ID
+     * @param token User access token (Helix requires one)
+     */
+    async loadChannelBadges(channelName: string, broadcasterId: string, token?: string): Promise<void> {
+        const badges = await this.loadBadges(`badges-channel-${broadcasterId.replace(/[^0-9a-z_]/gi, '_')}`, `badges for ${channelName}`, '/chat/badges', { broadcaster_id: broadcasterId }, token);
+        this.channelBadges.set(channelName, badges);
+    }
+
+    /**
+     * Drop a channel's badges after leaving it
+     * @param channelName The Twitch channel name (lowercase)
+     */
+    forgetChannel(channelName: string) {
+        this.channelBadges.delete(channelName);
+    }
+
+    /**
+     * Resolve the badges from a message's IRC tags
+     * @param channelName The channel the message was sent in
+     * @param badges The `badges` tag (set -> version), in display order
+     * @param badgeInfo The `badge-info` tag (set -> exact subscription months)
+     * @returns The badges that have an image
+     */
+    resolve(channelName: string, badges: { [set: string]: string | undefined } | undefined, badgeInfo?: { [set: string]: string | undefined }): MessageBadge[] {
+        const channelBadges = this.channelBadges.get(channelName);
+        const resolved: MessageBadge[] = [];
+
+        for (const [set, version] of Object.entries(badges || {})) {
+            if (version === undefined) {
+                continue;
+            }
+
+            const key = `${set}/${version}`;
+            const image = channelBadges?.get(key) || this.globalBadges.get(key) || fallbackBadge(set);
+            if (!image) {
+                continue;
+            }
+
+            // The badge shows the tenure tier (e.g. 6 months), badge-info the exact count
+            const months = set === 'subscriber' || set === 'founder' ? badgeInfo?.[set] : undefined;
+            resolved.push({
+                set: set,
+                version: version,
+                title: months ? `${image.title} (${months} months)` : image.title,
+                url: image.url
+            });
+        }
+
+        return resolved;
+    }
+
+    /**
+     * Get badges from the cache if it's fresh, otherwise from Helix
+     * @returns Map of 'set/version' -> image (empty if neither Helix nor the cache has them)
+     */
+    private async loadBadges(key: string, label: string, endpoint: string, query: { [key: string]: string }, token?: string): Promise<Map<string, BadgeImage>> {
+        const cached = await this.readCache(key);
+        if (cached && Date.now() - cached.fetchedAt < config.badges.cacheTtlMs) {
+            this.outputChannel.appendLine(`Loaded ${cached.badges.length} ${label} from cache`);
+            return new Map(cached.badges);
+        }
+
+        if (!token) {
+            return cached ? new Map(cached.badges) : new Map();
+        }
+
+        try {
+            const badges = parseBadgeSets(await this.helix.get(endpoint, query, token));
+            this.outputChannel.appendLine(`Loaded ${badges.size} ${label}`);
+            await this.writeCache(key, badges);
+            return badges;
+        } catch (error) {
+            if (cached) {
+                this.outputChannel.appendLine(`Failed to fetch ${label} (${error}), using the cached list from ${new Date(cached.fetchedAt).toLocaleString()}`);
+                return new Map(cached.badges);
+            }
+            this.outputChannel.appendLine(`Failed to fetch ${label}: ${error}`);
+            return new Map();
+        }
+    }
+
+    private async readCache(key: string): Promise<CachedBadges | undefined> {
+        if (!this.cacheDir) {
+            return undefined;
+        }
+        try {
+            const cached = JSON.parse(await fs.promises.readFile(path.join(this.cacheDir, `${key}.json`), 'utf8')) as CachedBadges;
+            return typeof cached.fetchedAt === 'number' && Array.isArray(cached.badges) ? cached : undefined;
+        } catch {
+            // Not cached yet (or unreadable)
+            return undefined;
+        }
+    }
+
+    private async writeCache(key: string, badges: Map<string, BadgeImage>) {
+        if (!this.cacheDir) {
+            return;
+        }
+        const cached: CachedBadges = { fetchedAt: Date.now(), badges: Array.from(badges) };
+        try {
+            await fs.promises.mkdir(this.cacheDir, { recursive: true });
+            await fs.promises.writeFile(path.join(this.cacheDir, `${key}.json`), JSON.stringify(cached), 'utf8');
+        } catch (error) {
+            this.outputChannel.appendLine(`Failed to cache ${key}: ${error}`);
+        }
+    }
+}
+
+/**
+ * Get a message's badges
+ * @returns The badges resolved when the message arrived, or for messages logged before
+ * badges were resolved, the ones in `config.badgeUrls`
+ */
+export function getMessageBadges(message: TwitchMessage): MessageBadge[] {
+    if (message.badgeDetails) {
+        return message.badgeDetails;
+    }
+
+    const badges: MessageBadge[] = [];
+    for (const badge of message.badges) {
+        // Own messages in the broadcaster's channel used to carry the badge's URL
+        if (/^https?:\/\//.test(badge)) {
+            badges.push({ set: 'broadcaster', version: '1', title: 'Broadcaster', url: badge });
+            continue;
+        }
+        const image = fallbackBadge(badge);
+        if (image) {
+            badges.push({ set: badge, version: '1', ...image });
+        }
+    }
+    return badges;
+}
+
+/**
+ * Flatten Helix badge sets (`{ set_id, versions: [{ id, title, image_url_1x }] }`) to 'set/version' keys
+ */
+function parseBadgeSets(sets: any[]): Map<string, BadgeImage> {
+    const badges = new Map<string, BadgeImage>();
+    for (const set of sets) {
+        if (!set || !set.set_id || !Array.isArray(set.versions)) {
+            continue;
+        }
+        for (const version of set.versions) {
+            if (version && version.id && version.image_url_1x) {
+                badges.set(`${set.set_id}/${version.id}`, { title: version.title || set.set_id, url: version.image_url_1x });
+            }
+        }
+    }
+    return badges;
+}
+
+/**
+ * Built-in image for common badges, used until (or when) Helix badges can't be loaded
+ */
+function fallbackBadge(set: string): BadgeImage | undefined {
+    const url = Object.prototype.hasOwnProperty.call(config.badgeUrls, set) ? config.badgeUrls[set] : undefined;
+    return url ? { title: set.charAt(0).toUpperCase() + set.slice(1), url: url } : undefined;
+}
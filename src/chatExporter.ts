@@ -0,0 +1,523 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import { ChatEvent, RoomState, TwitchMessage } from './protocol';
+import { ChatLogger, formatDate } from './chatLogger';
+import { escapeHtml, renderMessage } from './messageRenderer';
+
+export type ExportFormat = 'markdown' | 'html' | 'csv';
+
+/**
+ * One line of an export: a chat message (possibly removed later) or a moderation/mode notice
+ */
+type ExportEntry =
+    | { kind: 'message'; timestamp: number; message: TwitchMessage; removal?: string }
+    | { kind: 'moderation'; timestamp: number; text: string };
+
+const FILE_EXTENSIONS: { [key in ExportFormat]: string } = {
+    markdown: 'md',
+    html: 'html',
+    csv: 'csv'
+};
+
+/**
+ * Ask for a channel, time range and format, then write the logged chat to a file
+ * @param chatLogger The logger holding the chat history
+ * @param sessionStart When this VS Code session started (for the "This session" range)
+ */
+export async function exportSession(chatLogger: ChatLogger, sessionStart: number): Promise<void> {
+    const channels = await chatLogger.getChannels();
+    if (channels.length === 0) {
+        vscode.window.showInformationMessage('No chat has been logged yet. Chat logging can be enabled with "twitchChat.log.enabled".');
+        return;
+    }
+
+    const channel = channels.length === 1 ? channels[0] : await vscode.window.showQuickPick(channels, {
+        title: 'Export Chat: Channel',
+        placeHolder: 'Channel to export'
+    });
+    if (!channel) {
+        return;
+    }
+
+    const range = await pickTimeRange(sessionStart);
+    if (!range) {
+        return;
+    }
+
+    const formatItems: (vscode.QuickPickItem & { format: ExportFormat })[] = [
+        { label: 'Markdown', description: '.md', format: 'markdown' },
+        { label: 'HTML', description: '.html, standalone with emotes and badges', format: 'html' },
+        { label: 'CSV', description: '.csv, one row per event', format: 'csv' }
+    ];
+    const formatItem = await vscode.window.showQuickPick(formatItems, {
+        title: 'Export Chat: Format'
+    });
+    if (!formatItem) {
+        return;
+    }
+
+    const events = await chatLogger.readEvents(channel, range.from, range.to);
+    if (events.length === 0) {
+        vscode.window.showInformationMessage(`No chat logged for #${channel} in that time range.`);
+        return;
+    }
+
+    const format = formatItem.format;
+    const defaultName = `${channel}-${formatDate(range.from)}.${FILE_EXTENSIONS[format]}`;
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.joinPath(vscode.workspace.workspaceFolders?.[0]?.uri ?? vscode.Uri.file(os.homedir()), defaultName),
+        filters: { [formatItem.label]: [FILE_EXTENSIONS[format]] },
+        saveLabel: 'Export'
+    });
+    if (!target) {
+        return;
+    }
+
+    const content = formatExport(format, channel, range.from, range.to, events);
+    await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+
+    const choice = await vscode.window.showInformationMessage(`Exported ${events.length} chat events to ${target.fsPath}`, 'Open');
+    if (choice === 'Open') {
+        if (format === 'html') {
+            vscode.env.openExternal(target);
+        } else {
+            vscode.window.showTextDocument(target);
+        }
+    }
+}
+
+/**
+ * Format logged events
+ * @param format Output format
+ * @param channel The channel name
+ * @param from Start of the exported range
+ * @param to End of the exported range
+ * @param events The events, oldest first
+ * @returns The file content
+ */
+export function formatExport(format: ExportFormat, channel: string, from: number, to: number, events: ChatEvent[]): string {
+    const entries = buildEntries(events);
+
+    switch (format) {
+        case 'markdown':
+            return formatMarkdown(channel, from, to, entries);
+        case 'html':
+            return formatHtml(channel, from, to, entries);
+        case 'csv':
+            return formatCsv(channel, entries);
+    }
+}
+
+/**
+ * Let the user pick the time range to export
+ * @param sessionStart When this VS Code session started
+ * @returns The range, or undefined if cancelled
+ */
+async function pickTimeRange(sessionStart: number): Promise<{ from: number; to: number } | undefined> {
+    const now = Date.now();
+    const hour = 60 * 60 * 1000;
+    const startOfToday = new Date(new Date().setHours(0, 0, 0, 0)).getTime();
+
+    const items: (vscode.QuickPickItem & { from?: number })[] = [
+        { label: 'This session', description: `since ${new Date(sessionStart).toLocaleString()}`, from: sessionStart },
+        { label: 'Last hour', from: now - hour },
+        { label: 'Today', from: startOfToday },
+        { label: 'Last 24 hours', from: now - 24 * hour },
+        { label: 'Last 7 days', from: now - 7 * 24 * hour },
+        { label: 'Custom range...' }
+    ];
+
+    const item = await vscode.window.showQuickPick(items, { title: 'Export Chat: Time Range' });
+    if (!item) {
+        return undefined;
+    }
+    if (item.from !== undefined) {
+        return { from: item.from, to: now };
+    }
+
+    const from = await promptDate('Start (YYYY-MM-DD or YYYY-MM-DD HH:MM)', formatDate(now));
+    if (from === undefined) {
+        return undefined;
+    }
+    const to = await promptDate('End (YYYY-MM-DD or YYYY-MM-DD HH:MM, empty for now)', '', true);
+    if (from === null || to === undefined) {
+        return undefined;
+    }
+
+    const range = { from: from, to: to === null ? now : to };
+    if (range.to < range.from) {
+        vscode.window.showWarningMessage('The end of the range is before its start.');
+        return undefined;
+    }
+    return range;
+}
+
+/**
+ * Ask for a local date or date and time
+ * @param prompt Input box prompt
+ * @param value Initial value
+ * @param isEnd Accept an empty value (returned as null) and treat a bare date as the end of that day
+ * @returns Milliseconds since the epoch, null for an empty value, or undefined if cancelled
+ */
+async function promptDate(prompt: string, value: string, isEnd: boolean = false): Promise<number | null | undefined> {
+    const input = await vscode.window.showInputBox({
+        title: 'Export Chat: Custom Range',
+        prompt: prompt,
+        value: value,
+        validateInput: (text) => (isEnd && text.trim() === '') || parseLocalDate(text) !== undefined
+            ? undefined
+            : 'Use YYYY-MM-DD or YYYY-MM-DD HH:MM'
+    });
+
+    if (input === undefined) {
+        return undefined;
+    }
+    if (input.trim() === '') {
+        return null;
+    }
+    return parseLocalDate(input, isEnd);
+}
+
+/**
+ * Parse 'YYYY-MM-DD' or 'YYYY-MM-DD HH:MM' as local time
+ * @param text The input
+ * @param endOfDay Return the last millisecond of the day for a bare date instead of midnight
+ */
+function parseLocalDate(text: string, endOfDay: boolean = false): number | undefined {
+    const match = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2}))?$/.exec(text.trim());
+    if (!match) {
+        return undefined;
+    }
+
+    const [, year, month, day, hours, minutes] = match;
+    const date = new Date(Number(year), Number(month) - 1, Number(day), Number(hours || 0), Number(minutes || 0));
+    if (isNaN(date.getTime())) {
+        return undefined;
+    }
+    if (endOfDay && hours === undefined) {
+        date.setDate(date.getDate() + 1);
+        return date.getTime() - 1;
+    }
+    return date.getTime();
+}
+
+/**
+ * Turn events into export lines
+ * Messages stay in the export when they are deleted or their author is timed out/banned,
+ * but are marked with what removed them
+ */
+function buildEntries(events: ChatEvent[]): ExportEntry[] {
+    const entries: ExportEntry[] = [];
+    const messages: (ExportEntry & { kind: 'message' })[] = [];
+
+    const markRemoved = (predicate: (message: TwitchMessage) => boolean, removal: string) => {
+        for (const entry of messages) {
+            if (!entry.removal && predicate(entry.message)) {
+                entry.removal = removal;
+            }
+        }
+    };
+
+    for (const event of events) {
+        switch (event.type) {
+            case 'message': {
+                const entry = { kind: 'message' as const, timestamp: event.timestamp, message: event.message };
+                entries.push(entry);
+                messages.push(entry);
+                break;
+            }
+
+            case 'messageDeleted': {
+                const deleted = messages.find(entry => entry.message.messageId === event.messageId);
+                if (deleted) {
+                    deleted.removal = 'deleted';
+                }
+                entries.push({
+                    kind: 'moderation',
+                    timestamp: event.timestamp,
+                    text: deleted ? `Message from ${deleted.message.displayName} deleted` : 'Message deleted'
+                });
+                break;
+            }
+
+            case 'userCleared': {
+                const action = event.duration ? `timed out for ${event.duration}s` : 'banned';
+                markRemoved(message => message.username === event.username, action);
+                entries.push({ kind: 'moderation', timestamp: event.timestamp, text: `${event.username} ${action}` });
+                break;
+            }
+
+            case 'chatCleared':
+                markRemoved(() => true, 'chat cleared');
+                entries.push({ kind: 'moderation', timestamp: event.timestamp, text: 'Chat cleared' });
+                break;
+
+            case 'roomState': {
+                const description = describeRoomState(event.roomState);
+                if (description) {
+                    entries.push({ kind: 'moderation', timestamp: event.timestamp, text: description });
+                }
+                break;
+            }
+        }
+    }
+
+    return entries;
+}
+
+/**
+ * Describe a chat mode change
+ * @returns e.g. 'Slow mode: 30s, Subscribers-only: off'
+ */
+function describeRoomState(roomState: Partial<RoomState>): string | undefined {
+    const onOff = (value: boolean) => value ? 'on' : 'off';
+    const parts: string[] = [];
+
+    if (roomState.shieldMode !== undefined) {
+        parts.push(`Shield Mode: ${onOff(roomState.shieldMode)}`);
+    }
+    if (roomState.subsOnly !== undefined) {
+        parts.push(`Subscribers-only: ${onOff(roomState.subsOnly)}`);
+    }
+    if (roomState.emotesOnly !== undefined) {
+        parts.push(`Emote-only: ${onOff(roomState.emotesOnly)}`);
+    }
+    if (roomState.followersOnly !== undefined) {
+        parts.push(`Followers-only: ${roomState.followersOnly === false ? 'off' : `${roomState.followersOnly} min`}`);
+    }
+    if (roomState.slowMode !== undefined) {
+        parts.push(`Slow mode: ${roomState.slowMode > 0 ? `${roomState.slowMode}s` : 'off'}`);
+    }
+
+    return parts.length > 0 ? parts.join(', ') : undefined;
+}
+
+function formatMarkdown(channel: string, from: number, to: number, entries: ExportEntry[]): string {
+    const escape = (text: string) => text.replace(/([\\`*_[\]<>|~])/g, '\\$1');
+
+    const lines = [
+        `# Twitch chat: #${channel}`,
+        '',
+        `${new Date(from).toLocaleString()} – ${new Date(to).toLocaleString()}`,
+        '',
+        '> ~~Struck-through~~ messages were removed by a moderator; 🛡️ lines are moderation actions and mode changes.',
+        ''
+    ];
+
+    for (const entry of entries) {
+        const time = formatTime(entry.timestamp);
+        if (entry.kind === 'moderation') {
+            lines.push(`- \`${time}\` 🛡️ *${escape(entry.text)}*`);
+            continue;
+        }
+
+        const message = entry.message;
+        const label = getMessageLabel(message);
+        let line = message.messageType === 'system'
+            ? `*${escape(message.message)}*`
+            : `**${escape(message.displayName)}**${label ? ` \\[${escape(label)}\\]` : ''}: ${escape(message.message)}`;
+
+        if (entry.removal) {
+            line = `~~${line}~~ *(${entry.removal})*`;
+        }
+        lines.push(`- \`${time}\` ${line}`);
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+function formatHtml(channel: string, from: number, to: number, entries: ExportEntry[]): string {
+    const rows = entries.map(entry => {
+        const time = `<span class="time">${formatTime(entry.timestamp)}</span>`;
+        if (entry.kind === 'moderation') {
+            return `<div class="entry moderation">${time}<span class="notice">🛡️ ${escapeHtml(entry.text)}</span></div>`;
+        }
+
+        const removal = entry.removal ? `<span class="removal">${escapeHtml(entry.removal)}</span>` : '';
+        return `<div class="entry${entry.removal ? ' removed' : ''}">${time}${renderMessage(entry.message)}${removal}</div>`;
+    });
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Twitch chat: #${escapeHtml(channel)}</title>
+    <style>
+        body {
+            margin: 0;
+            padding: 16px;
+            font-family: 'Inter', 'Segoe UI', Roboto, sans-serif;
+            font-size: 14px;
+            line-height: 1.5;
+            background: #18181b;
+            color: #efeff1;
+        }
+
+        h1 {
+            font-size: 20px;
+            margin: 0 0 4px;
+        }
+
+        .range {
+            color: #adadb8;
+            margin-bottom: 16px;
+        }
+
+        .entry {
+            display: flex;
+            align-items: baseline;
+            gap: 8px;
+            padding: 2px 4px;
+            border-radius: 3px;
+        }
+
+        .entry:hover {
+            background: #26262c;
+        }
+
+        .time {
+            flex-shrink: 0;
+            color: #adadb8;
+            font-size: 12px;
+            font-variant-numeric: tabular-nums;
+        }
+
+        .chat-message {
+            flex: 1;
+            word-wrap: break-word;
+        }
+
+        .chat-message.system {
+            color: #adadb8;
+            font-style: italic;
+        }
+
+        .chat-message.subscription,
+        .chat-message.resub,
+        .chat-message.subgift,
+        .chat-message.bits {
+            border-left: 3px solid #9147ff;
+            padding-left: 6px;
+        }
+
+        .removed .chat-message {
+            opacity: 0.5;
+            text-decoration: line-through;
+        }
+
+        .removal {
+            flex-shrink: 0;
+            font-size: 11px;
+            padding: 0 6px;
+            border-radius: 8px;
+            background: #eb0400;
+            color: #fff;
+        }
+
+        .moderation .notice {
+            color: #f0a000;
+            font-style: italic;
+        }
+
+        .notice-badge {
+            margin-right: 6px;
+            font-size: 0.8em;
+            font-weight: bold;
+            color: #bf94ff;
+        }
+
+        .badge {
+            height: 18px;
+            margin-right: 3px;
+            vertical-align: middle;
+        }
+
+        .username {
+            font-weight: bold;
+        }
+
+        .emote,
+        .cheermote {
+            height: 28px;
+            vertical-align: middle;
+        }
+
+        .cheer-amount {
+            font-weight: bold;
+        }
+
+        .mention {
+            font-weight: bold;
+        }
+
+        a {
+            color: #bf94ff;
+        }
+    </style>
+</head>
+<body>
+    <h1>Twitch chat: #${escapeHtml(channel)}</h1>
+    <div class="range">${escapeHtml(`${new Date(from).toLocaleString()} – ${new Date(to).toLocaleString()}`)}</div>
+    ${rows.join('\n    ')}
+</body>
+</html>
+`;
+}
+
+function formatCsv(channel: string, entries: ExportEntry[]): string {
+    const header = ['timestamp', 'channel', 'type', 'username', 'display_name', 'message', 'message_id', 'badges', 'bits', 'status'];
+    const rows = entries.map(entry => {
+        const timestamp = new Date(entry.timestamp).toISOString();
+        if (entry.kind === 'moderation') {
+            return [timestamp, channel, 'moderation', '', '', entry.text, '', '', '', ''];
+        }
+
+        const message = entry.message;
+        return [
+            timestamp,
+            channel,
+            message.messageType || 'chat',
+            message.username,
+            message.displayName,
+            message.message,
+            message.messageId || '',
+            message.badges.filter(badge => !/^https?:/.test(badge)).join(' '),
+            message.bits ? String(message.bits) : '',
+            entry.removal || ''
+        ];
+    });
+
+    return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Quote a CSV field (RFC 4180)
+ * Values starting with a formula character are prefixed with ' so spreadsheets don't evaluate them
+ */
+function csvField(value: string): string {
+    const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Label for sub and bits notifications in the Markdown export
+ */
+function getMessageLabel(message: TwitchMessage): string | undefined {
+    switch (message.messageType) {
+        case 'subscription':
+            return 'new sub';
+        case 'resub':
+            return message.subMonths ? `resub, ${message.subMonths} months` : 'resub';
+        case 'subgift':
+            return message.recipientName ? `gift sub to ${message.recipientName}` : 'gift sub';
+        case 'bits':
+            return message.bits ? `${message.bits} bits` : 'bits';
+        default:
+            return undefined;
+    }
+}
+
+function formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
@@ -0,0 +1,424 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { ChatEvent, SearchQuery, TwitchMessage } from './protocol';
+import { config } from './config';
+
+/**
+ * Appends every chat event to JSONL files under the extension's global storage
+ *
+ * Layout: `logs/<channel>/<YYYY-MM-DD>.jsonl`, one event per line.
+ * When a day's file reaches `twitchChat.log.maxFileSizeMb` it's renamed to `<YYYY-MM-DD>.<n>.jsonl`
+ * and a new file is started. Files older than `twitchChat.log.retentionDays` are deleted.
+ */
+export class ChatLogger implements vscode.Disposable {
+    private static readonly FILE_PATTERN = /^(\d{4}-\d{2}-\d{2})(?:\.(\d+))?\.jsonl$/;
+
+    private readonly logDir: string;
+    private pending: Map<string, string[]> = new Map();
+    private fileSizes: Map<string, number> = new Map();
+    private flushTimer: NodeJS.Timeout | undefined;
+    private pruneTimer: NodeJS.Timeout | undefined;
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(storageUri: vscode.Uri, private readonly outputChannel: vscode.OutputChannel) {
+        this.logDir = path.join(storageUri.fsPath, 'logs');
+    }
+
+    /**
+     * Directory containing the per-channel log folders
+     */
+    getLogDirectory(): string {
+        return this.logDir;
+    }
+
+    /**
+     * Delete expired logs now and once a day
+     */
+    start() {
+        this.prune();
+        this.pruneTimer = setInterval(() => this.prune(), config.log.pruneIntervalMs);
+    }
+
+    /**
+     * Queue a chat event for writing
+     * Events are buffered briefly and appended in batches
+     * @param event The chat event
+     */
+    log(event: ChatEvent) {
+        if (!this.isEnabled()) {
+            return;
+        }
+
+        const file = path.join(this.getChannelDirectory(event.channel), `${formatDate(event.timestamp)}.jsonl`);
+        const lines = this.pending.get(file) || [];
+        lines.push(JSON.stringify(event));
+        this.pending.set(file, lines);
+
+        if (!this.flushTimer) {
+            this.flushTimer = setTimeout(() => this.flush(), config.log.flushDelayMs);
+        }
+    }
+
+    /**
+     * Write all buffered events
+     * @returns Promise that resolves once they are on disk
+     */
+    flush(): Promise<void> {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = undefined;
+        }
+
+        const batches = this.pending;
+        this.pending = new Map();
+
+        this.writeQueue = this.writeQueue.then(async () => {
+            for (const [file, lines] of batches) {
+                try {
+                    await this.append(file, lines.join('\n') + '\n');
+                } catch (error) {
+                    this.outputChannel.appendLine(`Chat log: failed to write ${file}: ${error}`);
+                }
+            }
+        });
+
+        return this.writeQueue;
+    }
+
+    /**
+     * Get the channels that have logs
+     * @returns Channel names, sorted
+     */
+    async getChannels(): Promise<string[]> {
+        try {
+            const entries = await fs.promises.readdir(this.logDir, { withFileTypes: true });
+            return entries.filter(entry => entry.isDirectory()).map(entry => entry.name).sort();
+        } catch {
+            return [];
+        }
+    }
+
+    /**
+     * Read the logged events of a channel in a time range
+     * Buffered events are flushed first so the result is up to date
+     * @param channel The channel name
+     * @param from Start of the range (ms since epoch, inclusive)
+     * @param to End of the range (ms since epoch, inclusive)
+     * @returns The events in the order they were logged
+     */
+    async readEvents(channel: string, from: number, to: number): Promise<ChatEvent[]> {
+        await this.flush();
+
+        const dir = this.getChannelDirectory(channel);
+        let files: string[];
+        try {
+            files = await fs.promises.readdir(dir);
+        } catch {
+            return [];
+        }
+
+        const firstDate = formatDate(from);
+        const lastDate = formatDate(to);
+        const dayFiles = this.sortLogFiles(files).filter(file => {
+            const date = file.substring(0, 10);
+            return date >= firstDate && date <= lastDate;
+        });
+
+        const events: ChatEvent[] = [];
+        for (const file of dayFiles) {
+            const content = await fs.promises.readFile(path.join(dir, file), 'utf8');
+            for (const line of content.split('\n')) {
+                const event = parseLine(line);
+                if (event && event.timestamp >= from && event.timestamp <= to) {
+                    events.push(event);
+                }
+            }
+        }
+
+        return events;
+    }
+
+    /**
+     * Search a channel's logged chat messages, newest first
+     * Files are streamed newest first and the search stops at the first file that fills the
+     * results, so memory stays bounded by `limit` whatever the retention period
+     * @param channel The channel name
+     * @param query The search criteria
+     * @param limit Stop after this many results
+     * @returns Matching messages (newest first) and whether more were cut off
+     */
+    async searchMessages(channel: string, query: SearchQuery, limit: number = config.log.searchResultLimit): Promise<{ results: TwitchMessage[]; truncated: boolean }> {
+        await this.flush();
+
+        const dir = this.getChannelDirectory(channel);
+        let files: string[];
+        try {
+            files = await fs.promises.readdir(dir);
+        } catch {
+            return { results: [], truncated: false };
+        }
+
+        const results: TwitchMessage[] = [];
+        for (const file of this.sortLogFiles(files).reverse()) {
+            // One more than needed tells whether results were cut off
+            const matches = await this.searchFile(path.join(dir, file), query, limit + 1 - results.length);
+            results.push(...matches.reverse());
+            if (results.length > limit) {
+                return { results: results.slice(0, limit), truncated: true };
+            }
+        }
+
+        return { results, truncated: false };
+    }
+
+    /**
+     * Stream a log file and collect its newest matching messages
+     * @param file Path of the log file
+     * @param query The search criteria
+     * @param keep How many of the newest matches to keep
+     * @returns Up to `keep` matches, oldest first
+     */
+    private async searchFile(file: string, query: SearchQuery, keep: number): Promise<TwitchMessage[]> {
+        const matches: TwitchMessage[] = [];
+        const lines = readline.createInterface({
+            input: fs.createReadStream(file, { encoding: 'utf8' }),
+            crlfDelay: Infinity
+        });
+
+        try {
+            for await (const line of lines) {
+                const event = parseLine(line);
+                if (event?.type !== 'message' || !matchesSearchQuery(event.message, query)) {
+                    continue;
+                }
+                // Later lines are newer, so drop the oldest match once there are enough
+                matches.push(event.message);
+                if (matches.length > keep) {
+                    matches.shift();
+                }
+            }
+        } catch (error) {
+            this.outputChannel.appendLine(`Chat log: failed to read ${file}: ${error}`);
+        } finally {
+            lines.close();
+        }
+
+        return matches;
+    }
+
+    /**
+     * Get the logged messages around a message
+     * @param channel The channel name
+     * @param messageId The message to center on
+     * @param timestamp When the message was sent
+     * @param size Messages to include before and after it
+     * @returns The messages in order, or an empty array if the message isn't in the logs
+     */
+    async readContext(channel: string, messageId: string, timestamp: number, size: number = config.log.contextSize): Promise<TwitchMessage[]> {
+        const hour = 60 * 60 * 1000;
+        const events = await this.readEvents(channel, timestamp - hour, timestamp + hour);
+        const messages = events
+            .filter((event): event is ChatEvent & { type: 'message' } => event.type === 'message')
+            .map(event => event.message);
+
+        const index = messages.findIndex(message => message.messageId === messageId);
+        if (index < 0) {
+            return [];
+        }
+        return messages.slice(Math.max(0, index - size), index + size + 1);
+    }
+
+    /**
+     * Stop pruning and write the buffered events
+     * @returns Promise that resolves once they are on disk
+     */
+    dispose(): Promise<void> {
+        if (this.pruneTimer) {
+            clearInterval(this.pruneTimer);
+            this.pruneTimer = undefined;
+        }
+        return this.flush();
+    }
+
+    /**
+     * Order log file names oldest first
+     * Per day: rotated files in order (.1, .2, ...), then the current file
+     * @param files File names in a channel directory
+     * @returns The log files, other names dropped
+     */
+    private sortLogFiles(files: string[]): string[] {
+        return files
+            .map(file => ({ file, match: ChatLogger.FILE_PATTERN.exec(file) }))
+            .filter(({ match }) => match !== null)
+            .map(({ file, match }) => ({ file, date: match![1], index: match![2] ? parseInt(match![2]) : Infinity }))
+            .sort((a, b) => a.date === b.date ? a.index - b.index : a.date < b.date ? -1 : 1)
+            .map(({ file }) => file);
+    }
+
+    private isEnabled(): boolean {
+        return vscode.workspace.getConfiguration('twitchChat.log').get<boolean>('enabled', true);
+    }
+
+    private getChannelDirectory(channel: string): string {
+        return path.join(this.logDir, channel.toLowerCase().replace(/[^a-z0-9_]/g, '_'));
+    }
+
+    /**
+     * Append to a day's file, rotating it first if the data would push it over the size limit
+     * @param file Path of the day's file
+     * @param data JSONL lines to append
+     */
+    private async append(file: string, data: string) {
+        const maxBytes = vscode.workspace.getConfiguration('twitchChat.log').get<number>('maxFileSizeMb', 10) * 1024 * 1024;
+        const bytes = Buffer.byteLength(data);
+
+        let size = this.fileSizes.get(file);
+        if (size === undefined) {
+            await fs.promises.mkdir(path.dirname(file), { recursive: true });
+            size = await fs.promises.stat(file).then(stat => stat.size, () => 0);
+        }
+
+        if (size > 0 && maxBytes > 0 && size + bytes > maxBytes) {
+            await this.rotate(file);
+            size = 0;
+        }
+
+        await fs.promises.appendFile(file, data, 'utf8');
+        this.fileSizes.set(file, size + bytes);
+    }
+
+    /**
+     * Rename a full file to the next free `<date>.<n>.jsonl`
+     * @param file Path of the day's file
+     */
+    private async rotate(file: string) {
+        const dir = path.dirname(file);
+        const date = path.basename(file, '.jsonl');
+        const entries = await fs.promises.readdir(dir);
+
+        let index = 1;
+        for (const entry of entries) {
+            const match = ChatLogger.FILE_PATTERN.exec(entry);
+            if (match && match[1] === date && match[2]) {
+                index = Math.max(index, parseInt(match[2]) + 1);
+            }
+        }
+
+        const target = path.join(dir, `${date}.${index}.jsonl`);
+        await fs.promises.rename(file, target);
+        this.outputChannel.appendLine(`Chat log: rotated ${file} to ${path.basename(target)}`);
+    }
+
+    /**
+     * Delete log files older than the retention period (0 keeps logs forever)
+     */
+    private async prune() {
+        const retentionDays = vscode.workspace.getConfiguration('twitchChat.log').get<number>('retentionDays', 30);
+        if (retentionDays <= 0) {
+            return;
+        }
+
+        const cutoff = formatDate(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+        let channels: string[];
+        try {
+            channels = await fs.promises.readdir(this.logDir);
+        } catch {
+            // Nothing logged yet
+            return;
+        }
+
+        let deleted = 0;
+        for (const channel of channels) {
+            const dir = path.join(this.logDir, channel);
+            try {
+                const files = await fs.promises.readdir(dir);
+                for (const file of files) {
+                    const match = ChatLogger.FILE_PATTERN.exec(file);
+                    // Dates are zero-padded, so string comparison orders them
+                    if (match && match[1] < cutoff) {
+                        await fs.promises.unlink(path.join(dir, file));
+                        this.fileSizes.delete(path.join(dir, file));
+                        deleted++;
+                    }
+                }
+                if (files.length > 0 && (await fs.promises.readdir(dir)).length === 0) {
+                    await fs.promises.rmdir(dir);
+                }
+            } catch (error) {
+                this.outputChannel.appendLine(`Chat log: failed to prune ${dir}: ${error}`);
+            }
+        }
+
+        if (deleted > 0) {
+            this.outputChannel.appendLine(`Chat log: deleted ${deleted} file(s) older than ${retentionDays} days`);
+        }
+    }
+}
+
+/**
+ * Format a timestamp as a local YYYY-MM-DD date
+ * @param timestamp Milliseconds since the epoch
+ */
+export function formatDate(timestamp: number): string {
+    const date = new Date(timestamp);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Parse one JSONL line
+ * @returns The event, or undefined for empty lines and lines cut off by a crash
+ */
+function parseLine(line: string): ChatEvent | undefined {
+    if (!line) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(line) as ChatEvent;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Check a message against a search query
+ * Matches the webview's search bar: text and username are case-insensitive substrings,
+ * 'moderator' also matches the broadcaster and 'subscriber' also matches founders
+ * @param message The chat message
+ * @param query The search criteria
+ */
+export function matchesSearchQuery(message: TwitchMessage, query: SearchQuery): boolean {
+    if (message.messageType === 'system') {
+        return false;
+    }
+
+    if (query.text && !message.message.toLowerCase().includes(query.text.toLowerCase())) {
+        return false;
+    }
+
+    if (query.username) {
+        const username = query.username.toLowerCase().replace(/^@/, '');
+        if (!message.username.toLowerCase().includes(username) && !message.displayName.toLowerCase().includes(username)) {
+            return false;
+        }
+    }
+
+    if (query.badge) {
+        const aliases: { [badge: string]: string[] } = {
+            moderator: ['moderator', 'broadcaster'],
+            subscriber: ['subscriber', 'founder']
+        };
+        const accepted = Object.prototype.hasOwnProperty.call(aliases, query.badge) ? aliases[query.badge] : [query.badge];
+        if (!message.badges.some(badge => accepted.includes(badge))) {
+            return false;
+        }
+    }
+
+    if (query.messageType && (message.messageType || 'chat') !== query.messageType) {
+        return false;
+    }
+
+    return true;
+}
@@ -9,23 +9,157 @@ export const config = {
         // cspell:disable-next-line
         clientId: 'hijf2gf2x1p7qtugiqow7vx0pyonkr',
         redirectUri: 'http://localhost:3000',
+        // Requested on sign-in
         scopes: [
             'chat:read',
             'chat:edit',
-            'user:read:email',
+            'user:read:email'
+        ],
+
+        // Requested the first time moderation tools are used
+        moderatorScopes: [
             'channel:moderate',
             'moderator:manage:banned_users',
             'moderator:manage:chat_messages',
             'moderator:manage:shield_mode',
-            'moderator:manage:chat_settings'
-        ]
+            'moderator:manage:chat_settings',
+            'moderator:read:followers',
+            'moderator:read:blocked_terms',
+            'moderator:read:unban_requests',
+            'moderator:read:moderators',
+            'moderator:read:vips'
+        ],
+
+        /**
+         * Twitch OAuth endpoints (authorize, validate)
+         */
+        authBaseUrl: 'https://id.twitch.tv/oauth2',
+
+        /**
+         * Twitch requires tokens to be validated on startup and then hourly
+         * @see https://dev.twitch.tv/docs/authentication/validate-tokens/
+         */
+        validateIntervalMs: 60 * 60 * 1000,
+
+        /**
+         * Warn this long before the access token expires
+         */
+        expiryWarningMs: 10 * 60 * 1000,
+
+        /**
+         * Refresh the access token this long before it expires (device code sign-in)
+         */
+        refreshMarginMs: 5 * 60 * 1000,
+
+        /**
+         * Helix API base URL
+         * Can be overridden via the `twitchChat.helixBaseUrl` setting to test against a stub server
+         */
+        helixBaseUrl: 'https://api.twitch.tv/helix',
+
+        /**
+         * EventSub WebSocket endpoints
+         * Can be overridden via the `twitchChat.eventSub.*` settings to test against a mock server
+         */
+        eventSub: {
+            websocketUrl: 'wss://eventsub.wss.twitch.tv/ws',
+            // Relative to the Helix base URL
+            subscriptionsPath: '/eventsub/subscriptions'
+        }
+    },
+
+    /**
+     * Image URLs for common badges, shown when the Helix badge lists can't be loaded
+     */
+    badgeUrls: {
+        broadcaster: 'https://static-cdn.jtvnw.net/badges/v1/5527c58c-fb7d-422d-b71b-f309dcb85cc1/1',
+        moderator: 'https://static-cdn.jtvnw.net/badges/v1/3267646d-33f0-4b17-b3df-f923a41db1d0/1',
+        vip: 'https://static-cdn.jtvnw.net/badges/v1/b817aba4-fad8-49e2-b88a-7cc744dfa6ec/1',
+        subscriber: 'https://static-cdn.jtvnw.net/badges/v1/5d9f2208-5dd8-11e7-8513-2ff4adfae661/1',
+        premium: 'https://static-cdn.jtvnw.net/badges/v1/bbbe0db0-a598-423e-86d0-f9fb98ca1933/1',
+        turbo: 'https://static-cdn.jtvnw.net/badges/v1/bd444ec6-8f34-4bf9-91f4-af1e3428d80f/1'
+    } as { [badge: string]: string },
+
+    /**
+     * Chat view (webview) updates
+     */
+    webview: {
+        // Chat events are collected this long and posted as one batch (about a frame)
+        batchIntervalMs: 16
+    },
+
+    /**
+     * Messages kept per channel in the chat view (see `twitchChat.scrollbackSize`)
+     */
+    scrollback: {
+        defaultSize: 5000,
+        minSize: 200
+    },
+
+    /**
+     * Local chat overlay server (OBS browser source)
+     */
+    overlay: {
+        defaultPort: 8787,
+        // Messages replayed to an overlay when it connects
+        historySize: 50
+    },
+
+    /**
+     * Third-party emote lists (FFZ, BTTV, 7TV)
+     */
+    emotes: {
+        // Cached lists younger than this are used without asking the provider
+        cacheTtlMs: 6 * 60 * 60 * 1000,
+        // Per request; an unreachable provider falls back to its cached list
+        requestTimeoutMs: 5000,
+        // Live 7TV emote set updates; can be overridden via `twitchChat.emotes.7tvEventApiUrl`
+        sevenTVEventApiUrl: 'wss://events.7tv.io/v3'
+    },
+
+    /**
+     * Global and channel chat badges from Helix
+     */
+    badges: {
+        // Cached badge lists younger than this are used without asking Helix
+        cacheTtlMs: 24 * 60 * 60 * 1000
+    },
+
+    /**
+     * Highlighted messages (mentions and `twitchChat.highlights` keywords)
+     */
+    highlights: {
+        // At most one notification per this interval, so a raid of mentions doesn't stack popups
+        notificationCooldownMs: 10 * 1000,
+        // How long the status bar flash stays
+        statusBarFlashMs: 5000
+    },
+
+    /**
+     * Chat log files (see `twitchChat.log.*` settings)
+     */
+    log: {
+        // Events are buffered this long before being appended
+        flushDelayMs: 1000,
+        // How often expired logs are deleted
+        pruneIntervalMs: 24 * 60 * 60 * 1000,
+        // Most history search results returned to the webview
+        searchResultLimit: 200,
+        // Messages shown before and after a history search result
+        contextSize: 25
     },
 
     /**
      * Extension storage keys
      */
     storage: {
-        authSessionKey: 'twitch_auth_session'
-    }
+        authSessionKey: 'twitch_auth_session',
+        recentChannelsKey: 'twitch_recent_channels'
+    },
+
+    /**
+     * Maximum number of channels remembered in the "recent channels" list
+     */
+    maxRecentChannels: 10
 };
 
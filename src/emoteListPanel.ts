@@ -0,0 +1,211 @@
+import * as vscode from 'vscode';
+import { EmoteService, LoadedEmote } from './emoteService';
+import { escapeHtml } from './messageRenderer';
+import { getNonce } from './twitchChatViewProvider';
+
+/**
+ * Show the FFZ/BTTV/7TV emotes loaded for a joined channel in an editor tab
+ * Emotes hidden by a name collision are listed too, with the emote that's used instead
+ * @param emoteService The emote service that loaded them
+ * @param channels The joined channels to choose from
+ */
+export async function showLoadedEmotes(emoteService: EmoteService, channels: string[]): Promise<void> {
+    if (channels.length === 0) {
+        vscode.window.showInformationMessage('Join a channel to see its emotes.');
+        return;
+    }
+
+    const channel = channels.length === 1
+        ? channels[0]
+        : await vscode.window.showQuickPick(channels, { placeHolder: 'Show the emotes loaded for which channel?' });
+    if (!channel) {
+        return;
+    }
+
+    const emotes = emoteService.getLoadedEmotes(channel);
+    if (!emotes) {
+        vscode.window.showInformationMessage(`Emotes for #${channel} are still loading.`);
+        return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+        'twitchChatEmotes',
+        `Emotes: #${channel}`,
+        vscode.ViewColumn.Active,
+        { enableScripts: true }
+    );
+    panel.webview.html = getEmoteListHtml(panel.webview, channel, emotes);
+}
+
+/**
+ * Build the emote list page
+ * @param webview The panel's webview (for the CSP)
+ * @param channel The channel name
+ * @param emotes The loaded emotes in precedence order
+ */
+function getEmoteListHtml(webview: vscode.Webview, channel: string, emotes: LoadedEmote[]): string {
+    const nonce = getNonce();
+
+    // For each name with a collision, the emote that's actually used
+    const winners = new Map<string, LoadedEmote>();
+    for (const emote of emotes) {
+        if (emote.active) {
+            winners.set(emote.name, emote);
+        }
+    }
+
+    const rows = emotes
+        .slice()
+        .sort((a, b) => a.name.localeCompare(b.name) || Number(b.active) - Number(a.active))
+        .map(emote => {
+            const collides = emotes.some(other => other !== emote && other.name === emote.name);
+            const winner = winners.get(emote.name)!;
+            const status = emote.active
+                ? (collides ? 'Used (collision)' : 'Used')
+                : `Hidden by ${formatSource(winner)}`;
+            return {
+                name: emote.name,
+                url: emote.url,
+                source: formatSource(emote),
+                status: status,
+                collides: collides,
+                active: emote.active
+            };
+        });
+
+    const summary = (['7tv', 'bttv', 'ffz'] as const)
+        .map(provider => `${provider.toUpperCase()}: ${emotes.filter(emote => emote.active && emote.provider === provider).length}`)
+        .join(' · ');
+    const collisions = new Set(emotes.filter(emote => !emote.active).map(emote => emote.name)).size;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src https: data:; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <title>Emotes</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            padding: 0 16px 16px;
+        }
+
+        #toolbar {
+            position: sticky;
+            top: 0;
+            display: flex;
+            gap: 12px;
+            align-items: center;
+            padding: 10px 0;
+            background-color: var(--vscode-editor-background);
+        }
+
+        #filter {
+            flex: 1;
+            max-width: 300px;
+            padding: 4px 6px;
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border, transparent);
+        }
+
+        .summary {
+            color: var(--vscode-descriptionForeground);
+        }
+
+        table {
+            border-collapse: collapse;
+            width: 100%;
+        }
+
+        th, td {
+            text-align: left;
+            padding: 4px 8px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+
+        td img {
+            height: 28px;
+            vertical-align: middle;
+        }
+
+        tr.collides td {
+            background-color: var(--vscode-inputValidation-warningBackground);
+        }
+
+        tr.hidden td {
+            opacity: 0.6;
+        }
+    </style>
+</head>
+<body>
+    <h2>Emotes loaded for #${escapeHtml(channel)}</h2>
+    <div class="summary">${escapeHtml(summary)} · ${collisions} name collision${collisions === 1 ? '' : 's'}</div>
+    <div id="toolbar">
+        <input type="text" id="filter" placeholder="Filter by name" />
+        <label><input type="checkbox" id="collisions-only" /> Only collisions</label>
+        <span id="count" class="summary"></span>
+    </div>
+    <table>
+        <thead>
+            <tr><th></th><th>Name</th><th>Provider</th><th>Status</th></tr>
+        </thead>
+        <tbody id="rows"></tbody>
+    </table>
+    <script nonce="${nonce}">
+        const emotes = ${JSON.stringify(rows).replace(/</g, '\\u003c')};
+        const filter = document.getElementById('filter');
+        const collisionsOnly = document.getElementById('collisions-only');
+        const tbody = document.getElementById('rows');
+        const count = document.getElementById('count');
+
+        function cell(row, text) {
+            const td = document.createElement('td');
+            td.textContent = text;
+            row.appendChild(td);
+        }
+
+        function render() {
+            const text = filter.value.trim().toLowerCase();
+            const shown = emotes.filter(emote =>
+                (!text || emote.name.toLowerCase().includes(text)) && (!collisionsOnly.checked || emote.collides));
+
+            tbody.innerHTML = '';
+            shown.forEach(emote => {
+                const row = document.createElement('tr');
+                row.classList.toggle('collides', emote.collides);
+                row.classList.toggle('hidden', !emote.active);
+
+                const preview = document.createElement('td');
+                const img = document.createElement('img');
+                img.src = emote.url;
+                img.alt = emote.name;
+                img.loading = 'lazy';
+                preview.appendChild(img);
+                row.appendChild(preview);
+
+                cell(row, emote.name);
+                cell(row, emote.source);
+                cell(row, emote.status);
+                tbody.appendChild(row);
+            });
+            count.textContent = shown.length + ' of ' + emotes.length;
+        }
+
+        filter.addEventListener('input', render);
+        collisionsOnly.addEventListener('change', render);
+        render();
+    </script>
+</body>
+</html>`;
+}
+
+/**
+ * e.g. "7TV (channel)" or "BTTV (global)"
+ */
+function formatSource(emote: LoadedEmote): string {
+    return `${emote.provider.toUpperCase()} (${emote.global ? 'global' : 'channel'})`;
+}
@@ -1,89 +1,411 @@
 import * as vscode from 'vscode';
 import * as https from 'https';
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from './config';
+import { EmoteProvider } from './protocol';
+import { SevenTVEmoteSetUpdate, SevenTVEventClient } from './sevenTVEventClient';
+
+export type ThirdPartyProvider = Exclude<EmoteProvider, 'twitch'>;
 
 export interface ThirdPartyEmote {
     name: string;
     url: string;
 }
 
-export class EmoteService {
+/**
+ * An emote as loaded for a channel, for the "Show Loaded Emotes" view
+ */
+export interface LoadedEmote extends ThirdPartyEmote {
+    provider: ThirdPartyProvider;
+    /** From the provider's global set rather than the channel's */
+    global: boolean;
+    /** False when an emote with the same name from a higher-precedence source is used instead */
+    active: boolean;
+}
+
+/**
+ * Emotes added, removed or renamed in a channel's 7TV emote set while joined,
+ * or a channel's emote lists refetched in the background (with no `changes` to announce)
+ */
+export interface EmoteSetChange {
+    channel: string;
+    /** Display name of the user who made the change */
+    actor: string | undefined;
+    changes: { action: 'added' | 'removed' | 'renamed'; name: string; oldName?: string }[];
+}
+
+/**
+ * The `twitchChat.emotes.*` settings
+ */
+interface EmoteSettings {
+    providers: { [provider in ThirdPartyProvider]: boolean };
+    /** First provider wins on name collisions */
+    precedence: ThirdPartyProvider[];
+    includeGlobal: boolean;
+}
+
+/**
+ * One emote list from one provider, e.g. the global BTTV emotes or a channel's 7TV set
+ */
+interface EmoteSource {
+    /** Cache file name */
+    key: string;
+    label: string;
+    provider: ThirdPartyProvider;
+    global: boolean;
+    url: string;
+    /** Channels without emotes on the provider answer 404 */
+    notFoundIsEmpty: boolean;
+    parse(data: any): Map<string, string>;
+    /** ID of the emote set to watch for live updates (7TV) */
+    parseSetId?(data: any): string | undefined;
+}
+
+/**
+ * An emote list as loaded for a channel
+ */
+interface EmoteList {
+    source: EmoteSource;
+    emotes: Map<string, string>;
+    setId?: string;
+}
+
+/**
+ * Cache file contents
+ */
+interface CachedEmotes {
+    fetchedAt: number;
+    emotes: [string, string][];
+    setId?: string;
+}
+
+export class EmoteService implements vscode.Disposable {
+    private static readonly PROVIDERS: ThirdPartyProvider[] = ['7tv', 'bttv', 'ffz'];
+
     private outputChannel: vscode.OutputChannel;
-    private ffzEmotes: Map<string, string> = new Map();
-    private bttvEmotes: Map<string, string> = new Map();
-    private sevenTVEmotes: Map<string, string> = new Map();
+    private readonly cacheDir: string | undefined;
+    // The lists loaded for each channel, kept to list them and resolve collisions
+    private channelLists: Map<string, EmoteList[]> = new Map();
+    // Cache key -> stale lists handed out while the source is refetched
+    private refreshing: Map<string, EmoteList[]> = new Map();
+    private readonly sevenTVEvents: SevenTVEventClient;
+    private readonly changeEmitter = new vscode.EventEmitter<EmoteSetChange>();
 
-    constructor(outputChannel: vscode.OutputChannel) {
+    /**
+     * Fires when a joined channel's 7TV emotes change live, or its stale cached lists were refetched
+     * Read the new emotes with `getActiveEmotes`
+     */
+    readonly onDidChangeEmotes = this.changeEmitter.event;
+
+    /**
+     * @param outputChannel Output channel for logging
+     * @param storageUri Where to cache emote lists (the extension's global storage); no caching if omitted
+     */
+    constructor(outputChannel: vscode.OutputChannel, storageUri?: vscode.Uri) {
         this.outputChannel = outputChannel;
+        this.cacheDir = storageUri ? path.join(storageUri.fsPath, 'emotes') : undefined;
+        this.sevenTVEvents = new SevenTVEventClient(
+            () => vscode.workspace.getConfiguration('twitchChat.emotes').get<string>('7tvEventApiUrl') || config.emotes.sevenTVEventApiUrl,
+            (update) => this.applySevenTVUpdate(update),
+            outputChannel
+        );
     }
 
     /**
      * Fetch all emotes from FFZ, BTTV, and 7TV
+     * Providers and global sets turned off in the `twitchChat.emotes.*` settings are skipped.
+     * All lists are requested in parallel. Cached lists are used right away; the ones older than
+     * `config.emotes.cacheTtlMs` are refetched in the background and the new emotes announced
+     * through `onDidChangeEmotes`, so a provider that can't be reached keeps its cached list.
+     * The channel's 7TV emote set is then watched for live changes (see `onDidChangeEmotes`).
      * @param channelName The Twitch channel name (lowercase)
      * @param channelUserId Optional Twitch user ID for the channel
-     * @returns Combined map of all emotes
+     * @returns Map of emote name -> URL; on name collisions the provider that comes first in
+     * `twitchChat.emotes.precedence` wins, and any channel emote wins over a global one
      */
     async fetchAllEmotes(channelName: string, channelUserId?: string): Promise<Map<string, string>> {
-        const allEmotes = new Map<string, string>();
+        const settings = this.getSettings();
+        const sources = [this.ffzGlobalSource(), this.ffzChannelSource(channelName)];
+        // BTTV and 7TV both require the user ID
+        if (channelUserId) {
+            sources.push(this.bttvGlobalSource(), this.bttvChannelSource(channelUserId));
+            sources.push(this.sevenTVGlobalSource(), this.sevenTVChannelSource(channelUserId));
+        }
 
-        try {
-            // Fetch FFZ emotes
-            const ffzEmotes = await this.fetchFFZEmotes(channelName);
-            ffzEmotes.forEach((url, name) => allEmotes.set(name, url));
+        const enabled = sources.filter(source => settings.providers[source.provider] && (settings.includeGlobal || !source.global));
+        const lists = await Promise.all(enabled.map(source => this.loadSource(source)));
+        this.channelLists.set(channelName, lists);
 
-            // Fetch BTTV and 7TV emotes (both require user ID)
-            if (channelUserId) {
-                const bttvEmotes = await this.fetchBTTVEmotes(channelUserId);
-                bttvEmotes.forEach((url, name) => allEmotes.set(name, url));
+        const setId = lists.find(list => list.setId)?.setId;
+        if (setId) {
+            this.sevenTVEvents.subscribe(channelName, setId);
+        } else {
+            this.sevenTVEvents.unsubscribe(channelName);
+        }
 
-                const sevenTVEmotes = await this.fetch7TVEmotes(channelUserId);
-                sevenTVEmotes.forEach((url, name) => allEmotes.set(name, url));
-            }
+        const loaded = this.getLoadedEmotes(channelName) || [];
+        const counts = EmoteService.PROVIDERS.map(provider => `${provider.toUpperCase()}=${loaded.filter(emote => emote.active && emote.provider === provider).length}`);
+        const hidden = loaded.filter(emote => !emote.active).length;
+        this.outputChannel.appendLine(`Total emotes for ${channelName}: ${counts.join(', ')}${hidden > 0 ? ` (${hidden} hidden by name collisions)` : ''}`);
 
-            this.outputChannel.appendLine(`Total emotes: FFZ=${ffzEmotes.size}, BTTV=${channelUserId ? this.bttvEmotes.size : 0}, 7TV=${channelUserId ? this.sevenTVEmotes.size : 0}`);
-        } catch (error) {
-            this.outputChannel.appendLine(`Error fetching all emotes: ${error}`);
+        return this.getActiveEmotes(channelName);
+    }
+
+    /**
+     * Get the emotes shown in a channel, after resolving name collisions
+     * @param channelName The Twitch channel name (lowercase)
+     * @returns Map of emote name -> URL (empty if the channel's emotes haven't been loaded)
+     */
+    getActiveEmotes(channelName: string): Map<string, string> {
+        const loaded = this.getLoadedEmotes(channelName) || [];
+        return new Map(loaded.filter(emote => emote.active).map(emote => [emote.name, emote.url]));
+    }
+
+    /**
+     * Get every emote loaded for a channel, including the ones hidden by name collisions
+     * @param channelName The Twitch channel name (lowercase)
+     * @returns The emotes in precedence order, or undefined if the channel's emotes haven't been loaded
+     */
+    getLoadedEmotes(channelName: string): LoadedEmote[] | undefined {
+        const lists = this.channelLists.get(channelName);
+        if (!lists) {
+            return undefined;
         }
 
-        return allEmotes;
+        const precedence = this.getSettings().precedence;
+        // Every channel set comes before every global set
+        const rank = (source: EmoteSource) => (source.global ? precedence.length : 0) + precedence.indexOf(source.provider);
+        const ordered = lists.slice().sort((a, b) => rank(a.source) - rank(b.source));
+
+        const seen = new Set<string>();
+        const loaded: LoadedEmote[] = [];
+        for (const { source, emotes } of ordered) {
+            emotes.forEach((url, name) => {
+                loaded.push({ name, url, provider: source.provider, global: source.global, active: !seen.has(name) });
+                seen.add(name);
+            });
+        }
+        return loaded;
     }
 
     /**
-     * Fetch FFZ emotes for a channel
+     * Drop a channel's emotes after leaving it
      * @param channelName The Twitch channel name (lowercase)
-     * @returns Map of emote name -> URL
      */
-    async fetchFFZEmotes(channelName: string): Promise<Map<string, string>> {
-        this.outputChannel.appendLine(`Fetching FFZ emotes for channel: ${channelName}`);
-        const emotes = new Map<string, string>();
+    forgetChannel(channelName: string) {
+        this.channelLists.delete(channelName);
+        this.sevenTVEvents.unsubscribe(channelName);
+    }
+
+    dispose() {
+        this.sevenTVEvents.dispose();
+        this.changeEmitter.dispose();
+    }
+
+    /**
+     * Apply a live 7TV emote set update to every channel using that set
+     * The cached list is updated too, so the change survives a reload
+     * @param update The changes from the 7TV EventAPI
+     */
+    private applySevenTVUpdate(update: SevenTVEmoteSetUpdate) {
+        for (const [channelName, lists] of this.channelLists) {
+            const list = lists.find(candidate => candidate.setId === update.setId);
+            if (!list) {
+                continue;
+            }
+
+            const changes: EmoteSetChange['changes'] = [];
+            for (const emote of update.removed) {
+                if (list.emotes.delete(emote.name)) {
+                    changes.push({ action: 'removed', name: emote.name });
+                }
+            }
+            for (const emote of update.added) {
+                const url = get7TVEmoteUrl(emote);
+                if (url) {
+                    list.emotes.set(emote.name, url);
+                    changes.push({ action: 'added', name: emote.name });
+                }
+            }
+            for (const { oldValue, value } of update.updated) {
+                const url = list.emotes.get(oldValue.name) || get7TVEmoteUrl(value);
+                if (oldValue.name === value.name || !value.name || !url) {
+                    continue;
+                }
+                list.emotes.delete(oldValue.name);
+                list.emotes.set(value.name, url);
+                changes.push({ action: 'renamed', name: value.name, oldName: oldValue.name });
+            }
+
+            if (changes.length > 0) {
+                this.outputChannel.appendLine(`7TV emote set of ${channelName} changed: ${changes.map(change => `${change.action} ${change.name}`).join(', ')}`);
+                this.writeCache(list.source.key, list.emotes, list.setId);
+                this.changeEmitter.fire({ channel: channelName, actor: update.actor, changes: changes });
+            }
+        }
+    }
+
+    private getSettings(): EmoteSettings {
+        const settings = vscode.workspace.getConfiguration('twitchChat.emotes');
+        const configured = settings.get<string[]>('precedence', EmoteService.PROVIDERS);
+        // Unknown entries are ignored and missing providers go last, in the default order
+        const precedence = configured.filter((provider): provider is ThirdPartyProvider => EmoteService.PROVIDERS.includes(provider as ThirdPartyProvider));
+        for (const provider of EmoteService.PROVIDERS) {
+            if (!precedence.includes(provider)) {
+                precedence.push(provider);
+            }
+        }
+
+        return {
+            providers: {
+                ffz: settings.get<boolean>('ffz', true),
+                bttv: settings.get<boolean>('bttv', true),
+                '7tv': settings.get<boolean>('7tv', true)
+            },
+            precedence: precedence,
+            includeGlobal: settings.get<boolean>('includeGlobal', true)
+        };
+    }
+
+    /**
+     * Get one emote list from the cache, or from the provider if it isn't cached
+     * A stale cached list is returned as is and refetched in the background
+     * @param source The emote list
+     * @returns The emotes (empty if neither the provider nor the cache has them)
+     */
+    private async loadSource(source: EmoteSource): Promise<EmoteList> {
+        const cached = await this.readCache(source.key);
+        if (cached) {
+            const list: EmoteList = { source, emotes: new Map(cached.emotes), setId: cached.setId };
+            if (Date.now() - cached.fetchedAt < config.emotes.cacheTtlMs) {
+                this.outputChannel.appendLine(`Loaded ${cached.emotes.length} ${source.label} from cache`);
+            } else {
+                this.outputChannel.appendLine(`Loaded ${cached.emotes.length} ${source.label} from the cache of ${new Date(cached.fetchedAt).toLocaleString()}, refreshing`);
+                this.refreshSource(list);
+            }
+            return list;
+        }
 
         try {
-            // Fetch global FFZ emotes
-            const globalEmotes = await this.fetchFFZGlobalEmotes();
-            globalEmotes.forEach((url, name) => emotes.set(name, url));
-            this.outputChannel.appendLine(`Loaded ${globalEmotes.size} global FFZ emotes`);
-
-            // Fetch channel-specific FFZ emotes
-            const channelEmotes = await this.fetchFFZChannelEmotes(channelName);
-            channelEmotes.forEach((url, name) => emotes.set(name, url));
-            this.outputChannel.appendLine(`Loaded ${channelEmotes.size} channel-specific FFZ emotes`);
-
-            this.ffzEmotes = emotes;
-            this.outputChannel.appendLine(`Total FFZ emotes loaded: ${emotes.size}`);
+            const list = await this.fetchSource(source);
+            this.outputChannel.appendLine(`Loaded ${list.emotes.size} ${source.label}`);
+            await this.writeCache(source.key, list.emotes, list.setId);
+            return list;
         } catch (error) {
-            this.outputChannel.appendLine(`Error fetching FFZ emotes: ${error}`);
+            this.outputChannel.appendLine(`Failed to fetch ${source.label}: ${error}`);
+            return { source, emotes: new Map() };
         }
+    }
 
-        return emotes;
+    /**
+     * Refetch a list whose cache is stale and swap the new emotes in
+     * Every channel showing the list is announced through `onDidChangeEmotes`; if the provider
+     * can't be reached the cached emotes stay
+     * @param stale The cached list just handed out (maybe not stored for its channel yet)
+     */
+    private async refreshSource(stale: EmoteList) {
+        const source = stale.source;
+        const pending = this.refreshing.get(source.key);
+        if (pending) {
+            // Another channel is already refetching the same list (e.g. the global sets)
+            pending.push(stale);
+            return;
+        }
+        this.refreshing.set(source.key, [stale]);
+
+        let fresh: EmoteList | undefined;
+        try {
+            fresh = await this.fetchSource(source);
+            this.outputChannel.appendLine(`Refreshed ${fresh.emotes.size} ${source.label}`);
+            await this.writeCache(source.key, fresh.emotes, fresh.setId);
+        } catch (error) {
+            this.outputChannel.appendLine(`Failed to refresh ${source.label} (${error}), keeping the cached list`);
+        }
+
+        const lists = this.refreshing.get(source.key) || [];
+        this.refreshing.delete(source.key);
+        if (!fresh) {
+            return;
+        }
+
+        for (const channelLists of this.channelLists.values()) {
+            const list = channelLists.find(candidate => candidate.source.key === source.key);
+            if (list && !lists.includes(list)) {
+                lists.push(list);
+            }
+        }
+
+        for (const list of lists) {
+            // Each list gets its own copy, since live 7TV updates edit them per channel
+            list.emotes = new Map(fresh.emotes);
+            list.setId = fresh.setId;
+        }
+
+        for (const [channelName, channelLists] of this.channelLists) {
+            const list = channelLists.find(candidate => lists.includes(candidate));
+            if (!list) {
+                continue;
+            }
+            if (list.setId) {
+                // The channel may have switched its active 7TV set
+                this.sevenTVEvents.subscribe(channelName, list.setId);
+            } else if (list.source.parseSetId) {
+                this.sevenTVEvents.unsubscribe(channelName);
+            }
+            this.changeEmitter.fire({ channel: channelName, actor: undefined, changes: [] });
+        }
+    }
+
+    private async fetchSource(source: EmoteSource): Promise<EmoteList> {
+        try {
+            const data = await this.httpsGet(source.url);
+            return { source, emotes: source.parse(data), setId: source.parseSetId?.(data) };
+        } catch (error) {
+            // Channel might not have emotes on this provider, that's okay
+            if (source.notFoundIsEmpty && error instanceof Error && error.message.includes('HTTP 404')) {
+                this.outputChannel.appendLine(`No ${source.label}`);
+                return { source, emotes: new Map() };
+            }
+            throw error;
+        }
+    }
+
+    private async readCache(key: string): Promise<CachedEmotes | undefined> {
+        if (!this.cacheDir) {
+            return undefined;
+        }
+        try {
+            const cached = JSON.parse(await fs.promises.readFile(path.join(this.cacheDir, `${key}.json`), 'utf8')) as CachedEmotes;
+            return typeof cached.fetchedAt === 'number' && Array.isArray(cached.emotes) ? cached : undefined;
+        } catch {
+            // Not cached yet (or unreadable)
+            return undefined;
+        }
+    }
+
+    private async writeCache(key: string, emotes: Map<string, string>, setId?: string) {
+        if (!this.cacheDir) {
+            return;
+        }
+        const cached: CachedEmotes = { fetchedAt: Date.now(), emotes: Array.from(emotes), setId: setId };
+        try {
+            await fs.promises.mkdir(this.cacheDir, { recursive: true });
+            await fs.promises.writeFile(path.join(this.cacheDir, `${key}.json`), JSON.stringify(cached), 'utf8');
+        } catch (error) {
+            this.outputChannel.appendLine(`Failed to cache ${key} emotes: ${error}`);
+        }
     }
 
     /**
      * Make an HTTPS GET request and return parsed JSON
+     * Gives up after `config.emotes.requestTimeoutMs`
      * @param url The URL to fetch
      * @returns Parsed JSON response
      */
     private async httpsGet(url: string): Promise<any> {
         return new Promise((resolve, reject) => {
-            https.get(url, (res) => {
+            const request = https.get(url, (res) => {
                 let data = '';
 
                 // Check for non-200 status codes
@@ -104,78 +426,74 @@ export class EmoteService {
                         reject(new Error(`Failed to parse JSON: ${error}`));
                     }
                 });
-            }).on('error', (error) => {
+            });
+
+            request.setTimeout(config.emotes.requestTimeoutMs, () => {
+                request.destroy(new Error(`Timed out after ${config.emotes.requestTimeoutMs} ms`));
+            });
+
+            request.on('error', (error) => {
                 reject(error);
             });
         });
     }
 
     /**
-     * Fetch global FFZ emotes available in all channels
-     * @returns Map of emote name -> URL
+     * Global FFZ emotes available in all channels
      */
-    private async fetchFFZGlobalEmotes(): Promise<Map<string, string>> {
-        const emotes = new Map<string, string>();
-
-        try {
-            const data = await this.httpsGet('https://api.frankerfacez.com/v1/set/global');
-
-            // Parse FFZ global emote sets
-            if (data.default_sets && data.sets) {
-                for (const setId of data.default_sets) {
-                    const set = data.sets[setId];
-                    if (set && set.emoticons) {
-                        for (const emote of set.emoticons) {
-                            const url = this.getFFZEmoteUrl(emote);
-                            if (url) {
-                                emotes.set(emote.name, url);
-                            }
-                        }
+    private ffzGlobalSource(): EmoteSource {
+        return {
+            key: 'ffz-global',
+            label: 'global FFZ emotes',
+            provider: 'ffz',
+            global: true,
+            url: 'https://api.frankerfacez.com/v1/set/global',
+            notFoundIsEmpty: false,
+            parse: (data) => {
+                const emotes = new Map<string, string>();
+                if (data.default_sets && data.sets) {
+                    for (const setId of data.default_sets) {
+                        this.addFFZSet(data.sets[setId], emotes);
                     }
                 }
+                return emotes;
             }
-        } catch (error) {
-            this.outputChannel.appendLine(`Failed to fetch FFZ global emotes: ${error}`);
-        }
-
-        return emotes;
+        };
     }
 
     /**
-     * Fetch channel-specific FFZ emotes
+     * Channel-specific FFZ emotes
      * @param channelName The Twitch channel name
-     * @returns Map of emote name -> URL
      */
-    private async fetchFFZChannelEmotes(channelName: string): Promise<Map<string, string>> {
-        const emotes = new Map<string, string>();
-
-        try {
-            const data = await this.httpsGet(`https://api.frankerfacez.com/v1/room/${channelName}`);
-
-            // Parse FFZ channel emote sets
-            if (data.sets) {
-                for (const setId in data.sets) {
-                    const set = data.sets[setId];
-                    if (set && set.emoticons) {
-                        for (const emote of set.emoticons) {
-                            const url = this.getFFZEmoteUrl(emote);
-                            if (url) {
-                                emotes.set(emote.name, url);
-                            }
-                        }
+    private ffzChannelSource(channelName: string): EmoteSource {
+        return {
+            key: `ffz-channel-${cacheKey(channelName)}`,
+            label: `FFZ emotes for ${channelName}`,
+            provider: 'ffz',
+            global: false,
+            url: `https://api.frankerfacez.com/v1/room/${encodeURIComponent(channelName)}`,
+            notFoundIsEmpty: true,
+            parse: (data) => {
+                const emotes = new Map<string, string>();
+                if (data.sets) {
+                    for (const setId in data.sets) {
+                        this.addFFZSet(data.sets[setId], emotes);
                     }
                 }
+                return emotes;
             }
-        } catch (error) {
-            // Channel might not have FFZ emotes, that's okay
-            if (error instanceof Error && error.message.includes('HTTP 404')) {
-                this.outputChannel.appendLine(`No FFZ emotes configured for channel: ${channelName}`);
-            } else {
-                this.outputChannel.appendLine(`Failed to fetch FFZ channel emotes: ${error}`);
+        };
+    }
+
+    private addFFZSet(set: any, emotes: Map<string, string>) {
+        if (set && set.emoticons) {
+            for (const emote of set.emoticons) {
+                const url = this.getFFZEmoteUrl(emote);
+                if (url) {
+                    emotes.set(emote.name, url);
+                }
             }
         }
-
-        return emotes;
     }
 
     /**
@@ -200,107 +518,115 @@ export class EmoteService {
         return null;
     }
 
+    private bttvGlobalSource(): EmoteSource {
+        return {
+            key: 'bttv-global',
+            label: 'global BTTV emotes',
+            provider: 'bttv',
+            global: true,
+            url: 'https://api.betterttv.net/3/cached/emotes/global',
+            notFoundIsEmpty: false,
+            parse: (data) => {
+                const emotes = new Map<string, string>();
+                addBTTVEmotes(data, emotes);
+                return emotes;
+            }
+        };
+    }
+
     /**
-     * Fetch BTTV emotes for a channel
+     * Channel and shared BTTV emotes
      * @param channelUserId The Twitch user ID for the channel
-     * @returns Map of emote name -> URL
      */
-    private async fetchBTTVEmotes(channelUserId: string): Promise<Map<string, string>> {
-        const emotes = new Map<string, string>();
-
-        try {
-            // Fetch global BTTV emotes
-            const globalData = await this.httpsGet('https://api.betterttv.net/3/cached/emotes/global');
-            if (Array.isArray(globalData)) {
-                for (const emote of globalData) {
-                    if (emote.id && emote.code) {
-                        emotes.set(emote.code, `https://cdn.betterttv.net/emote/${emote.id}/1x`);
-                    }
-                }
-            }
-            this.outputChannel.appendLine(`Loaded ${emotes.size} global BTTV emotes`);
-
-            // Fetch channel-specific BTTV emotes (using user ID)
-            try {
-                const channelData = await this.httpsGet(`https://api.betterttv.net/3/cached/users/twitch/${channelUserId}`);
-                if (channelData.channelEmotes && Array.isArray(channelData.channelEmotes)) {
-                    for (const emote of channelData.channelEmotes) {
-                        if (emote.id && emote.code) {
-                            emotes.set(emote.code, `https://cdn.betterttv.net/emote/${emote.id}/1x`);
-                        }
-                    }
-                }
-                if (channelData.sharedEmotes && Array.isArray(channelData.sharedEmotes)) {
-                    for (const emote of channelData.sharedEmotes) {
-                        if (emote.id && emote.code) {
-                            emotes.set(emote.code, `https://cdn.betterttv.net/emote/${emote.id}/1x`);
-                        }
-                    }
-                }
-                this.outputChannel.appendLine(`Loaded ${emotes.size} total BTTV emotes (including channel)`);
-            } catch (error) {
-                if (error instanceof Error && error.message.includes('HTTP 404')) {
-                    this.outputChannel.appendLine(`No BTTV emotes configured for user ID: ${channelUserId}`);
-                } else {
-                    this.outputChannel.appendLine(`Failed to fetch BTTV channel emotes: ${error}`);
-                }
+    private bttvChannelSource(channelUserId: string): EmoteSource {
+        return {
+            key: `bttv-channel-${cacheKey(channelUserId)}`,
+            label: `BTTV emotes for user ID ${channelUserId}`,
+            provider: 'bttv',
+            global: false,
+            url: `https://api.betterttv.net/3/cached/users/twitch/${encodeURIComponent(channelUserId)}`,
+            notFoundIsEmpty: true,
+            parse: (data) => {
+                const emotes = new Map<string, string>();
+                addBTTVEmotes(data.channelEmotes, emotes);
+                addBTTVEmotes(data.sharedEmotes, emotes);
+                return emotes;
             }
+        };
+    }
 
-            this.bttvEmotes = emotes;
-        } catch (error) {
-            this.outputChannel.appendLine(`Error fetching BTTV emotes: ${error}`);
-        }
-
-        return emotes;
+    private sevenTVGlobalSource(): EmoteSource {
+        return {
+            key: '7tv-global',
+            label: 'global 7TV emotes',
+            provider: '7tv',
+            global: true,
+            url: 'https://7tv.io/v3/emote-sets/global',
+            notFoundIsEmpty: false,
+            parse: (data) => {
+                const emotes = new Map<string, string>();
+                add7TVEmotes(data.emotes, emotes);
+                return emotes;
+            }
+        };
     }
 
     /**
-     * Fetch 7TV emotes for a channel
+     * The channel's active 7TV emote set
      * @param channelUserId The Twitch user ID for the channel
-     * @returns Map of emote name -> URL
      */
-    private async fetch7TVEmotes(channelUserId: string): Promise<Map<string, string>> {
-        const emotes = new Map<string, string>();
+    private sevenTVChannelSource(channelUserId: string): EmoteSource {
+        return {
+            key: `7tv-channel-${cacheKey(channelUserId)}`,
+            label: `7TV emotes for user ID ${channelUserId}`,
+            provider: '7tv',
+            global: false,
+            url: `https://7tv.io/v3/users/twitch/${encodeURIComponent(channelUserId)}`,
+            notFoundIsEmpty: true,
+            parse: (data) => {
+                const emotes = new Map<string, string>();
+                add7TVEmotes(data.emote_set && data.emote_set.emotes, emotes);
+                return emotes;
+            },
+            parseSetId: (data) => data.emote_set?.id
+        };
+    }
+}
 
-        try {
-            // Fetch global 7TV emotes
-            const globalData = await this.httpsGet('https://7tv.io/v3/emote-sets/global');
-            if (globalData.emotes && Array.isArray(globalData.emotes)) {
-                for (const emote of globalData.emotes) {
-                    if (emote.id && emote.name && emote.data && emote.data.host) {
-                        const url = `https:${emote.data.host.url}/1x.webp`;
-                        emotes.set(emote.name, url);
-                    }
-                }
-            }
-            this.outputChannel.appendLine(`Loaded ${emotes.size} global 7TV emotes`);
-
-            // Fetch channel-specific 7TV emotes
-            try {
-                const channelData = await this.httpsGet(`https://7tv.io/v3/users/twitch/${channelUserId}`);
-                if (channelData.emote_set && channelData.emote_set.emotes && Array.isArray(channelData.emote_set.emotes)) {
-                    for (const emote of channelData.emote_set.emotes) {
-                        if (emote.id && emote.name && emote.data && emote.data.host) {
-                            const url = `https:${emote.data.host.url}/1x.webp`;
-                            emotes.set(emote.name, url);
-                        }
-                    }
-                }
-                this.outputChannel.appendLine(`Loaded ${emotes.size} total 7TV emotes (including channel)`);
-            } catch (error) {
-                if (error instanceof Error && error.message.includes('HTTP 404')) {
-                    this.outputChannel.appendLine(`No 7TV emotes configured for user ID: ${channelUserId}`);
-                } else {
-                    this.outputChannel.appendLine(`Failed to fetch 7TV channel emotes: ${error}`);
-                }
+function addBTTVEmotes(list: any, emotes: Map<string, string>) {
+    if (Array.isArray(list)) {
+        for (const emote of list) {
+            if (emote.id && emote.code) {
+                emotes.set(emote.code, `https://cdn.betterttv.net/emote/${emote.id}/1x`);
             }
+        }
+    }
+}
 
-            this.sevenTVEmotes = emotes;
-        } catch (error) {
-            this.outputChannel.appendLine(`Error fetching 7TV emotes: ${error}`);
+function add7TVEmotes(list: any, emotes: Map<string, string>) {
+    if (Array.isArray(list)) {
+        for (const emote of list) {
+            const url = get7TVEmoteUrl(emote);
+            if (url) {
+                emotes.set(emote.name, url);
+            }
         }
+    }
+}
 
-        return emotes;
+/**
+ * Get the 1x image URL of a 7TV emote (from the REST API or the EventAPI)
+ */
+function get7TVEmoteUrl(emote: any): string | undefined {
+    if (emote && emote.id && emote.name && emote.data && emote.data.host) {
+        return `https:${emote.data.host.url}/1x.webp`;
     }
+    return undefined;
 }
 
+/**
+ * Make a channel name or user ID safe to use in a file name
+ */
+function cacheKey(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9_]/g, '_');
+}
@@ -0,0 +1,448 @@
+import * as vscode from 'vscode';
+import WebSocket from 'ws';
+import { HelixClient } from './helixClient';
+
+/**
+ * EventSub subscription request (type, version and condition)
+ * @see https://dev.twitch.tv/docs/eventsub/eventsub-subscription-types/
+ */
+export interface EventSubSubscription {
+    type: string;
+    version: string;
+    condition: { [key: string]: string };
+}
+
+/**
+ * Notification event delivered over the EventSub WebSocket
+ */
+export interface EventSubNotification {
+    subscriptionType: string;
+    event: any;
+}
+
+/**
+ * Endpoints used by the EventSub client
+ * Both can point at a local mock server (e.g. `twitch event websocket start-server`)
+ */
+export interface EventSubEndpoints {
+    websocketUrl: string;
+    /** Full URL, or a path relative to the Helix base URL */
+    subscriptionsUrl: string;
+}
+
+/**
+ * EventSub WebSocket session manager
+ * Handles the welcome message, keepalives, server-initiated reconnects and subscriptions
+ * @see https://dev.twitch.tv/docs/eventsub/handling-websocket-events/
+ */
+export class EventSubClient {
+    private static readonly MAX_RECONNECT_DELAY = 60000;
+    private static readonly MAX_SEEN_MESSAGE_IDS = 200;
+
+    private socket: WebSocket | null = null;
+    private pendingSocket: WebSocket | null = null;
+    private sessionId: string | undefined;
+    private keepaliveSeconds: number = 10;
+    private keepaliveTimer: NodeJS.Timeout | undefined;
+    private reconnectTimer: NodeJS.Timeout | undefined;
+    private reconnectAttempts: number = 0;
+    private desiredSubscriptions: Map<string, EventSubSubscription[]> = new Map();
+    private createdSubscriptions: Map<string, string[]> = new Map();
+    private seenMessageIds: Set<string> = new Set();
+    // Tail of the subscription changes queued per key, so they never interleave
+    private keyQueues: Map<string, Promise<void>> = new Map();
+    private disposed: boolean = false;
+
+    constructor(
+        private token: string,
+        private readonly onNotification: (notification: EventSubNotification) => void,
+        private readonly outputChannel: vscode.OutputChannel,
+        private readonly endpoints: EventSubEndpoints,
+        private readonly helix: HelixClient
+    ) { }
+
+    /**
+     * Set the subscriptions for a key (e.g. a channel name)
+     * Replaces any subscriptions previously created for the same key
+     * Opens the WebSocket on first use, since Twitch closes sessions without subscriptions
+     * Runs after any earlier subscribe/unsubscribe for the same key has finished
+     * @param key Identifier used to group subscriptions
+     * @param subscriptions The subscriptions to create
+     */
+    subscribe(key: string, subscriptions: EventSubSubscription[]): Promise<void> {
+        return this.enqueue(key, async () => {
+            if (this.disposed) {
+                return;
+            }
+
+            await this.deleteSubscriptions(key);
+            this.desiredSubscriptions.set(key, subscriptions);
+
+            if (!this.socket) {
+                this.connect(this.endpoints.websocketUrl);
+            } else if (this.sessionId) {
+                await this.createSubscriptions(key);
+            }
+            // Otherwise subscriptions are created once the welcome message arrives
+        });
+    }
+
+    /**
+     * Remove all subscriptions for a key
+     * Closes the WebSocket when nothing is subscribed anymore
+     * Runs after any earlier subscribe/unsubscribe for the same key has finished
+     * @param key Identifier used when subscribing
+     */
+    unsubscribe(key: string): Promise<void> {
+        return this.enqueue(key, async () => {
+            this.desiredSubscriptions.delete(key);
+            await this.deleteSubscriptions(key);
+
+            if (this.desiredSubscriptions.size === 0) {
+                this.closeSockets();
+            }
+        });
+    }
+
+    /**
+     * Use a refreshed token for future subscription requests
+     * Existing subscriptions stay active
+     * @param token The new OAuth token
+     */
+    setToken(token: string) {
+        this.token = token;
+    }
+
+    /**
+     * Close the session and stop reconnecting
+     */
+    dispose() {
+        this.disposed = true;
+        this.desiredSubscriptions.clear();
+        this.createdSubscriptions.clear();
+        this.closeSockets();
+    }
+
+    /**
+     * Open a WebSocket to the EventSub server
+     * @param url The WebSocket URL (initial URL or a reconnect_url)
+     * @returns The opened socket
+     */
+    private connect(url: string): WebSocket {
+        this.outputChannel.appendLine(`EventSub: connecting to ${url}`);
+        const socket = new WebSocket(url);
+
+        if (!this.socket) {
+            this.socket = socket;
+        }
+
+        socket.on('message', (data) => this.handleMessage(socket, data.toString()));
+        socket.on('close', (code, reason) => this.handleClose(socket, code, reason.toString()));
+        socket.on('error', (error) => {
+            this.outputChannel.appendLine(`EventSub: socket error: ${error}`);
+        });
+
+        return socket;
+    }
+
+    /**
+     * Handle a message from the EventSub WebSocket
+     * @param socket The socket the message arrived on
+     * @param raw Raw JSON message
+     */
+    private handleMessage(socket: WebSocket, raw: string) {
+        if (socket !== this.socket && socket !== this.pendingSocket) {
+            // Replaced by a reconnect; its notifications and keepalives no longer count
+            return;
+        }
+
+        let message: any;
+        try {
+            message = JSON.parse(raw);
+        } catch (error) {
+            this.outputChannel.appendLine(`EventSub: could not parse message: ${error}`);
+            return;
+        }
+
+        const metadata = message.metadata || {};
+        const payload = message.payload || {};
+
+        // Any message counts as a keepalive
+        this.resetKeepalive();
+
+        switch (metadata.message_type) {
+            case 'session_welcome': {
+                const isReconnect = socket === this.pendingSocket;
+                if (isReconnect) {
+                    // Reconnect welcome: swap sockets, subscriptions carry over to the new session
+                    const oldSocket = this.socket;
+                    this.socket = socket;
+                    this.pendingSocket = null;
+                    oldSocket?.close();
+                }
+
+                this.sessionId = payload.session?.id;
+                this.keepaliveSeconds = payload.session?.keepalive_timeout_seconds || this.keepaliveSeconds;
+                this.reconnectAttempts = 0;
+                this.resetKeepalive();
+                this.outputChannel.appendLine(`EventSub: session ${this.sessionId} ${isReconnect ? 'resumed' : 'started'} (keepalive ${this.keepaliveSeconds}s)`);
+
+                if (!isReconnect) {
+                    this.createAllSubscriptions();
+                }
+                break;
+            }
+
+            case 'session_keepalive':
+                break;
+
+            case 'notification': {
+                // Twitch may redeliver messages, ignore duplicates
+                if (metadata.message_id) {
+                    if (this.seenMessageIds.has(metadata.message_id)) {
+                        return;
+                    }
+                    this.rememberMessageId(metadata.message_id);
+                }
+
+                this.onNotification({
+                    subscriptionType: metadata.subscription_type || payload.subscription?.type,
+                    event: payload.event
+                });
+                break;
+            }
+
+            case 'session_reconnect': {
+                const reconnectUrl = payload.session?.reconnect_url;
+                this.outputChannel.appendLine('EventSub: server requested reconnect');
+                if (reconnectUrl && !this.pendingSocket) {
+                    this.pendingSocket = this.connect(reconnectUrl);
+                }
+                break;
+            }
+
+            case 'revocation': {
+                const subscription = payload.subscription || {};
+                this.outputChannel.appendLine(`EventSub: subscription ${subscription.type} revoked (${subscription.status})`);
+                this.forgetSubscriptionId(subscription.id);
+                break;
+            }
+
+            default:
+                this.outputChannel.appendLine(`EventSub: unhandled message type ${metadata.message_type}`);
+        }
+    }
+
+    /**
+     * Handle a WebSocket closing
+     * @param socket The socket that closed
+     * @param code Close code (4000-4007 are EventSub-specific)
+     * @param reason Close reason
+     */
+    private handleClose(socket: WebSocket, code: number, reason: string) {
+        if (socket === this.pendingSocket) {
+            this.outputChannel.appendLine(`EventSub: reconnect socket closed (${code} ${reason})`);
+            this.pendingSocket = null;
+            return;
+        }
+
+        if (socket !== this.socket) {
+            // Old socket closed after a reconnect swap
+            return;
+        }
+
+        this.outputChannel.appendLine(`EventSub: connection closed (${code} ${reason})`);
+        this.socket = null;
+        this.sessionId = undefined;
+        this.clearKeepalive();
+
+        // Subscriptions are tied to the session and die with it
+        this.createdSubscriptions.clear();
+
+        if (!this.disposed && this.desiredSubscriptions.size > 0) {
+            this.scheduleReconnect();
+        }
+    }
+
+    /**
+     * Reconnect with exponential backoff
+     */
+    private scheduleReconnect() {
+        if (this.reconnectTimer) {
+            return;
+        }
+
+        const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), EventSubClient.MAX_RECONNECT_DELAY);
+        this.reconnectAttempts++;
+        this.outputChannel.appendLine(`EventSub: reconnecting in ${delay / 1000}s`);
+
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = undefined;
+            if (!this.disposed && !this.socket && this.desiredSubscriptions.size > 0) {
+                this.connect(this.endpoints.websocketUrl);
+            }
+        }, delay);
+    }
+
+    /**
+     * Restart the keepalive timer
+     * If nothing arrives within the keepalive window the connection is considered dead
+     */
+    private resetKeepalive() {
+        this.clearKeepalive();
+
+        if (!this.sessionId) {
+            return;
+        }
+
+        // Allow some slack on top of the advertised keepalive
+        this.keepaliveTimer = setTimeout(() => {
+            this.outputChannel.appendLine('EventSub: keepalive timed out, reconnecting');
+            this.socket?.terminate();
+        }, (this.keepaliveSeconds + 5) * 1000);
+    }
+
+    private clearKeepalive() {
+        if (this.keepaliveTimer) {
+            clearTimeout(this.keepaliveTimer);
+            this.keepaliveTimer = undefined;
+        }
+    }
+
+    /**
+     * Close all sockets and timers
+     */
+    private closeSockets() {
+        this.clearKeepalive();
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = undefined;
+        }
+
+        const socket = this.socket;
+        const pendingSocket = this.pendingSocket;
+        this.socket = null;
+        this.pendingSocket = null;
+        this.sessionId = undefined;
+        this.createdSubscriptions.clear();
+
+        socket?.close();
+        pendingSocket?.close();
+    }
+
+    private rememberMessageId(messageId: string) {
+        this.seenMessageIds.add(messageId);
+        if (this.seenMessageIds.size > EventSubClient.MAX_SEEN_MESSAGE_IDS) {
+            const oldest = this.seenMessageIds.values().next().value;
+            if (oldest !== undefined) {
+                this.seenMessageIds.delete(oldest);
+            }
+        }
+    }
+
+    private forgetSubscriptionId(id: string | undefined) {
+        if (!id) {
+            return;
+        }
+        for (const [key, ids] of this.createdSubscriptions) {
+            this.createdSubscriptions.set(key, ids.filter(existing => existing !== id));
+        }
+    }
+
+    /**
+     * Run a subscription change for a key once the previous one for that key has settled
+     * Without this, two overlapping subscribe calls would both delete the old subscriptions
+     * and both create new ones, leaking the set whose IDs get overwritten
+     * @param key Identifier used when subscribing
+     * @param task The change to run
+     * @returns The task's result
+     */
+    private enqueue(key: string, task: () => Promise<void>): Promise<void> {
+        const previous = this.keyQueues.get(key) || Promise.resolve();
+        const result = previous.then(task);
+        // The queue itself never rejects, so one failure doesn't block later changes
+        const tail = result.catch(() => undefined).then(() => {
+            if (this.keyQueues.get(key) === tail) {
+                this.keyQueues.delete(key);
+            }
+        });
+        this.keyQueues.set(key, tail);
+        return result;
+    }
+
+    /**
+     * Create the subscriptions for every key on a fresh session
+     */
+    private createAllSubscriptions() {
+        for (const key of this.desiredSubscriptions.keys()) {
+            this.enqueue(key, () => this.createSubscriptions(key)).catch(error => {
+                this.outputChannel.appendLine(`EventSub: failed to create subscriptions (${key}): ${error}`);
+            });
+        }
+    }
+
+    /**
+     * Create the subscriptions for a key on the current session
+     * @param key Identifier used when subscribing
+     */
+    private async createSubscriptions(key: string) {
+        const subscriptions = this.desiredSubscriptions.get(key) || [];
+        const sessionId = this.sessionId;
+        const ids: string[] = [];
+
+        for (const subscription of subscriptions) {
+            if (!sessionId || sessionId !== this.sessionId) {
+                return;
+            }
+
+            try {
+                const response = await this.helix.request(this.endpoints.subscriptionsUrl, {
+                    method: 'POST',
+                    body: {
+                        type: subscription.type,
+                        version: subscription.version,
+                        condition: subscription.condition,
+                        transport: {
+                            method: 'websocket',
+                            session_id: sessionId
+                        }
+                    },
+                    token: this.token
+                });
+
+                const id = response.data?.data?.[0]?.id;
+                if (id) {
+                    ids.push(id);
+                }
+                this.outputChannel.appendLine(`EventSub: subscribed to ${subscription.type} (${key})`);
+            } catch (error) {
+                this.outputChannel.appendLine(`EventSub: failed to subscribe to ${subscription.type} (${key}): ${error}`);
+            }
+        }
+
+        if (this.desiredSubscriptions.has(key)) {
+            this.createdSubscriptions.set(key, ids);
+        }
+    }
+
+    /**
+     * Delete the subscriptions created for a key
+     * @param key Identifier used when subscribing
+     */
+    private async deleteSubscriptions(key: string) {
+        const ids = this.createdSubscriptions.get(key) || [];
+        this.createdSubscriptions.delete(key);
+
+        for (const id of ids) {
+            try {
+                await this.helix.request(this.endpoints.subscriptionsUrl, {
+                    method: 'DELETE',
+                    query: { id: id },
+                    token: this.token
+                });
+            } catch (error) {
+                this.outputChannel.appendLine(`EventSub: failed to delete subscription ${id}: ${error}`);
+            }
+        }
+    }
+}
@@ -1,24 +1,61 @@
 import * as vscode from 'vscode';
 import { TwitchChatViewProvider } from './twitchChatViewProvider';
 import { TwitchAuthProvider } from './authProvider';
+import { HelixClient } from './helixClient';
+import { TwitchChatApi, createApi } from './api';
+import { OverlayServer } from './overlayServer';
+import { ChatLogger } from './chatLogger';
+import { exportSession } from './chatExporter';
+import { BadgeService } from './badgeService';
+import { EmoteService } from './emoteService';
+import { showLoadedEmotes } from './emoteListPanel';
 
 let outputChannel: vscode.OutputChannel;
 let provider: TwitchChatViewProvider | undefined;
 let authProvider: TwitchAuthProvider | undefined;
+let chatLogger: ChatLogger | undefined;
 
 /**
  * Activates the Twitch Chat Viewer extension
  * @param context The extension context provided by VS Code
+ * @returns The API for other extensions (see api.ts)
  */
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): TwitchChatApi {
+    const activatedAt = Date.now();
+
     // Create output channel for debugging
     outputChannel = vscode.window.createOutputChannel('Twitch Chat');
     outputChannel.appendLine('Twitch Chat Viewer extension activated');
 
+    // Shared Helix API client (rate limiting, retries, invalid token detection)
+    const helixClient = new HelixClient(outputChannel);
+    context.subscriptions.push(helixClient);
+
     // Create auth provider
-    authProvider = new TwitchAuthProvider(context, outputChannel);
+    authProvider = new TwitchAuthProvider(context, outputChannel, helixClient);
+    context.subscriptions.push(authProvider);
+
+    // Expose the auth provider to VS Code (Accounts menu, other extensions)
+    context.subscriptions.push(
+        vscode.authentication.registerAuthenticationProvider(
+            TwitchAuthProvider.ID,
+            TwitchAuthProvider.LABEL,
+            authProvider,
+            { supportsMultipleAccounts: false }
+        )
+    );
 
-    provider = new TwitchChatViewProvider(context.extensionUri, outputChannel, authProvider);
+    // Persist chat events to disk for later review and history search
+    const logger = new ChatLogger(context.globalStorageUri, outputChannel);
+    chatLogger = logger;
+    context.subscriptions.push(logger);
+
+    // Caches FFZ/BTTV/7TV emote lists so chat renders emotes right away, even when a provider is down
+    const emoteService = new EmoteService(outputChannel, context.globalStorageUri);
+    context.subscriptions.push(emoteService);
+    const badgeService = new BadgeService(helixClient, outputChannel, context.globalStorageUri);
+
+    provider = new TwitchChatViewProvider(context.extensionUri, outputChannel, authProvider, context.globalState, helixClient, logger, emoteService, badgeService);
 
     context.subscriptions.push(
         vscode.window.registerWebviewViewProvider(
@@ -32,6 +69,17 @@ export function activate(context: vscode.ExtensionContext) {
         )
     );
 
+    // Local chat overlay for OBS browser sources (opt-in)
+    const overlayServer = new OverlayServer(outputChannel);
+    context.subscriptions.push(
+        overlayServer,
+        provider.onDidReceiveEvent((event) => overlayServer.handleEvent(event))
+    );
+    overlayServer.applyConfiguration();
+
+    context.subscriptions.push(provider.onDidReceiveEvent((event) => logger.log(event)));
+    logger.start();
+
     // Register command to focus Twitch Chat view
     context.subscriptions.push(
         vscode.commands.registerCommand('twitchChat.focus', () => {
@@ -40,28 +88,110 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    // Register command to switch to (or join) another channel
+    context.subscriptions.push(
+        vscode.commands.registerCommand('twitchChat.switchChannel', () => {
+            outputChannel.appendLine('Switch channel command triggered');
+            provider?.switchChannel();
+        })
+    );
+
+    // Register sign in/out commands (also used by the re-auth prompts)
+    context.subscriptions.push(
+        vscode.commands.registerCommand('twitchChat.signIn', () => provider?.signIn()),
+        vscode.commands.registerCommand('twitchChat.signOut', () => provider?.signOut())
+    );
+
+    // Register command to open the chat log folder
+    context.subscriptions.push(
+        vscode.commands.registerCommand('twitchChat.openLogFolder', async () => {
+            await logger.flush();
+            const folder = vscode.Uri.file(logger.getLogDirectory());
+            await vscode.workspace.fs.createDirectory(folder);
+            vscode.commands.executeCommand('revealFileInOS', folder);
+        })
+    );
+
+    // Register command to export logged chat to Markdown, HTML or CSV
+    context.subscriptions.push(
+        vscode.commands.registerCommand('twitchChat.exportSession', async () => {
+            try {
+                await exportSession(logger, activatedAt);
+            } catch (error) {
+                outputChannel.appendLine(`Error exporting chat: ${error}`);
+                vscode.window.showErrorMessage(`Failed to export chat: ${error}`);
+            }
+        })
+    );
+
+    // Register command to copy the overlay URL for OBS
+    context.subscriptions.push(
+        vscode.commands.registerCommand('twitchChat.copyOverlayUrl', async () => {
+            const url = overlayServer.getUrl();
+            if (!url) {
+                const choice = await vscode.window.showInformationMessage(
+                    'The chat overlay server is not running. Enable it with the "twitchChat.overlay.enabled" setting.',
+                    'Open Settings'
+                );
+                if (choice === 'Open Settings') {
+                    vscode.commands.executeCommand('workbench.action.openSettings', 'twitchChat.overlay');
+                }
+                return;
+            }
+
+            await vscode.env.clipboard.writeText(url);
+            vscode.window.showInformationMessage(`Copied ${url} - add it to OBS as a Browser source.`);
+        })
+    );
+
+    // Register command to list the third-party emotes loaded for a channel
+    context.subscriptions.push(
+        vscode.commands.registerCommand('twitchChat.showLoadedEmotes', () => {
+            return showLoadedEmotes(emoteService, provider?.getChannels() || []);
+        })
+    );
+
     // Listen for configuration changes
     context.subscriptions.push(
         vscode.workspace.onDidChangeConfiguration(e => {
-            if (e.affectsConfiguration('twitchChat.channel')) {
+            if (e.affectsConfiguration('twitchChat.channel') || e.affectsConfiguration('twitchChat.channels')) {
                 outputChannel.appendLine('Configuration changed, updating channel...');
                 provider?.updateChannel();
             }
+            if (e.affectsConfiguration('twitchChat.overlay')) {
+                overlayServer.applyConfiguration();
+            }
+            if (e.affectsConfiguration('twitchChat.emotes')) {
+                outputChannel.appendLine('Emote settings changed, reloading emotes...');
+                provider?.reloadEmotes();
+            }
+            if (e.affectsConfiguration('twitchChat.highlights')) {
+                provider?.updateHighlights();
+            }
+            if (e.affectsConfiguration('twitchChat.scrollbackSize') || e.affectsConfiguration('twitchChat.slowChatRate')) {
+                provider?.updateViewSettings();
+            }
         })
     );
 
     context.subscriptions.push(outputChannel);
 
+    // Validate the stored token now and hourly
+    authProvider.startValidation();
+
     // Focus the Twitch Chat panel on activation
     outputChannel.appendLine('Auto-focusing Twitch Chat panel...');
     vscode.commands.executeCommand('twitchChatView.focus');
+
+    return createApi(provider);
 }
 
 /**
  * Deactivates the extension
  * Disconnects from Twitch and cleans up resources
+ * @returns Promise that resolves once buffered chat log lines are on disk
  */
-export function deactivate() {
+export function deactivate(): Promise<void> | undefined {
     if (provider) {
         provider.dispose();
         provider = undefined;
@@ -69,4 +199,9 @@ export function deactivate() {
     if (outputChannel) {
         outputChannel.appendLine('Twitch Chat Viewer extension deactivated');
     }
+
+    // VS Code waits for the returned promise, but not for disposables
+    const logger = chatLogger;
+    chatLogger = undefined;
+    return logger?.dispose();
 }
@@ -0,0 +1,308 @@
+import * as vscode from 'vscode';
+import * as http from 'http';
+import * as https from 'https';
+import { config } from './config';
+
+/**
+ * Raised when Twitch rejects the OAuth token (HTTP 401)
+ * The user has to sign in again before authenticated calls can succeed
+ */
+export class TokenInvalidError extends Error {
+    constructor(message: string = 'Twitch token is invalid or has expired') {
+        super(message);
+        this.name = 'TokenInvalidError';
+    }
+}
+
+/**
+ * Raised for any other non-2xx Helix response
+ */
+export class HelixError extends Error {
+    constructor(public readonly status: number, public readonly body: string) {
+        super(`HTTP ${status}: ${body}`);
+        this.name = 'HelixError';
+    }
+}
+
+/**
+ * Query string values; arrays are sent as repeated parameters (e.g. `id=1&id=2`)
+ */
+export type HelixQuery = { [key: string]: string | number | boolean | string[] | undefined };
+
+export interface HelixRequestOptions {
+    method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+    query?: HelixQuery;
+    body?: unknown;
+    /** User access token (with or without 'oauth:' prefix) */
+    token?: string;
+}
+
+export interface HelixResponse<T = any> {
+    status: number;
+    data: T;
+}
+
+/**
+ * Shared client for the Twitch Helix API
+ * Queues requests according to the `Ratelimit-*` headers, retries transient failures
+ * and reports rejected tokens through `onDidInvalidateToken`
+ * @see https://dev.twitch.tv/docs/api/guide/#twitch-rate-limits
+ */
+export class HelixClient implements vscode.Disposable {
+    private static readonly CLIENT_ID = config.twitch.clientId;
+    private static readonly MAX_RETRIES = 3;
+    private static readonly RETRY_BASE_DELAY = 1000;
+    private static readonly DEFAULT_MAX_PAGES = 10;
+    // A request with no network activity for this long is aborted (and retried)
+    private static readonly REQUEST_TIMEOUT = 15000;
+    // Only these are retried after a network error or 5xx, when the request may already have been applied
+    private static readonly IDEMPOTENT_METHODS = ['GET', 'PUT'];
+    // Network errors that may have hit a request Twitch already received
+    private static readonly RETRYABLE_ERRORS = ['ECONNRESET', 'ETIMEDOUT', 'EPIPE'];
+    // Network errors raised before the request was sent, retried for every method
+    private static readonly CONNECT_ERRORS = ['ECONNREFUSED', 'EAI_AGAIN'];
+
+    private readonly tokenInvalidEmitter = new vscode.EventEmitter<void>();
+    /** Fires when a request made with a user token gets HTTP 401 */
+    readonly onDidInvalidateToken = this.tokenInvalidEmitter.event;
+
+    private rateLimitRemaining: number | undefined;
+    private rateLimitReset: number = 0;
+    private queue: Promise<void> = Promise.resolve();
+
+    constructor(private readonly outputChannel: vscode.OutputChannel) { }
+
+    /**
+     * Make a Helix request
+     * @param path Path relative to the Helix base URL (e.g. '/users'), or a full URL
+     * @param options Method, query, JSON body and token
+     * @returns HTTP status and parsed JSON body (undefined for empty responses)
+     * @throws TokenInvalidError on HTTP 401 with a token, HelixError on other failures,
+     * the network error if the request still fails after the retries
+     */
+    async request<T = any>(path: string, options: HelixRequestOptions = {}): Promise<HelixResponse<T>> {
+        const method = options.method || 'GET';
+        const url = this.buildUrl(path, options.query);
+        const idempotent = HelixClient.IDEMPOTENT_METHODS.includes(method);
+
+        for (let attempt = 0; ; attempt++) {
+            await this.acquireSlot();
+
+            let response: { status: number; headers: http.IncomingHttpHeaders; body: string };
+            try {
+                response = await this.send(method, url, options.body, options.token);
+            } catch (error) {
+                const code = (error as NodeJS.ErrnoException).code;
+                const retryable = code !== undefined && (HelixClient.CONNECT_ERRORS.includes(code)
+                    || (idempotent && HelixClient.RETRYABLE_ERRORS.includes(code)));
+                if (!retryable || attempt >= HelixClient.MAX_RETRIES) {
+                    throw error;
+                }
+                const delay = HelixClient.RETRY_BASE_DELAY * Math.pow(2, attempt);
+                this.outputChannel.appendLine(`Helix ${method} ${url.pathname}: ${code}, retrying in ${delay / 1000}s`);
+                await this.sleep(delay);
+                continue;
+            }
+            this.updateRateLimit(response.headers);
+
+            if (response.status >= 200 && response.status < 300) {
+                let data: any;
+                try {
+                    data = response.body ? JSON.parse(response.body) : undefined;
+                } catch {
+                    data = undefined;
+                }
+                return { status: response.status, data: data };
+            }
+
+            // A 401 for a missing scope doesn't mean the token itself is bad
+            if (response.status === 401 && options.token && !/missing scope/i.test(response.body)) {
+                this.outputChannel.appendLine(`Helix ${method} ${url.pathname}: token rejected (HTTP 401)`);
+                this.tokenInvalidEmitter.fire();
+                throw new TokenInvalidError();
+            }
+
+            // Rate limited requests were never processed, so any method can be retried
+            const retryable = response.status === 429 || (idempotent && response.status >= 500);
+            if (!retryable || attempt >= HelixClient.MAX_RETRIES) {
+                throw new HelixError(response.status, this.describeError(response.body));
+            }
+
+            if (response.status === 429) {
+                // Wait for the bucket to refill; acquireSlot() holds the queue until reset
+                this.rateLimitRemaining = 0;
+                this.outputChannel.appendLine(`Helix ${method} ${url.pathname}: rate limited, retrying after reset`);
+            } else {
+                const delay = HelixClient.RETRY_BASE_DELAY * Math.pow(2, attempt);
+                this.outputChannel.appendLine(`Helix ${method} ${url.pathname}: HTTP ${response.status}, retrying in ${delay / 1000}s`);
+                await this.sleep(delay);
+            }
+        }
+    }
+
+    /**
+     * GET a Helix endpoint and return its `data` array
+     * @param path Path relative to the Helix base URL
+     * @param query Query parameters
+     * @param token Optional user access token
+     */
+    async get<T = any>(path: string, query?: HelixQuery, token?: string): Promise<T[]> {
+        const response = await this.request<{ data?: T[] }>(path, { query, token });
+        return response.data?.data || [];
+    }
+
+    /**
+     * GET every page of a paginated Helix endpoint
+     * @param path Path relative to the Helix base URL
+     * @param query Query parameters (`first` defaults to 100)
+     * @param token Optional user access token
+     * @param maxPages Stop after this many pages
+     * @returns The `data` items of all pages
+     */
+    async paginate<T = any>(path: string, query: HelixQuery = {}, token?: string, maxPages: number = HelixClient.DEFAULT_MAX_PAGES): Promise<T[]> {
+        const items: T[] = [];
+        let cursor: string | undefined;
+
+        for (let page = 0; page < maxPages; page++) {
+            const response = await this.request<{ data?: T[]; pagination?: { cursor?: string } }>(path, {
+                query: { first: 100, ...query, after: cursor },
+                token
+            });
+
+            items.push(...(response.data?.data || []));
+            cursor = response.data?.pagination?.cursor;
+            if (!cursor) {
+                break;
+            }
+        }
+
+        return items;
+    }
+
+    dispose() {
+        this.tokenInvalidEmitter.dispose();
+    }
+
+    /**
+     * Read the Helix base URL, honoring the `twitchChat.helixBaseUrl` override (for stub servers)
+     */
+    private getBaseUrl(): string {
+        const override = vscode.workspace.getConfiguration('twitchChat').get<string>('helixBaseUrl');
+        return (override || config.twitch.helixBaseUrl).replace(/\/+$/, '');
+    }
+
+    private buildUrl(path: string, query?: HelixQuery): URL {
+        const url = new URL(/^https?:\/\//.test(path) ? path : `${this.getBaseUrl()}${path}`);
+
+        for (const [key, value] of Object.entries(query || {})) {
+            if (value === undefined) {
+                continue;
+            }
+            for (const item of Array.isArray(value) ? value : [value]) {
+                url.searchParams.append(key, String(item));
+            }
+        }
+
+        return url;
+    }
+
+    /**
+     * Wait for our turn in the request queue
+     * Requests go out in order; when the rate limit bucket is empty the queue pauses until it resets
+     */
+    private acquireSlot(): Promise<void> {
+        const slot = this.queue.then(async () => {
+            if (this.rateLimitRemaining !== undefined && this.rateLimitRemaining <= 0) {
+                const wait = this.rateLimitReset - Date.now();
+                if (wait > 0) {
+                    this.outputChannel.appendLine(`Helix rate limit reached, waiting ${Math.ceil(wait / 1000)}s`);
+                    await this.sleep(wait);
+                }
+                this.rateLimitRemaining = undefined;
+            }
+
+            if (this.rateLimitRemaining !== undefined) {
+                this.rateLimitRemaining--;
+            }
+        });
+
+        this.queue = slot.catch(() => undefined);
+        return slot;
+    }
+
+    /**
+     * Track the rate limit bucket from response headers
+     * @param headers Response headers
+     */
+    private updateRateLimit(headers: http.IncomingHttpHeaders) {
+        const remaining = parseInt(String(headers['ratelimit-remaining']));
+        const reset = parseInt(String(headers['ratelimit-reset']));
+
+        if (!isNaN(remaining)) {
+            this.rateLimitRemaining = remaining;
+        }
+        if (!isNaN(reset)) {
+            // Reset is a Unix timestamp in seconds
+            this.rateLimitReset = reset * 1000;
+        }
+    }
+
+    /**
+     * Send a single HTTP request
+     * Uses http or https depending on the URL, so a local stub server works
+     * Fails with an ETIMEDOUT error if the connection goes quiet for `REQUEST_TIMEOUT`
+     */
+    private send(method: string, url: URL, body: unknown, token?: string): Promise<{ status: number; headers: http.IncomingHttpHeaders; body: string }> {
+        return new Promise((resolve, reject) => {
+            const bodyStr = body !== undefined ? JSON.stringify(body) : undefined;
+            const transport = url.protocol === 'http:' ? http : https;
+
+            const req = transport.request(url, {
+                method: method,
+                headers: {
+                    'Client-Id': HelixClient.CLIENT_ID,
+                    ...(token ? { 'Authorization': `Bearer ${token.replace('oauth:', '')}` } : {}),
+                    ...(bodyStr !== undefined ? {
+                        'Content-Type': 'application/json',
+                        'Content-Length': Buffer.byteLength(bodyStr)
+                    } : {})
+                }
+            }, (res) => {
+                let data = '';
+                res.on('data', (chunk) => { data += chunk; });
+                res.on('end', () => {
+                    resolve({ status: res.statusCode || 0, headers: res.headers, body: data });
+                });
+                res.on('error', (error) => reject(error));
+            });
+
+            req.setTimeout(HelixClient.REQUEST_TIMEOUT, () => {
+                const error: NodeJS.ErrnoException = new Error(`No response within ${HelixClient.REQUEST_TIMEOUT / 1000}s`);
+                error.code = 'ETIMEDOUT';
+                req.destroy(error);
+            });
+            req.on('error', (error) => reject(error));
+
+            if (bodyStr !== undefined) {
+                req.write(bodyStr);
+            }
+            req.end();
+        });
+    }
+
+    /**
+     * Extract the message from a Helix error body ({ error, status, message })
+     */
+    private describeError(body: string): string {
+        try {
+            const json = JSON.parse(body);
+            return json.message || json.error || body;
+        } catch {
+            return body;
+        }
+    }
+
+    private sleep(ms: number): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+}
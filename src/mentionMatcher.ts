@@ -0,0 +1,73 @@
+import * as vscode from 'vscode';
+import { MessageHighlight, TwitchMessage } from './protocol';
+
+/**
+ * Decides which incoming messages are highlighted for the signed-in user
+ * A message is highlighted when it mentions the user's name (with or without @), contains one of
+ * the `twitchChat.highlights.keywords` as a whole word, or matches one of the
+ * `twitchChat.highlights.patterns` regexes (all case-insensitive)
+ */
+export class MentionMatcher {
+    private keywords: RegExp | undefined;
+    private patterns: RegExp[] = [];
+
+    /**
+     * @param outputChannel Output channel for logging
+     */
+    constructor(private readonly outputChannel: vscode.OutputChannel) {
+        this.reload();
+    }
+
+    /**
+     * Re-read the keyword and pattern settings
+     * Invalid patterns are logged and skipped
+     */
+    reload() {
+        const config = vscode.workspace.getConfiguration('twitchChat.highlights');
+
+        const keywords = config.get<string[]>('keywords', [])
+            .map(keyword => keyword.trim())
+            .filter(keyword => keyword !== '');
+        this.keywords = keywords.length > 0 ? wholeWords(keywords) : undefined;
+
+        this.patterns = [];
+        for (const pattern of config.get<string[]>('patterns', [])) {
+            try {
+                this.patterns.push(new RegExp(pattern, 'i'));
+            } catch (error) {
+                this.outputChannel.appendLine(`Ignoring invalid highlight pattern ${JSON.stringify(pattern)}: ${error}`);
+            }
+        }
+    }
+
+    /**
+     * Check whether a message should be highlighted
+     * @param message The incoming message
+     * @param username The signed-in user's name, undefined when anonymous
+     * @returns Why the message is highlighted, or undefined if it isn't
+     */
+    match(message: TwitchMessage, username: string | undefined): MessageHighlight | undefined {
+        // Never highlight system lines or the user's own messages
+        if (message.messageType === 'system' || (username && message.username === username.toLowerCase())) {
+            return undefined;
+        }
+
+        if (username && wholeWords([username]).test(message.message)) {
+            return 'mention';
+        }
+
+        if (this.keywords?.test(message.message) || this.patterns.some(pattern => pattern.test(message.message))) {
+            return 'keyword';
+        }
+
+        return undefined;
+    }
+}
+
+/**
+ * Regex matching any of the words on its own (not as part of a longer word), any case
+ */
+function wholeWords(words: string[]): RegExp {
+    const escaped = words.map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp(`(?<!\\w)(?:${escaped.join('|')})(?!\\w)`, 'i');
+}
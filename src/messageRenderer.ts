@@ -0,0 +1,109 @@
+import { MessageFragment, TwitchMessage } from './protocol';
+import { getFragments } from './messageTokenizer';
+import { getMessageBadges } from './badgeService';
+
+/**
+ * Escape text for use in HTML content and attribute values
+ * @param text The text to escape
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render message fragments (see messageTokenizer.ts)
+ * @param fragments The tokenized message
+ * @returns HTML with text escaped, emotes and cheermotes as <img> tags and links as <a> tags
+ */
+export function renderFragments(fragments: MessageFragment[]): string {
+    return fragments.map(fragment => {
+        const text = escapeHtml(fragment.text);
+        switch (fragment.type) {
+            case 'emote':
+                return `<img class="emote" src="${escapeHtml(fragment.url)}" alt="${text}" title="${text}" />`;
+            case 'cheermote':
+                return `<img class="cheermote" src="${escapeHtml(fragment.url)}" alt="${text}" title="${text}" />` +
+                    `<span class="cheer-amount" style="color: ${safeColor(fragment.color)}">${fragment.bits}</span>`;
+            case 'mention':
+                return `<span class="mention">${text}</span>`;
+            case 'url':
+                return `<a href="${escapeHtml(fragment.url)}" target="_blank" rel="noopener noreferrer">${text}</a>`;
+            default:
+                return text;
+        }
+    }).join('');
+}
+
+/**
+ * Render a whole chat line: badges, colored display name and message with emotes
+ * The markup carries `data-message-id` and `data-username` so deletions can find it
+ * @param message The chat message
+ * @returns The HTML of one `.chat-message` element
+ */
+export function renderMessage(message: TwitchMessage): string {
+    const classes = ['chat-message'];
+    if (message.messageType) {
+        classes.push(message.messageType);
+    }
+
+    const attributes = [
+        `class="${classes.join(' ')}"`,
+        `data-channel="${escapeHtml(message.channel)}"`,
+        `data-username="${escapeHtml(message.username)}"`,
+        message.messageId ? `data-message-id="${escapeHtml(message.messageId)}"` : ''
+    ].filter(attribute => attribute !== '');
+
+    const content = `<span class="message-content">${renderFragments(getFragments(message))}</span>`;
+
+    if (message.messageType === 'system') {
+        return `<div ${attributes.join(' ')}>${content}</div>`;
+    }
+
+    const header: string[] = [];
+
+    const label = getNoticeLabel(message);
+    if (label) {
+        header.push(`<span class="notice-badge">${escapeHtml(label)}</span>`);
+    }
+
+    const badges = getMessageBadges(message)
+        .map(badge => `<img class="badge" src="${escapeHtml(badge.url)}" alt="${escapeHtml(badge.set)}" title="${escapeHtml(badge.title)}" />`);
+    if (badges.length > 0) {
+        header.push(`<span class="badges">${badges.join('')}</span>`);
+    }
+
+    header.push(`<span class="username" style="color: ${safeColor(message.color)}">${escapeHtml(message.displayName)}</span>`);
+
+    const separator = message.message ? '<span class="separator">: </span>' : '';
+    return `<div ${attributes.join(' ')}>${header.join('')}${separator}${content}</div>`;
+}
+
+/**
+ * Label shown in front of sub and bits notifications
+ */
+function getNoticeLabel(message: TwitchMessage): string | undefined {
+    switch (message.messageType) {
+        case 'subscription':
+            return '⭐ NEW SUB';
+        case 'resub':
+            return message.subMonths ? `⭐ RESUB ${message.subMonths} MONTHS` : '⭐ RESUB';
+        case 'subgift':
+            return '🎁 GIFT SUB';
+        case 'bits':
+            return message.bits ? `${message.bits} bits` : undefined;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Only allow hex colors in style attributes
+ */
+function safeColor(color: string): string {
+    return /^#[0-9a-f]{3,8}$/i.test(color) ? color : '#9147ff';
+}
@@ -0,0 +1,180 @@
+import { EmoteProvider, MessageFragment, TwitchMessage } from './protocol';
+
+/**
+ * One tier of a cheermote, e.g. Cheer100 (purple) or Cheer1000 (green)
+ */
+export interface CheermoteTier {
+    minBits: number;
+    url: string;
+    color: string;
+}
+
+export interface TokenizeOptions {
+    /** Cheermote tiers by lowercase prefix; cheers are only recognized in bits messages */
+    cheermotes?: { [prefix: string]: CheermoteTier[] };
+}
+
+type TokenizableMessage = Pick<TwitchMessage, 'message' | 'emotes' | 'thirdPartyEmotes' | 'messageType'>;
+
+/**
+ * Split a chat message into fragments for rendering
+ *
+ * Twitch emotes come from the IRC `emotes` tag, whose positions count Unicode code points,
+ * so an emoji (a surrogate pair in JavaScript strings) before an emote doesn't shift it.
+ * The rest of the text is split on whitespace and each word checked, in order, against the
+ * third-party emotes, cheermotes, links and @mentions.
+ * @param message The chat message
+ * @param options Extra data to recognize (cheermotes)
+ * @returns The fragments; their `text` joined together equals `message.message`
+ */
+export function tokenizeMessage(message: TokenizableMessage, options: TokenizeOptions = {}): MessageFragment[] {
+    const characters = Array.from(message.message);
+    const fragments: MessageFragment[] = [];
+    let index = 0;
+
+    for (const { start, end, emoteId } of getEmotePositions(message.emotes, characters.length)) {
+        if (start < index) {
+            // Overlaps the previous emote
+            continue;
+        }
+        if (start > index) {
+            tokenizeWords(characters.slice(index, start).join(''), message, options, fragments);
+        }
+        fragments.push({
+            type: 'emote',
+            text: characters.slice(start, end + 1).join(''),
+            provider: 'twitch',
+            url: `https://static-cdn.jtvnw.net/emoticons/v2/${encodeURIComponent(emoteId)}/default/dark/1.0`
+        });
+        index = end + 1;
+    }
+
+    if (index < characters.length) {
+        tokenizeWords(characters.slice(index).join(''), message, options, fragments);
+    }
+
+    return fragments;
+}
+
+/**
+ * Get a message's fragments
+ * @returns The fragments stored with the message, or freshly tokenized ones for messages
+ * logged before fragments existed
+ */
+export function getFragments(message: TwitchMessage): MessageFragment[] {
+    return message.fragments || tokenizeMessage(message);
+}
+
+/**
+ * Parse the `emotes` tag ('start-end' positions per emote ID), dropping ranges outside the text
+ */
+function getEmotePositions(emotes: { [emoteId: string]: string[] } = {}, length: number): { start: number; end: number; emoteId: string }[] {
+    const positions: { start: number; end: number; emoteId: string }[] = [];
+    for (const [emoteId, ranges] of Object.entries(emotes)) {
+        for (const range of ranges) {
+            const match = /^(\d+)-(\d+)$/.exec(range);
+            const start = match ? Number(match[1]) : NaN;
+            const end = match ? Number(match[2]) : NaN;
+            if (match && start <= end && end < length) {
+                positions.push({ start, end, emoteId });
+            }
+        }
+    }
+    return positions.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Append the fragments for a run of text between Twitch emotes
+ */
+function tokenizeWords(text: string, message: TokenizableMessage, options: TokenizeOptions, fragments: MessageFragment[]) {
+    for (const word of text.split(/(\s+)/)) {
+        if (word === '') {
+            continue;
+        }
+
+        const emoteUrl = lookup(message.thirdPartyEmotes || {}, word);
+        if (emoteUrl) {
+            fragments.push({ type: 'emote', text: word, provider: getEmoteProvider(emoteUrl), url: emoteUrl });
+            continue;
+        }
+
+        const cheer = message.messageType === 'bits' && options.cheermotes ? matchCheermote(word, options.cheermotes) : undefined;
+        if (cheer) {
+            fragments.push(cheer);
+            continue;
+        }
+
+        // Trailing punctuation stays text: "see https://example.com." or "@name,"
+        const link = /^(https?:\/\/\S+?)([.,!?:;)'"]*)$/i.exec(word);
+        if (link) {
+            fragments.push({ type: 'url', text: link[1], url: link[1] });
+            pushText(fragments, link[2]);
+            continue;
+        }
+
+        const mention = /^@(\w{1,25})(\W*)$/.exec(word);
+        if (mention) {
+            fragments.push({ type: 'mention', text: '@' + mention[1], username: mention[1].toLowerCase() });
+            pushText(fragments, mention[2]);
+            continue;
+        }
+
+        pushText(fragments, word);
+    }
+}
+
+/**
+ * Recognize 'Cheer100'-style words, picking the highest tier the amount reaches
+ */
+function matchCheermote(word: string, cheermotes: { [prefix: string]: CheermoteTier[] }): MessageFragment | undefined {
+    const match = /^([a-z]+)(\d+)$/i.exec(word);
+    if (!match) {
+        return undefined;
+    }
+
+    const tiers = Object.prototype.hasOwnProperty.call(cheermotes, match[1].toLowerCase()) ? cheermotes[match[1].toLowerCase()] : undefined;
+    const bits = parseInt(match[2], 10);
+    const tier = tiers && tiers
+        .filter(candidate => candidate.minBits <= bits)
+        .sort((a, b) => b.minBits - a.minBits)[0];
+    if (!tier || bits <= 0) {
+        return undefined;
+    }
+
+    return { type: 'cheermote', text: word, prefix: match[1], bits, url: tier.url, color: tier.color };
+}
+
+/**
+ * Add text, merging it into the previous fragment if that is text too
+ */
+function pushText(fragments: MessageFragment[], text: string) {
+    if (text === '') {
+        return;
+    }
+    const last = fragments[fragments.length - 1];
+    if (last && last.type === 'text') {
+        last.text += text;
+    } else {
+        fragments.push({ type: 'text', text });
+    }
+}
+
+/**
+ * Tell which service a third-party emote came from by its CDN
+ */
+function getEmoteProvider(url: string): EmoteProvider {
+    if (url.includes('betterttv.net')) {
+        return 'bttv';
+    }
+    if (url.includes('7tv.app')) {
+        return '7tv';
+    }
+    return 'ffz';
+}
+
+/**
+ * Read an own property, so words like 'constructor' don't match Object.prototype
+ */
+function lookup(map: { [key: string]: string }, key: string): string | undefined {
+    return Object.prototype.hasOwnProperty.call(map, key) ? map[key] : undefined;
+}
@@ -0,0 +1,406 @@
+import * as vscode from 'vscode';
+import * as http from 'http';
+import WebSocket, { WebSocketServer } from 'ws';
+import { ChatEvent } from './protocol';
+import { renderMessage } from './messageRenderer';
+import { config } from './config';
+
+export type OverlayTheme = 'dark' | 'light' | 'transparent';
+
+/**
+ * Whether a WebSocket client may connect: clients that send no Origin (OBS plugins, scripts)
+ * and the overlay page itself, under either loopback host name
+ * @param origin The upgrade request's Origin header
+ * @param port The port the server listens on
+ */
+function isAllowedOrigin(origin: string | undefined, port: number): boolean {
+    return !origin || origin === `http://127.0.0.1:${port}` || origin === `http://localhost:${port}`;
+}
+
+/**
+ * Messages pushed to connected overlay pages
+ */
+type OverlayMessage =
+    | { type: 'message'; channel: string; html: string; username: string; messageId?: string }
+    | { type: 'messageDeleted'; channel: string; messageId: string }
+    | { type: 'userCleared'; channel: string; username: string }
+    | { type: 'chatCleared'; channel: string };
+
+/**
+ * Local HTTP + WebSocket server for an OBS browser source
+ * Serves the overlay page on `/` and pushes rendered chat lines, deletions and clears over `/ws`
+ * Only listens on 127.0.0.1
+ */
+export class OverlayServer implements vscode.Disposable {
+    private server: http.Server | null = null;
+    private sockets: WebSocketServer | null = null;
+    private port: number | undefined;
+    private history: OverlayMessage[] = [];
+
+    constructor(private readonly outputChannel: vscode.OutputChannel) { }
+
+    /**
+     * Start, restart or stop the server to match the `twitchChat.overlay.*` settings
+     */
+    async applyConfiguration(): Promise<void> {
+        const settings = vscode.workspace.getConfiguration('twitchChat.overlay');
+        const enabled = settings.get<boolean>('enabled', false);
+        const port = settings.get<number>('port', config.overlay.defaultPort);
+
+        if (!enabled) {
+            await this.stop();
+            return;
+        }
+
+        if (this.server && this.port === port) {
+            // Theme changes are picked up when the overlay page reloads
+            return;
+        }
+
+        await this.stop();
+        await this.start(port);
+    }
+
+    /**
+     * URL to use as the OBS browser source
+     * @returns The overlay URL, or undefined if the server isn't running
+     */
+    getUrl(): string | undefined {
+        return this.server && this.port !== undefined ? `http://127.0.0.1:${this.port}/` : undefined;
+    }
+
+    /**
+     * Mirror a chat event to the connected overlays
+     * Room state and permission changes aren't shown on the overlay, and neither are system lines:
+     * those include moderator-only EventSub data (moderation actions and reasons, unban requests)
+     * that mustn't end up on stream
+     * @param event The chat event
+     */
+    handleEvent(event: ChatEvent) {
+        let message: OverlayMessage;
+
+        switch (event.type) {
+            case 'message':
+                if (event.message.messageType === 'system') {
+                    return;
+                }
+                message = {
+                    type: 'message',
+                    channel: event.channel,
+                    html: renderMessage(event.message),
+                    username: event.message.username,
+                    messageId: event.message.messageId
+                };
+                break;
+            case 'messageDeleted':
+                message = { type: 'messageDeleted', channel: event.channel, messageId: event.messageId };
+                break;
+            case 'userCleared':
+                message = { type: 'userCleared', channel: event.channel, username: event.username };
+                break;
+            case 'chatCleared':
+                message = { type: 'chatCleared', channel: event.channel };
+                break;
+            default:
+                return;
+        }
+
+        this.remember(message);
+        this.broadcast(message);
+    }
+
+    dispose() {
+        this.stop();
+    }
+
+    /**
+     * Start listening on 127.0.0.1
+     * @param port The port to listen on
+     */
+    private start(port: number): Promise<void> {
+        return new Promise((resolve) => {
+            const server = http.createServer((req, res) => this.handleRequest(req, res));
+            const sockets = new WebSocketServer({
+                server: server,
+                path: '/ws',
+                // Any web page open in the browser could otherwise connect to the feed on localhost
+                verifyClient: (info: { origin: string | undefined }) => {
+                    if (isAllowedOrigin(info.origin, port)) {
+                        return true;
+                    }
+                    this.outputChannel.appendLine(`Overlay server: rejected a WebSocket connection from ${info.origin}`);
+                    return false;
+                }
+            });
+
+            sockets.on('connection', (socket) => {
+                // Replay recent chat so a reloaded browser source isn't empty
+                for (const message of this.history) {
+                    socket.send(JSON.stringify(message));
+                }
+            });
+
+            server.once('error', (error: NodeJS.ErrnoException) => {
+                this.outputChannel.appendLine(`Overlay server failed to start on port ${port}: ${error.message}`);
+                vscode.window.showWarningMessage(
+                    error.code === 'EADDRINUSE'
+                        ? `Chat overlay: port ${port} is already in use. Change "twitchChat.overlay.port" and try again.`
+                        : `Chat overlay could not start: ${error.message}`
+                );
+                sockets.close();
+                resolve();
+            });
+
+            server.listen(port, '127.0.0.1', () => {
+                this.server = server;
+                this.sockets = sockets;
+                this.port = port;
+                this.outputChannel.appendLine(`Overlay server listening on http://127.0.0.1:${port}/`);
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Close the server and disconnect all overlays
+     */
+    private stop(): Promise<void> {
+        const server = this.server;
+        const sockets = this.sockets;
+        this.server = null;
+        this.sockets = null;
+        this.port = undefined;
+
+        if (!server) {
+            return Promise.resolve();
+        }
+
+        for (const client of sockets?.clients || []) {
+            client.terminate();
+        }
+        sockets?.close();
+
+        return new Promise((resolve) => {
+            server.close(() => {
+                this.outputChannel.appendLine('Overlay server stopped');
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Serve the overlay page
+     * Query parameters: `channel` shows a single channel, `theme` overrides the configured theme
+     */
+    private handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+        const url = new URL(req.url || '/', 'http://127.0.0.1');
+
+        if (req.method !== 'GET' || url.pathname !== '/') {
+            res.writeHead(404, { 'Content-Type': 'text/plain' });
+            res.end('Not found');
+            return;
+        }
+
+        const settings = vscode.workspace.getConfiguration('twitchChat.overlay');
+        const requestedTheme = url.searchParams.get('theme') || settings.get<string>('theme', 'transparent');
+        const theme: OverlayTheme = requestedTheme === 'dark' || requestedTheme === 'light' ? requestedTheme : 'transparent';
+
+        res.writeHead(200, {
+            'Content-Type': 'text/html; charset=utf-8',
+            'Cache-Control': 'no-store'
+        });
+        res.end(getOverlayHtml(theme, settings.get<string>('customCss', ''), url.searchParams.get('channel') || ''));
+    }
+
+    /**
+     * Keep the replay history in sync, so overlays that connect later don't show removed messages
+     */
+    private remember(message: OverlayMessage) {
+        switch (message.type) {
+            case 'message':
+                this.history.push(message);
+                if (this.history.length > config.overlay.historySize) {
+                    this.history.splice(0, this.history.length - config.overlay.historySize);
+                }
+                break;
+            case 'messageDeleted':
+                this.history = this.history.filter(entry => entry.type !== 'message' || entry.messageId !== message.messageId);
+                break;
+            case 'userCleared':
+                this.history = this.history.filter(entry => entry.type !== 'message' || entry.channel !== message.channel || entry.username !== message.username);
+                break;
+            case 'chatCleared':
+                this.history = this.history.filter(entry => entry.channel !== message.channel);
+                break;
+        }
+    }
+
+    private broadcast(message: OverlayMessage) {
+        if (!this.sockets) {
+            return;
+        }
+
+        const data = JSON.stringify(message);
+        for (const client of this.sockets.clients) {
+            if (client.readyState === WebSocket.OPEN) {
+                client.send(data);
+            }
+        }
+    }
+}
+
+/**
+ * Build the overlay page
+ * @param theme Built-in color theme
+ * @param customCss Extra CSS appended after the theme
+ * @param channel Only show this channel (empty for all joined channels)
+ */
+function getOverlayHtml(theme: OverlayTheme, customCss: string, channel: string): string {
+    const themes: { [key in OverlayTheme]: string } = {
+        dark: '--background: rgba(24, 24, 27, 0.85); --text: #efeff1; --shadow: none;',
+        light: '--background: rgba(255, 255, 255, 0.9); --text: #0e0e10; --shadow: none;',
+        transparent: '--background: transparent; --text: #ffffff; --shadow: 1px 1px 2px #000, 0 0 4px #000;'
+    };
+
+    // Keep user CSS from closing the <style> element
+    const safeCss = customCss.replace(/<\/style/gi, '<\\/style');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Twitch Chat Overlay</title>
+    <style>
+        :root { ${themes[theme]} }
+
+        html, body {
+            margin: 0;
+            padding: 0;
+            height: 100%;
+            overflow: hidden;
+            background: transparent;
+        }
+
+        #chat {
+            position: absolute;
+            bottom: 0;
+            left: 0;
+            right: 0;
+            padding: 8px;
+            font-family: 'Inter', 'Segoe UI', Roboto, sans-serif;
+            font-size: 18px;
+            line-height: 1.5;
+            color: var(--text);
+            text-shadow: var(--shadow);
+        }
+
+        .chat-message {
+            margin-top: 4px;
+            padding: 4px 8px;
+            border-radius: 4px;
+            background: var(--background);
+            word-wrap: break-word;
+        }
+
+        .chat-message.system {
+            opacity: 0.7;
+            font-style: italic;
+        }
+
+        .chat-message.subscription,
+        .chat-message.resub,
+        .chat-message.subgift,
+        .chat-message.bits {
+            border-left: 3px solid #9147ff;
+        }
+
+        .notice-badge {
+            margin-right: 6px;
+            font-size: 0.8em;
+            font-weight: bold;
+            color: #bf94ff;
+        }
+
+        .badge {
+            height: 1.1em;
+            margin-right: 3px;
+            vertical-align: middle;
+        }
+
+        .username {
+            font-weight: bold;
+        }
+
+        .emote,
+        .cheermote {
+            height: 1.6em;
+            vertical-align: middle;
+        }
+
+        .cheer-amount,
+        .mention {
+            font-weight: bold;
+        }
+
+        a {
+            color: inherit;
+            text-decoration: none;
+        }
+    </style>
+    <style>${safeCss}</style>
+</head>
+<body>
+    <div id="chat"></div>
+    <script>
+        const channelFilter = ${JSON.stringify(channel.toLowerCase().replace(/^#/, '')).replace(/</g, '\\u003c')};
+        const maxMessages = ${config.overlay.historySize};
+        const chat = document.getElementById('chat');
+
+        function matchesChannel(message) {
+            return !channelFilter || message.channel === channelFilter;
+        }
+
+        function removeWhere(predicate) {
+            Array.from(chat.children).filter(predicate).forEach(element => element.remove());
+        }
+
+        function handleMessage(message) {
+            if (!matchesChannel(message)) {
+                return;
+            }
+
+            switch (message.type) {
+                case 'message':
+                    chat.insertAdjacentHTML('beforeend', message.html);
+                    while (chat.children.length > maxMessages) {
+                        chat.removeChild(chat.firstChild);
+                    }
+                    break;
+                case 'messageDeleted':
+                    removeWhere(element => element.dataset.messageId === message.messageId);
+                    break;
+                case 'userCleared':
+                    removeWhere(element => element.dataset.channel === message.channel && element.dataset.username === message.username);
+                    break;
+                case 'chatCleared':
+                    removeWhere(element => element.dataset.channel === message.channel);
+                    break;
+            }
+        }
+
+        function connect() {
+            const socket = new WebSocket('ws://' + location.host + '/ws');
+            socket.onopen = () => {
+                // The server replays its history on connect
+                chat.innerHTML = '';
+            };
+            socket.onmessage = (event) => handleMessage(JSON.parse(event.data));
+            socket.onclose = () => setTimeout(connect, 2000);
+        }
+
+        connect();
+    </script>
+</body>
+</html>`;
+}
@@ -0,0 +1,251 @@
+/**
+ * Typed contracts shared by the TwitchClient, the extension host and the webview
+ */
+
+/**
+ * A chat line (regular message, sub/bits notification or system message)
+ */
+export interface TwitchMessage {
+    channel: string;
+    username: string;
+    displayName: string;
+    message: string;
+    color: string;
+    /** Badge set names, e.g. 'moderator' or 'subscriber' */
+    badges: string[];
+    /** The badges with their version's image and title, in display order */
+    badgeDetails?: MessageBadge[];
+    emotes: { [emoteid: string]: string[] };
+    /** BTTV/FFZ/7TV emotes that appear in `message`, name -> URL */
+    thirdPartyEmotes: { [emoteName: string]: string };
+    timestamp: number;
+    messageId?: string;
+    isFirstMessage?: boolean;
+    messageType?: 'chat' | 'subscription' | 'resub' | 'subgift' | 'bits' | 'system';
+    bits?: number;
+    subMonths?: number;
+    subTier?: string;
+    gifterName?: string;
+    recipientName?: string;
+    /** The message split into text, emotes, cheermotes, mentions and links (see messageTokenizer.ts) */
+    fragments?: MessageFragment[];
+    /** Why the message was highlighted for the signed-in user when it arrived */
+    highlight?: MessageHighlight;
+}
+
+/**
+ * 'mention': the message contains the signed-in user's name
+ * 'keyword': it matches one of the `twitchChat.highlights` keywords or patterns
+ */
+export type MessageHighlight = 'mention' | 'keyword';
+
+/**
+ * A chat badge resolved from the `set/version` pair in the IRC tags
+ */
+export interface MessageBadge {
+    set: string;
+    version: string;
+    /** Tooltip, e.g. '6-Month Subscriber (8 months)' */
+    title: string;
+    url: string;
+}
+
+export type EmoteProvider = 'twitch' | 'ffz' | 'bttv' | '7tv';
+
+/**
+ * An emote offered by the chat input's autocomplete and emote picker
+ */
+export interface EmoteChoice {
+    name: string;
+    url: string;
+    provider: EmoteProvider;
+}
+
+/**
+ * A piece of a chat message, in order
+ * Concatenating every fragment's `text` gives back the original message
+ */
+export type MessageFragment =
+    | { type: 'text'; text: string }
+    | { type: 'emote'; text: string; provider: EmoteProvider; url: string }
+    | { type: 'cheermote'; text: string; prefix: string; bits: number; url: string; color: string }
+    | { type: 'mention'; text: string; username: string }
+    | { type: 'url'; text: string; url: string };
+
+/**
+ * Chat room modes
+ * `followersOnly` is false when off, otherwise the required follow age in minutes (0 = any follower)
+ */
+export interface RoomState {
+    shieldMode: boolean;
+    subsOnly: boolean;
+    emotesOnly: boolean;
+    followersOnly: number | false;
+    slowMode: number;
+}
+
+/**
+ * Chat modes that can be toggled from the webview
+ */
+export type ChatMode = 'shield' | 'subsOnly' | 'emotesOnly' | 'followersOnly' | 'slowMode';
+
+/**
+ * Everything that can happen in a joined channel
+ * Discriminated by `type`; every event carries its channel and when it happened
+ */
+export type ChatEvent =
+    | { type: 'message'; channel: string; timestamp: number; message: TwitchMessage }
+    | { type: 'roomState'; channel: string; timestamp: number; roomState: Partial<RoomState> }
+    | { type: 'permissions'; channel: string; timestamp: number; isModerator: boolean; isBroadcaster: boolean }
+    | { type: 'messageDeleted'; channel: string; timestamp: number; messageId: string }
+    | { type: 'userCleared'; channel: string; timestamp: number; username: string; duration?: number }
+    | { type: 'chatCleared'; channel: string; timestamp: number };
+
+/**
+ * Chat history search from the webview's search bar
+ * All set fields must match; text and username match case-insensitively as substrings
+ */
+export interface SearchQuery {
+    text?: string;
+    username?: string;
+    /** Badge name, e.g. 'moderator', 'vip' or 'subscriber' */
+    badge?: string;
+    /** 'chat' or a TwitchMessage messageType */
+    messageType?: string;
+}
+
+/**
+ * A slash command registered through the extension API, as shown in the webview's autocomplete
+ */
+export interface CustomCommandInfo {
+    /** Command name without the leading slash */
+    name: string;
+    args: string;
+    description: string;
+    moderatorOnly: boolean;
+}
+
+/**
+ * Messages posted from the extension host to the webview
+ */
+export type HostToWebviewMessage =
+    | { type: 'chatEvents'; events: ChatEvent[] }
+    | { type: 'connectionStatus'; status: 'connected'; channels: string[] }
+    | { type: 'connectionStatus'; status: 'no-channel' }
+    | { type: 'connectionStatus'; status: 'error'; error: string }
+    | { type: 'authStatus'; isAuthenticated: boolean; username: string | undefined }
+    | { type: 'messageSent'; success: boolean; error?: string }
+    | { type: 'activateChannel'; channel: string }
+    | { type: 'customCommands'; commands: CustomCommandInfo[] }
+    | { type: 'emoteChoices'; channel: string; emotes: EmoteChoice[] }
+    | { type: 'viewSettings'; scrollbackSize: number; slowChatRate: number }
+    | { type: 'searchResults'; channel: string; results: TwitchMessage[]; truncated: boolean }
+    | { type: 'historyContext'; channel: string; messageId: string; messages: TwitchMessage[] }
+    | { type: 'checkFocus' };
+
+/**
+ * Messages posted from the webview to the extension host
+ */
+export type WebviewToHostMessage =
+    | { type: 'webviewFocused' }
+    | { type: 'signIn' }
+    | { type: 'signOut' }
+    | { type: 'switchChannel' }
+    | { type: 'partChannel'; channel: string }
+    | { type: 'sendMessage'; channel: string; message: string }
+    | { type: 'moderate'; channel: string; action: string; username: string; messageId?: string }
+    | { type: 'toggleChatMode'; channel: string; mode: ChatMode; enabled?: boolean; value?: number }
+    | { type: 'runCommand'; channel: string; name: string; args: string[] }
+    | { type: 'searchHistory'; channel: string; query: SearchQuery }
+    | { type: 'loadHistoryContext'; channel: string; messageId: string; timestamp: number }
+    | { type: 'showError'; message: string };
+
+const CHAT_MODES: ChatMode[] = ['shield', 'subsOnly', 'emotesOnly', 'followersOnly', 'slowMode'];
+
+/**
+ * Validate a raw message received from the webview
+ * @param raw The value passed to `onDidReceiveMessage`
+ * @returns The typed message, or undefined if it doesn't match the protocol
+ */
+export function parseWebviewMessage(raw: unknown): WebviewToHostMessage | undefined {
+    if (!raw || typeof raw !== 'object') {
+        return undefined;
+    }
+
+    const message = raw as { [key: string]: unknown };
+    const isString = (value: unknown): value is string => typeof value === 'string';
+    const optional = <T>(value: unknown, check: (v: unknown) => v is T): T | undefined =>
+        check(value) ? value : undefined;
+    const isNumber = (value: unknown): value is number => typeof value === 'number' && !isNaN(value);
+    const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+    switch (message.type) {
+        case 'webviewFocused':
+        case 'signIn':
+        case 'signOut':
+        case 'switchChannel':
+            return { type: message.type };
+
+        case 'partChannel':
+            return isString(message.channel) ? { type: 'partChannel', channel: message.channel } : undefined;
+
+        case 'sendMessage':
+            return isString(message.channel) && isString(message.message)
+                ? { type: 'sendMessage', channel: message.channel, message: message.message }
+                : undefined;
+
+        case 'moderate':
+            return isString(message.channel) && isString(message.action) && isString(message.username)
+                ? {
+                    type: 'moderate',
+                    channel: message.channel,
+                    action: message.action,
+                    username: message.username,
+                    messageId: optional(message.messageId, isString)
+                }
+                : undefined;
+
+        case 'toggleChatMode':
+            return isString(message.channel) && CHAT_MODES.includes(message.mode as ChatMode)
+                ? {
+                    type: 'toggleChatMode',
+                    channel: message.channel,
+                    mode: message.mode as ChatMode,
+                    enabled: optional(message.enabled, isBoolean),
+                    value: optional(message.value, isNumber)
+                }
+                : undefined;
+
+        case 'runCommand':
+            return isString(message.channel) && isString(message.name) && Array.isArray(message.args) && message.args.every(isString)
+                ? { type: 'runCommand', channel: message.channel, name: message.name, args: message.args }
+                : undefined;
+
+        case 'searchHistory': {
+            const query = message.query as { [key: string]: unknown } | undefined;
+            return isString(message.channel) && query && typeof query === 'object'
+                ? {
+                    type: 'searchHistory',
+                    channel: message.channel,
+                    query: {
+                        text: optional(query.text, isString),
+                        username: optional(query.username, isString),
+                        badge: optional(query.badge, isString),
+                        messageType: optional(query.messageType, isString)
+                    }
+                }
+                : undefined;
+        }
+
+        case 'loadHistoryContext':
+            return isString(message.channel) && isString(message.messageId) && isNumber(message.timestamp)
+                ? { type: 'loadHistoryContext', channel: message.channel, messageId: message.messageId, timestamp: message.timestamp }
+                : undefined;
+
+        case 'showError':
+            return isString(message.message) ? { type: 'showError', message: message.message } : undefined;
+
+        default:
+            return undefined;
+    }
+}
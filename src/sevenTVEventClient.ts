@@ -0,0 +1,306 @@
+import * as vscode from 'vscode';
+import WebSocket from 'ws';
+
+/**
+ * Changes to a 7TV emote set, from an `emote_set.update` dispatch
+ * Emotes are 7TV ActiveEmote objects (`{ id, name, data: { host } }`)
+ */
+export interface SevenTVEmoteSetUpdate {
+    setId: string;
+    /** Display name of the user who made the change */
+    actor: string | undefined;
+    added: any[];
+    removed: any[];
+    /** Renames (and other edits) with the emote before and after */
+    updated: { oldValue: any; value: any }[];
+}
+
+/**
+ * 7TV EventAPI opcodes
+ * @see https://github.com/SevenTV/EventAPI
+ */
+const Opcode = {
+    Dispatch: 0,
+    Hello: 1,
+    Heartbeat: 2,
+    Reconnect: 4,
+    Ack: 5,
+    Error: 6,
+    EndOfStream: 7,
+    Subscribe: 35,
+    Unsubscribe: 36
+} as const;
+
+/**
+ * 7TV EventAPI WebSocket connection
+ * Subscribes to `emote_set.update` for channels' active emote sets, keeps the connection
+ * alive through heartbeats and resubscribes everything after a reconnect
+ * The socket is only open while something is subscribed
+ */
+export class SevenTVEventClient {
+    private static readonly MAX_RECONNECT_DELAY = 60000;
+
+    private socket: WebSocket | null = null;
+    private ready: boolean = false;
+    private heartbeatInterval: number = 25000;
+    private heartbeatTimer: NodeJS.Timeout | undefined;
+    private reconnectTimer: NodeJS.Timeout | undefined;
+    private reconnectAttempts: number = 0;
+    // Emote set ID -> keys (channel names) that want its updates
+    private subscriptions: Map<string, Set<string>> = new Map();
+    private disposed: boolean = false;
+
+    /**
+     * @param getUrl Returns the EventAPI URL, read on every connect so a changed setting applies on reconnect
+     * @param onUpdate Called for every emote set update
+     * @param outputChannel Output channel for logging
+     */
+    constructor(
+        private readonly getUrl: () => string,
+        private readonly onUpdate: (update: SevenTVEmoteSetUpdate) => void,
+        private readonly outputChannel: vscode.OutputChannel
+    ) { }
+
+    /**
+     * Watch an emote set for a key, replacing the set previously watched for it
+     * @param key Identifier of the subscriber (e.g. a channel name)
+     * @param setId The 7TV emote set ID
+     */
+    subscribe(key: string, setId: string) {
+        if (this.disposed || this.subscriptions.get(setId)?.has(key)) {
+            return;
+        }
+
+        // Switch sets in place; unsubscribe() would close the socket if this key was the only subscriber
+        this.removeKey(key);
+        const keys = this.subscriptions.get(setId) || new Set();
+        keys.add(key);
+        this.subscriptions.set(setId, keys);
+
+        if (!this.socket) {
+            this.connect();
+        } else if (this.ready && keys.size === 1) {
+            this.send(Opcode.Subscribe, setId);
+        }
+        // Otherwise the subscription is sent once the hello message arrives
+    }
+
+    /**
+     * Stop watching the emote set of a key
+     * Closes the socket when nothing is watched anymore
+     * @param key Identifier used when subscribing
+     */
+    unsubscribe(key: string) {
+        this.removeKey(key);
+
+        if (this.subscriptions.size === 0) {
+            this.close();
+        }
+    }
+
+    /**
+     * Close the connection and stop reconnecting
+     */
+    dispose() {
+        this.disposed = true;
+        this.subscriptions.clear();
+        this.close();
+    }
+
+    /**
+     * Drop a key from the sets it watches, unsubscribing from sets nobody watches anymore
+     * @param key Identifier used when subscribing
+     */
+    private removeKey(key: string) {
+        for (const [setId, keys] of this.subscriptions) {
+            if (keys.delete(key) && keys.size === 0) {
+                this.subscriptions.delete(setId);
+                if (this.ready) {
+                    this.send(Opcode.Unsubscribe, setId);
+                }
+            }
+        }
+    }
+
+    private connect() {
+        const url = this.getUrl();
+        this.outputChannel.appendLine(`7TV EventAPI: connecting to ${url}`);
+        const socket = new WebSocket(url);
+        this.socket = socket;
+
+        socket.on('message', (data) => this.handleMessage(socket, data.toString()));
+        socket.on('close', (code, reason) => this.handleClose(socket, code, reason.toString()));
+        socket.on('error', (error) => {
+            this.outputChannel.appendLine(`7TV EventAPI: socket error: ${error}`);
+        });
+    }
+
+    /**
+     * Handle a message from the EventAPI
+     * @param socket The socket the message arrived on
+     * @param raw Raw JSON message (`{ op, d }`)
+     */
+    private handleMessage(socket: WebSocket, raw: string) {
+        if (socket !== this.socket) {
+            return;
+        }
+
+        let message: any;
+        try {
+            message = JSON.parse(raw);
+        } catch (error) {
+            this.outputChannel.appendLine(`7TV EventAPI: could not parse message: ${error}`);
+            return;
+        }
+
+        const data = message.d || {};
+        // Any message shows the connection is alive
+        this.resetHeartbeat();
+
+        switch (message.op) {
+            case Opcode.Hello:
+                this.ready = true;
+                this.reconnectAttempts = 0;
+                this.heartbeatInterval = data.heartbeat_interval || this.heartbeatInterval;
+                this.resetHeartbeat();
+                this.outputChannel.appendLine(`7TV EventAPI: session ${data.session_id} started`);
+                for (const setId of this.subscriptions.keys()) {
+                    this.send(Opcode.Subscribe, setId);
+                }
+                break;
+
+            case Opcode.Heartbeat:
+            case Opcode.Ack:
+                break;
+
+            case Opcode.Dispatch:
+                if (data.type === 'emote_set.update' && data.body) {
+                    this.handleEmoteSetUpdate(data.body);
+                }
+                break;
+
+            case Opcode.Reconnect:
+                this.outputChannel.appendLine('7TV EventAPI: server requested reconnect');
+                socket.close();
+                break;
+
+            case Opcode.Error:
+                this.outputChannel.appendLine(`7TV EventAPI: error: ${data.message || raw}`);
+                break;
+
+            case Opcode.EndOfStream:
+                this.outputChannel.appendLine(`7TV EventAPI: end of stream (${data.code} ${data.message || ''})`);
+                break;
+
+            default:
+                this.outputChannel.appendLine(`7TV EventAPI: unhandled opcode ${message.op}`);
+        }
+    }
+
+    /**
+     * Turn an `emote_set.update` body into an update for the emotes key
+     * @param body ChangeMap (`{ id, actor, pushed, pulled, updated }`)
+     */
+    private handleEmoteSetUpdate(body: any) {
+        if (!this.subscriptions.has(body.id)) {
+            return;
+        }
+
+        const emoteChanges = (list: any) => Array.isArray(list) ? list.filter(change => change && change.key === 'emotes') : [];
+        this.onUpdate({
+            setId: body.id,
+            actor: body.actor?.display_name || body.actor?.username,
+            added: emoteChanges(body.pushed).map(change => change.value).filter(Boolean),
+            removed: emoteChanges(body.pulled).map(change => change.old_value).filter(Boolean),
+            updated: emoteChanges(body.updated)
+                .filter(change => change.old_value && change.value)
+                .map(change => ({ oldValue: change.old_value, value: change.value }))
+        });
+    }
+
+    /**
+     * Handle the socket closing; reconnect if anything is still subscribed
+     */
+    private handleClose(socket: WebSocket, code: number, reason: string) {
+        if (socket !== this.socket) {
+            return;
+        }
+
+        this.outputChannel.appendLine(`7TV EventAPI: connection closed (${code} ${reason})`);
+        this.socket = null;
+        this.ready = false;
+        this.clearHeartbeat();
+
+        if (!this.disposed && this.subscriptions.size > 0) {
+            this.scheduleReconnect();
+        }
+    }
+
+    /**
+     * Reconnect with exponential backoff
+     */
+    private scheduleReconnect() {
+        if (this.reconnectTimer) {
+            return;
+        }
+
+        const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), SevenTVEventClient.MAX_RECONNECT_DELAY);
+        this.reconnectAttempts++;
+        this.outputChannel.appendLine(`7TV EventAPI: reconnecting in ${delay / 1000}s`);
+
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = undefined;
+            if (!this.disposed && !this.socket && this.subscriptions.size > 0) {
+                this.connect();
+            }
+        }, delay);
+    }
+
+    /**
+     * Restart the heartbeat timer
+     * The server sends a heartbeat every `heartbeat_interval` ms; missing one means the connection is dead
+     */
+    private resetHeartbeat() {
+        this.clearHeartbeat();
+
+        if (!this.ready) {
+            return;
+        }
+
+        // Allow some slack on top of the advertised interval
+        this.heartbeatTimer = setTimeout(() => {
+            this.outputChannel.appendLine('7TV EventAPI: heartbeat timed out, reconnecting');
+            this.socket?.terminate();
+        }, this.heartbeatInterval + 5000);
+    }
+
+    private clearHeartbeat() {
+        if (this.heartbeatTimer) {
+            clearTimeout(this.heartbeatTimer);
+            this.heartbeatTimer = undefined;
+        }
+    }
+
+    private send(op: number, setId: string) {
+        this.socket?.send(JSON.stringify({
+            op: op,
+            d: { type: 'emote_set.update', condition: { object_id: setId } }
+        }));
+    }
+
+    /**
+     * Close the socket and all timers
+     */
+    private close() {
+        this.clearHeartbeat();
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = undefined;
+        }
+
+        const socket = this.socket;
+        this.socket = null;
+        this.ready = false;
+        socket?.close();
+    }
+}
@@ -0,0 +1,262 @@
+import { log, outputChannel } from './vscodeMock';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import { IncomingMessage } from 'http';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { EventSubClient, EventSubNotification, EventSubSubscription } from '../eventSubClient';
+import { HelixClient, HelixRequestOptions } from '../helixClient';
+
+const SUBSCRIPTIONS_URL = 'http://helix.invalid/eventsub/subscriptions';
+
+const RAID: EventSubSubscription = { type: 'channel.raid', version: '1', condition: { to_broadcaster_user_id: '1' } };
+const FOLLOW: EventSubSubscription = { type: 'channel.follow', version: '2', condition: { broadcaster_user_id: '1', moderator_user_id: '2' } };
+
+/**
+ * Stands in for the Helix subscription endpoints, handing out sequential subscription IDs
+ */
+class FakeHelix {
+    readonly requests: (HelixRequestOptions & { url: string })[] = [];
+    private nextId = 1;
+
+    async request(url: string, options: HelixRequestOptions) {
+        this.requests.push({ url, ...options });
+        if (options.method === 'POST') {
+            return { status: 202, data: { data: [{ id: `sub-${this.nextId++}` }] } };
+        }
+        return { status: 204, data: undefined };
+    }
+
+    posts() {
+        return this.requests.filter(request => request.method === 'POST') as { body: any }[];
+    }
+
+    deletedIds() {
+        return this.requests.filter(request => request.method === 'DELETE').map(request => request.query?.id);
+    }
+}
+
+/**
+ * EventSub WebSocket stub keeping every connection it accepted
+ */
+class StubServer {
+    readonly connections: { socket: WebSocket; request: IncomingMessage }[] = [];
+    private readonly server = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+
+    constructor() {
+        this.server.on('connection', (socket, request) => this.connections.push({ socket, request }));
+    }
+
+    async url(path: string = '/ws'): Promise<string> {
+        if (!this.server.address()) {
+            await new Promise(resolve => this.server.once('listening', resolve));
+        }
+        return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}${path}`;
+    }
+
+    stop(): Promise<void> {
+        for (const client of this.server.clients) {
+            client.terminate();
+        }
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+}
+
+function eventSubMessage(type: string, payload: object, metadata: object = {}): string {
+    return JSON.stringify({
+        metadata: { message_id: randomUUID(), message_type: type, message_timestamp: new Date().toISOString(), ...metadata },
+        payload
+    });
+}
+
+function welcome(sessionId: string): string {
+    return eventSubMessage('session_welcome', {
+        session: { id: sessionId, status: 'connected', keepalive_timeout_seconds: 10, reconnect_url: null }
+    });
+}
+
+function notification(messageId: string, event: object): string {
+    return eventSubMessage('notification', { subscription: { type: 'channel.raid' }, event }, {
+        message_id: messageId,
+        subscription_type: 'channel.raid'
+    });
+}
+
+/**
+ * Wait for a condition that changes through socket I/O
+ * Polls with setImmediate, so it keeps working while setTimeout is mocked
+ */
+async function waitUntil(condition: () => boolean, description: string) {
+    for (let i = 0; i < 20000; i++) {
+        if (condition()) {
+            return;
+        }
+        await new Promise(resolve => setImmediate(resolve));
+    }
+    assert.fail(`Timed out waiting until ${description}`);
+}
+
+/**
+ * Wait long enough for anything already sent over localhost to have arrived
+ */
+function settle(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 100));
+}
+
+describe('EventSubClient', () => {
+    let server: StubServer;
+    let helix: FakeHelix;
+    let notifications: EventSubNotification[];
+    let client: EventSubClient;
+
+    async function createClient() {
+        client = new EventSubClient(
+            'token',
+            notification => notifications.push(notification),
+            outputChannel,
+            { websocketUrl: await server.url(), subscriptionsUrl: SUBSCRIPTIONS_URL },
+            helix as unknown as HelixClient
+        );
+    }
+
+    /**
+     * Subscribe a channel and complete the session welcome on the first connection
+     */
+    async function startSession(subscriptions: EventSubSubscription[] = [RAID, FOLLOW]) {
+        await createClient();
+        await client.subscribe('channel', subscriptions);
+        await waitUntil(() => server.connections.length === 1, 'the client connects');
+        server.connections[0].socket.send(welcome('session-1'));
+        await waitUntil(() => helix.posts().length === subscriptions.length, 'the subscriptions are created');
+        return server.connections[0].socket;
+    }
+
+    beforeEach(() => {
+        server = new StubServer();
+        helix = new FakeHelix();
+        notifications = [];
+        log.length = 0;
+    });
+
+    afterEach(async () => {
+        mock.timers.reset();
+        client?.dispose();
+        await server.stop();
+        // Let the client finish closing, so the next test can't mock the timers ws clears then
+        await settle();
+    });
+
+    it('creates the subscriptions on the welcomed session', async () => {
+        await startSession();
+
+        assert.equal(server.connections[0].request.url, '/ws');
+        assert.deepEqual(helix.posts().map(post => post.body), [
+            { ...RAID, transport: { method: 'websocket', session_id: 'session-1' } },
+            { ...FOLLOW, transport: { method: 'websocket', session_id: 'session-1' } }
+        ]);
+        assert.ok(helix.requests.every(request => request.url === SUBSCRIPTIONS_URL && request.token === 'token'));
+    });
+
+    it('waits for the welcome before subscribing', async () => {
+        await createClient();
+        await client.subscribe('channel', [RAID]);
+        await waitUntil(() => server.connections.length === 1, 'the client connects');
+        await settle();
+
+        assert.equal(helix.requests.length, 0);
+    });
+
+    it('replaces the subscriptions of a key that is subscribed again', async () => {
+        await startSession();
+        await client.subscribe('channel', [RAID]);
+
+        assert.deepEqual(helix.deletedIds(), ['sub-1', 'sub-2']);
+        assert.equal(helix.posts().length, 3);
+    });
+
+    it('reconnects and subscribes again when the keepalive times out', async () => {
+        mock.timers.enable({ apis: ['setTimeout'] });
+        await startSession();
+
+        // Ten second keepalive plus five seconds of slack
+        mock.timers.tick(15000);
+        await waitUntil(() => log.includes('EventSub: reconnecting in 1s'), 'the reconnect is scheduled');
+        mock.timers.tick(1000);
+        await waitUntil(() => server.connections.length === 2, 'the client reconnects');
+
+        server.connections[1].socket.send(welcome('session-2'));
+        await waitUntil(() => helix.posts().length === 4, 'the subscriptions are created again');
+
+        assert.ok(log.includes('EventSub: keepalive timed out, reconnecting'));
+        assert.deepEqual(helix.posts().slice(2).map(post => post.body.transport.session_id), ['session-2', 'session-2']);
+        // The old subscriptions died with their session
+        assert.deepEqual(helix.deletedIds(), []);
+    });
+
+    describe('session_reconnect', () => {
+        /**
+         * Move the session to a second connection as Twitch does before maintenance
+         * @returns The first and second server-side sockets
+         */
+        async function reconnect() {
+            const first = await startSession();
+            first.send(eventSubMessage('session_reconnect', {
+                session: { id: 'session-1', status: 'reconnecting', reconnect_url: await server.url('/reconnect') }
+            }));
+            await waitUntil(() => server.connections.length === 2, 'the client opens the reconnect URL');
+
+            const second = server.connections[1];
+            // Stop reading the first connection, so it never sees the client's close frame and stays open
+            server.connections[0].request.socket.pause();
+            second.socket.send(welcome('session-1'));
+            second.socket.send(notification('after-swap', { from_broadcaster_user_login: 'raider' }));
+            await waitUntil(() => notifications.length === 1, 'the new connection delivers a notification');
+            return { first, second: second.socket };
+        }
+
+        it('moves to the new connection without recreating or losing subscriptions', async () => {
+            await reconnect();
+
+            assert.equal(server.connections[1].request.url, '/reconnect');
+            assert.equal(helix.posts().length, 2);
+            assert.deepEqual(helix.deletedIds(), []);
+            assert.deepEqual(notifications, [{ subscriptionType: 'channel.raid', event: { from_broadcaster_user_login: 'raider' } }]);
+
+            // The carried-over subscriptions are still known and cleaned up
+            await client.unsubscribe('channel');
+            assert.deepEqual(helix.deletedIds(), ['sub-1', 'sub-2']);
+        });
+
+        it('ignores messages still arriving on the replaced connection', async () => {
+            const { first } = await reconnect();
+
+            first.send(notification('stale', { from_broadcaster_user_login: 'stale' }));
+            await settle();
+
+            assert.equal(notifications.length, 1);
+        });
+    });
+
+    it('delivers a redelivered notification only once', async () => {
+        const socket = await startSession();
+
+        socket.send(notification('message-1', { viewers: 1 }));
+        socket.send(notification('message-1', { viewers: 1 }));
+        socket.send(notification('message-2', { viewers: 2 }));
+        await waitUntil(() => notifications.length === 2, 'the notifications arrive');
+        await settle();
+
+        assert.deepEqual(notifications.map(notification => notification.event), [{ viewers: 1 }, { viewers: 2 }]);
+    });
+
+    it('closes the connection once nothing is subscribed', async () => {
+        const socket = await startSession();
+        const closed = new Promise(resolve => socket.once('close', resolve));
+
+        await client.unsubscribe('channel');
+        await closed;
+
+        assert.deepEqual(helix.deletedIds(), ['sub-1', 'sub-2']);
+    });
+});
@@ -0,0 +1,229 @@
+import { log, outputChannel, settings } from './vscodeMock';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { HelixClient, HelixError, TokenInvalidError } from '../helixClient';
+
+interface StubResponse {
+    status: number;
+    body?: unknown;
+    headers?: http.OutgoingHttpHeaders;
+}
+
+interface StubRequest {
+    method: string;
+    url: URL;
+    headers: http.IncomingHttpHeaders;
+    body: string;
+    receivedAt: number;
+}
+
+/**
+ * Helix stub answering each request with the next queued response (200 {} once they run out)
+ */
+class StubServer {
+    readonly requests: StubRequest[] = [];
+    private responses: StubResponse[] = [];
+    private readonly server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => {
+            this.requests.push({
+                method: req.method || '',
+                url: new URL(req.url || '/', this.baseUrl),
+                headers: req.headers,
+                body,
+                receivedAt: Date.now()
+            });
+            const response = this.responses.shift() || { status: 200, body: {} };
+            res.writeHead(response.status, { 'Content-Type': 'application/json', ...response.headers });
+            res.end(response.body === undefined ? '' : JSON.stringify(response.body));
+        });
+    });
+    baseUrl = '';
+
+    async start() {
+        await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+        this.baseUrl = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    stop(): Promise<void> {
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+
+    reply(...responses: StubResponse[]) {
+        this.responses.push(...responses);
+    }
+
+    reset() {
+        this.requests.length = 0;
+        this.responses = [];
+    }
+}
+
+describe('HelixClient', () => {
+    const stub = new StubServer();
+    let helix: HelixClient;
+
+    before(async () => {
+        await stub.start();
+        // Keep the retry backoff short
+        Object.assign(HelixClient, { RETRY_BASE_DELAY: 10 });
+    });
+
+    after(() => stub.stop());
+
+    beforeEach(() => {
+        stub.reset();
+        log.length = 0;
+        settings.set('twitchChat.helixBaseUrl', stub.baseUrl);
+        helix = new HelixClient(outputChannel);
+    });
+
+    afterEach(() => helix.dispose());
+
+    it('sends the client ID and bearer token and parses the JSON body', async () => {
+        stub.reply({ status: 200, body: { data: [{ id: '1' }] } });
+
+        const users = await helix.get('/users', { login: ['a', 'b'] }, 'oauth:secret');
+
+        assert.deepEqual(users, [{ id: '1' }]);
+        assert.equal(stub.requests[0].url.pathname, '/users');
+        assert.deepEqual(stub.requests[0].url.searchParams.getAll('login'), ['a', 'b']);
+        assert.equal(stub.requests[0].headers.authorization, 'Bearer secret');
+        assert.ok(stub.requests[0].headers['client-id']);
+    });
+
+    describe('rate limiting', () => {
+        it('holds requests until Ratelimit-Reset once Ratelimit-Remaining hits zero', async () => {
+            const resetSeconds = Math.ceil(Date.now() / 1000) + 1;
+            stub.reply({ status: 200, body: {}, headers: { 'Ratelimit-Remaining': '0', 'Ratelimit-Reset': String(resetSeconds) } });
+
+            await helix.request('/first');
+            await helix.request('/second');
+
+            assert.equal(stub.requests.length, 2);
+            assert.ok(stub.requests[1].receivedAt >= resetSeconds * 1000 - 5, 'second request was sent before the reset');
+        });
+
+        it('keeps queued requests in order', async () => {
+            await Promise.all(['/a', '/b', '/c'].map(path => helix.request(path)));
+            assert.deepEqual(stub.requests.map(request => request.url.pathname), ['/a', '/b', '/c']);
+        });
+
+        it('retries a 429 after the reset, even for POST', async () => {
+            const resetSeconds = Math.ceil(Date.now() / 1000);
+            stub.reply({ status: 429, body: { message: 'Too Many Requests' }, headers: { 'Ratelimit-Remaining': '0', 'Ratelimit-Reset': String(resetSeconds) } });
+
+            const response = await helix.request('/chat/announcements', { method: 'POST', body: { message: 'hi' } });
+
+            assert.equal(response.status, 200);
+            assert.equal(stub.requests.length, 2);
+            assert.equal(stub.requests[1].body, JSON.stringify({ message: 'hi' }));
+        });
+    });
+
+    describe('retries', () => {
+        it('retries a GET after a 5xx response', async () => {
+            stub.reply({ status: 503 }, { status: 500 }, { status: 200, body: { data: [] } });
+
+            const response = await helix.request('/streams');
+
+            assert.equal(response.status, 200);
+            assert.equal(stub.requests.length, 3);
+        });
+
+        it('gives up after the retries and throws the last error', async () => {
+            stub.reply(...Array.from({ length: 5 }, () => ({ status: 502, body: { message: 'Bad Gateway' } })));
+
+            await assert.rejects(helix.request('/streams'), (error: unknown) => {
+                assert.ok(error instanceof HelixError);
+                assert.equal(error.status, 502);
+                assert.equal(error.body, 'Bad Gateway');
+                return true;
+            });
+            assert.equal(stub.requests.length, 4);
+        });
+
+        it('does not retry a POST after a 5xx response', async () => {
+            stub.reply({ status: 500, body: { message: 'Internal Server Error' } });
+
+            await assert.rejects(helix.request('/moderation/bans', { method: 'POST', body: {} }), HelixError);
+            assert.equal(stub.requests.length, 1);
+        });
+
+        it('retries a refused connection for any method', async () => {
+            // Nothing listens on the port of a closed server
+            const closed = new StubServer();
+            await closed.start();
+            await closed.stop();
+
+            await assert.rejects(
+                helix.request(`${closed.baseUrl}/moderation/bans`, { method: 'POST', body: {} }),
+                (error: NodeJS.ErrnoException) => error.code === 'ECONNREFUSED'
+            );
+            assert.equal(log.filter(line => line.includes('ECONNREFUSED, retrying')).length, 3);
+        });
+
+        it('does not retry other client errors', async () => {
+            stub.reply({ status: 400, body: { message: 'Malformed query' } });
+
+            await assert.rejects(helix.request('/users'), { name: 'HelixError', status: 400 });
+            assert.equal(stub.requests.length, 1);
+        });
+    });
+
+    describe('HTTP 401', () => {
+        it('throws TokenInvalidError and fires onDidInvalidateToken for a rejected token', async () => {
+            let invalidated = 0;
+            helix.onDidInvalidateToken(() => invalidated++);
+            stub.reply({ status: 401, body: { error: 'Unauthorized', status: 401, message: 'Invalid OAuth token' } });
+
+            await assert.rejects(helix.request('/users', { token: 'expired' }), TokenInvalidError);
+            assert.equal(invalidated, 1);
+        });
+
+        it('throws HelixError without invalidating the token for a missing scope', async () => {
+            let invalidated = 0;
+            helix.onDidInvalidateToken(() => invalidated++);
+            stub.reply({ status: 401, body: { error: 'Unauthorized', status: 401, message: 'Missing scope: moderator:manage:banned_users' } });
+
+            await assert.rejects(helix.request('/moderation/bans', { method: 'POST', token: 'valid' }), (error: unknown) => {
+                assert.ok(error instanceof HelixError);
+                assert.equal(error.status, 401);
+                assert.match(error.body, /Missing scope/);
+                return true;
+            });
+            assert.equal(invalidated, 0);
+        });
+    });
+
+    describe('paginate', () => {
+        it('follows the cursor until there is none', async () => {
+            stub.reply(
+                { status: 200, body: { data: [1, 2], pagination: { cursor: 'page2' } } },
+                { status: 200, body: { data: [3], pagination: {} } }
+            );
+
+            const items = await helix.paginate('/channels/followed', { user_id: '1' });
+
+            assert.deepEqual(items, [1, 2, 3]);
+            assert.equal(stub.requests[0].url.searchParams.get('first'), '100');
+            assert.equal(stub.requests[0].url.searchParams.has('after'), false);
+            assert.equal(stub.requests[1].url.searchParams.get('after'), 'page2');
+        });
+
+        it('stops at the page cap', async () => {
+            stub.reply(...Array.from({ length: 5 }, (_, page) => ({
+                status: 200,
+                body: { data: [page], pagination: { cursor: `after${page}` } }
+            })));
+
+            const items = await helix.paginate('/moderation/banned', {}, undefined, 3);
+
+            assert.deepEqual(items, [0, 1, 2]);
+            assert.equal(stub.requests.length, 3);
+        });
+    });
+});
@@ -0,0 +1,222 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { CheermoteTier, TokenizeOptions, getFragments, tokenizeMessage } from '../messageTokenizer';
+import { MessageFragment, TwitchMessage } from '../protocol';
+
+const BTTV_URL = 'https://cdn.betterttv.net/emote/1/1x';
+const SEVENTV_URL = 'https://cdn.7tv.app/emote/2/1x.webp';
+const FFZ_URL = 'https://cdn.frankerfacez.com/emote/3/1';
+
+const CHEER_TIERS: CheermoteTier[] = [
+    { minBits: 1, url: 'https://cheer/1', color: '#979797' },
+    { minBits: 100, url: 'https://cheer/100', color: '#9c3ee8' },
+    { minBits: 1000, url: 'https://cheer/1000', color: '#1db2a5' }
+];
+
+function message(text: string, fields: Partial<TwitchMessage> = {}): TwitchMessage {
+    return {
+        channel: 'test',
+        username: 'viewer',
+        displayName: 'Viewer',
+        message: text,
+        color: '',
+        badges: [],
+        emotes: {},
+        thirdPartyEmotes: {},
+        timestamp: 0,
+        ...fields
+    };
+}
+
+/**
+ * Tokenize and check that the fragments give back the message
+ */
+function tokenize(msg: TwitchMessage, options?: TokenizeOptions): MessageFragment[] {
+    const fragments = tokenizeMessage(msg, options);
+    assert.equal(fragments.map(fragment => fragment.text).join(''), msg.message);
+    return fragments;
+}
+
+function emoteTexts(fragments: MessageFragment[]): string[] {
+    return fragments.filter(fragment => fragment.type === 'emote').map(fragment => fragment.text);
+}
+
+describe('tokenizeMessage', () => {
+    describe('Twitch emote positions', () => {
+        it('counts positions in code points after a surrogate pair', () => {
+            const fragments = tokenize(message('😀 Kappa hi', { emotes: { '25': ['2-6'] } }));
+            assert.deepEqual(fragments, [
+                { type: 'text', text: '😀 ' },
+                { type: 'emote', text: 'Kappa', provider: 'twitch', url: 'https://static-cdn.jtvnw.net/emoticons/v2/25/default/dark/1.0' },
+                { type: 'text', text: ' hi' }
+            ]);
+        });
+
+        it('counts every code point of an emoji sequence', () => {
+            // The family emoji is five code points (three people joined by two zero-width joiners)
+            const fragments = tokenize(message('👨‍👩‍👧 Kappa 𝕏 Keepo', { emotes: { '25': ['6-10'], '1902': ['14-18'] } }));
+            assert.deepEqual(emoteTexts(fragments), ['Kappa', 'Keepo']);
+        });
+
+        it('handles an emote at the very start and end of the message', () => {
+            const fragments = tokenize(message('Kappa', { emotes: { '25': ['0-4'] } }));
+            assert.equal(fragments.length, 1);
+            assert.equal(fragments[0].type, 'emote');
+        });
+
+        it('orders emotes by position across emote IDs', () => {
+            const fragments = tokenize(message('Keepo Kappa Keepo', { emotes: { '25': ['6-10'], '1902': ['0-4', '12-16'] } }));
+            assert.deepEqual(emoteTexts(fragments), ['Keepo', 'Kappa', 'Keepo']);
+        });
+
+        it('skips an emote range overlapping an earlier one', () => {
+            const fragments = tokenize(message('Kappa Keepo', { emotes: { '25': ['0-4'], '1902': ['2-8'] } }));
+            assert.deepEqual(emoteTexts(fragments), ['Kappa']);
+            assert.deepEqual(fragments[1], { type: 'text', text: ' Keepo' });
+        });
+
+        it('drops ranges outside the message or malformed', () => {
+            const fragments = tokenize(message('hi Kappa', {
+                emotes: { '25': ['3-7', '6-20', '-1-2', '5-4', 'a-b', '9-9'] }
+            }));
+            assert.deepEqual(emoteTexts(fragments), ['Kappa']);
+        });
+    });
+
+    describe('links and mentions', () => {
+        it('keeps trailing punctuation out of links', () => {
+            const fragments = tokenize(message('see https://example.com/path?q=1. or http://a.b/c),'));
+            assert.deepEqual(fragments, [
+                { type: 'text', text: 'see ' },
+                { type: 'url', text: 'https://example.com/path?q=1', url: 'https://example.com/path?q=1' },
+                { type: 'text', text: '. or ' },
+                { type: 'url', text: 'http://a.b/c', url: 'http://a.b/c' },
+                { type: 'text', text: '),' }
+            ]);
+        });
+
+        it('only links http and https URLs', () => {
+            const fragments = tokenize(message('ftp://example.com javascript:alert(1) www.example.com'));
+            assert.deepEqual(fragments, [{ type: 'text', text: 'ftp://example.com javascript:alert(1) www.example.com' }]);
+        });
+
+        it('keeps trailing punctuation out of mentions and lowercases the username', () => {
+            const fragments = tokenize(message('@SomeUser, hi @other!?'));
+            assert.deepEqual(fragments, [
+                { type: 'mention', text: '@SomeUser', username: 'someuser' },
+                { type: 'text', text: ', hi ' },
+                { type: 'mention', text: '@other', username: 'other' },
+                { type: 'text', text: '!?' }
+            ]);
+        });
+
+        it('does not treat a bare @ or an email address as a mention', () => {
+            const fragments = tokenize(message('@ me@example.com'));
+            assert.deepEqual(fragments, [{ type: 'text', text: '@ me@example.com' }]);
+        });
+
+        it('preserves runs of whitespace', () => {
+            tokenize(message('  a \t @b  https://c.d  '));
+        });
+    });
+
+    describe('third-party emotes', () => {
+        it('detects the provider from the CDN URL', () => {
+            const fragments = tokenize(message('catJAM OMEGALUL LULW', {
+                thirdPartyEmotes: { catJAM: SEVENTV_URL, OMEGALUL: FFZ_URL, LULW: BTTV_URL }
+            }));
+            assert.deepEqual(
+                fragments.filter(fragment => fragment.type === 'emote').map(fragment => fragment.type === 'emote' && fragment.provider),
+                ['7tv', 'ffz', 'bttv']
+            );
+        });
+
+        it('gives Twitch emote positions precedence over a third-party emote with the same name', () => {
+            const fragments = tokenize(message('Kappa Kappa', {
+                emotes: { '25': ['0-4'] },
+                thirdPartyEmotes: { Kappa: SEVENTV_URL }
+            }));
+            const emotes = fragments.filter(fragment => fragment.type === 'emote');
+            assert.deepEqual(emotes.map(fragment => fragment.type === 'emote' && fragment.provider), ['twitch', '7tv']);
+        });
+
+        it('only matches whole words, case-sensitively', () => {
+            const fragments = tokenize(message('catJAMs catjam catJAM', { thirdPartyEmotes: { catJAM: SEVENTV_URL } }));
+            assert.deepEqual(emoteTexts(fragments), ['catJAM']);
+        });
+
+        it('ignores Object.prototype names', () => {
+            const fragments = tokenize(message('constructor toString', { thirdPartyEmotes: {} }));
+            assert.deepEqual(fragments, [{ type: 'text', text: 'constructor toString' }]);
+        });
+
+        it('prefers a third-party emote over a mention-like or link-like word', () => {
+            const fragments = tokenize(message('@emote', { thirdPartyEmotes: { '@emote': BTTV_URL } }));
+            assert.deepEqual(emoteTexts(fragments), ['@emote']);
+        });
+    });
+
+    describe('cheermotes', () => {
+        const options: TokenizeOptions = { cheermotes: { cheer: CHEER_TIERS } };
+
+        it('picks the highest tier the amount reaches', () => {
+            const fragments = tokenize(message('Cheer1 Cheer150 Cheer99 Cheer5000', { messageType: 'bits', bits: 5250 }), options);
+            const cheers = fragments.filter(fragment => fragment.type === 'cheermote');
+            assert.deepEqual(cheers.map(fragment => fragment.type === 'cheermote' && [fragment.bits, fragment.url]), [
+                [1, 'https://cheer/1'],
+                [150, 'https://cheer/100'],
+                [99, 'https://cheer/1'],
+                [5000, 'https://cheer/1000']
+            ]);
+        });
+
+        it('matches the prefix in any case and keeps it as written', () => {
+            const fragments = tokenize(message('cHeEr100', { messageType: 'bits', bits: 100 }), options);
+            assert.deepEqual(fragments, [
+                { type: 'cheermote', text: 'cHeEr100', prefix: 'cHeEr', bits: 100, url: 'https://cheer/100', color: '#9c3ee8' }
+            ]);
+        });
+
+        it('leaves zero amounts, unknown prefixes and non-numeric suffixes as text', () => {
+            const fragments = tokenize(message('Cheer0 Cheer00 Party100 Cheer Cheer1a', { messageType: 'bits', bits: 1 }), options);
+            assert.deepEqual(fragments, [{ type: 'text', text: 'Cheer0 Cheer00 Party100 Cheer Cheer1a' }]);
+        });
+
+        it('only recognizes cheers in bits messages', () => {
+            const fragments = tokenize(message('Cheer100 Cheer100', { messageType: 'chat' }), options);
+            assert.deepEqual(fragments, [{ type: 'text', text: 'Cheer100 Cheer100' }]);
+        });
+
+        it('does nothing without cheermote data', () => {
+            const fragments = tokenize(message('Cheer100', { messageType: 'bits', bits: 100 }));
+            assert.deepEqual(fragments, [{ type: 'text', text: 'Cheer100' }]);
+        });
+    });
+
+    it('joins back to the original message for mixed content', () => {
+        const samples: [TwitchMessage, TokenizeOptions?][] = [
+            [message('')],
+            [message(' ')],
+            [message('😀😀 Kappa @x, https://y.z. catJAM', { emotes: { '25': ['3-7'] }, thirdPartyEmotes: { catJAM: SEVENTV_URL } })],
+            [message('Cheer100 great stream Kappa!', { messageType: 'bits', bits: 100, emotes: { '25': ['22-26'] } }), { cheermotes: { cheer: CHEER_TIERS } }],
+            [message('Kappa', { emotes: { '25': ['0-4', '0-4'] } })]
+        ];
+        for (const [msg, options] of samples) {
+            tokenize(msg, options);
+        }
+    });
+});
+
+describe('getFragments', () => {
+    it('returns the fragments stored with the message', () => {
+        const fragments: MessageFragment[] = [{ type: 'text', text: 'stored' }];
+        assert.equal(getFragments(message('Kappa', { fragments })), fragments);
+    });
+
+    it('tokenizes messages logged without fragments', () => {
+        assert.deepEqual(getFragments(message('hi @you')), [
+            { type: 'text', text: 'hi ' },
+            { type: 'mention', text: '@you', username: 'you' }
+        ]);
+    });
+});
@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { WebviewToHostMessage, parseWebviewMessage } from '../protocol';
+
+describe('parseWebviewMessage', () => {
+    describe('accepts every message type', () => {
+        const valid: WebviewToHostMessage[] = [
+            { type: 'webviewFocused' },
+            { type: 'signIn' },
+            { type: 'signOut' },
+            { type: 'switchChannel' },
+            { type: 'partChannel', channel: 'somechannel' },
+            { type: 'sendMessage', channel: 'somechannel', message: 'hello chat' },
+            { type: 'moderate', channel: 'somechannel', action: 'ban', username: 'troll', messageId: undefined },
+            { type: 'moderate', channel: 'somechannel', action: 'delete', username: 'troll', messageId: 'abc-123' },
+            { type: 'toggleChatMode', channel: 'somechannel', mode: 'shield', enabled: undefined, value: undefined },
+            { type: 'toggleChatMode', channel: 'somechannel', mode: 'slowMode', enabled: true, value: 30 },
+            { type: 'toggleChatMode', channel: 'somechannel', mode: 'followersOnly', enabled: false, value: 0 },
+            { type: 'runCommand', channel: 'somechannel', name: 'hello', args: [] },
+            { type: 'runCommand', channel: 'somechannel', name: 'so', args: ['streamer', 'now'] },
+            {
+                type: 'searchHistory',
+                channel: 'somechannel',
+                query: { text: 'gg', username: 'viewer', badge: 'moderator', messageType: 'chat' }
+            },
+            { type: 'searchHistory', channel: 'somechannel', query: { text: undefined, username: undefined, badge: undefined, messageType: undefined } },
+            { type: 'loadHistoryContext', channel: 'somechannel', messageId: 'abc-123', timestamp: 1700000000000 },
+            { type: 'showError', message: 'Something went wrong' }
+        ];
+
+        for (const message of valid) {
+            it(`${message.type} ${JSON.stringify(message)}`, () => {
+                assert.deepEqual(parseWebviewMessage(JSON.parse(JSON.stringify(message))), message);
+            });
+        }
+    });
+
+    it('drops fields that are not part of the message type', () => {
+        assert.deepEqual(parseWebviewMessage({ type: 'signIn', channel: 'x', extra: true }), { type: 'signIn' });
+        assert.deepEqual(
+            parseWebviewMessage({ type: 'partChannel', channel: 'x', message: 'y' }),
+            { type: 'partChannel', channel: 'x' }
+        );
+    });
+
+    it('ignores optional fields of the wrong type', () => {
+        assert.deepEqual(
+            parseWebviewMessage({ type: 'moderate', channel: 'c', action: 'ban', username: 'u', messageId: 42 }),
+            { type: 'moderate', channel: 'c', action: 'ban', username: 'u', messageId: undefined }
+        );
+        assert.deepEqual(
+            parseWebviewMessage({ type: 'toggleChatMode', channel: 'c', mode: 'slowMode', enabled: 'yes', value: NaN }),
+            { type: 'toggleChatMode', channel: 'c', mode: 'slowMode', enabled: undefined, value: undefined }
+        );
+        assert.deepEqual(
+            parseWebviewMessage({ type: 'searchHistory', channel: 'c', query: { text: 5, username: ['u'] } }),
+            { type: 'searchHistory', channel: 'c', query: { text: undefined, username: undefined, badge: undefined, messageType: undefined } }
+        );
+    });
+
+    describe('rejects', () => {
+        const invalid: [string, unknown][] = [
+            ['undefined', undefined],
+            ['null', null],
+            ['a string', 'signIn'],
+            ['a number', 42],
+            ['a boolean', true],
+            ['a message without a type', { channel: 'c' }],
+            ['an unknown type', { type: 'deleteEverything' }],
+            ['a non-string type', { type: 1 }],
+            ['a type from Object.prototype', { type: 'toString' }],
+            ['partChannel without a channel', { type: 'partChannel' }],
+            ['partChannel with a numeric channel', { type: 'partChannel', channel: 1 }],
+            ['sendMessage without a message', { type: 'sendMessage', channel: 'c' }],
+            ['sendMessage with an object message', { type: 'sendMessage', channel: 'c', message: { text: 'hi' } }],
+            ['moderate without a username', { type: 'moderate', channel: 'c', action: 'ban' }],
+            ['moderate with a numeric action', { type: 'moderate', channel: 'c', action: 1, username: 'u' }],
+            ['toggleChatMode with an unknown mode', { type: 'toggleChatMode', channel: 'c', mode: 'chaos' }],
+            ['toggleChatMode without a channel', { type: 'toggleChatMode', mode: 'shield' }],
+            ['runCommand without args', { type: 'runCommand', channel: 'c', name: 'n' }],
+            ['runCommand with args that are not an array', { type: 'runCommand', channel: 'c', name: 'n', args: 'a b' }],
+            ['runCommand with non-string args', { type: 'runCommand', channel: 'c', name: 'n', args: ['a', 2] }],
+            ['searchHistory without a query', { type: 'searchHistory', channel: 'c' }],
+            ['searchHistory with a string query', { type: 'searchHistory', channel: 'c', query: 'gg' }],
+            ['searchHistory with a null query', { type: 'searchHistory', channel: 'c', query: null }],
+            ['loadHistoryContext with a string timestamp', { type: 'loadHistoryContext', channel: 'c', messageId: 'm', timestamp: '1' }],
+            ['loadHistoryContext with a NaN timestamp', { type: 'loadHistoryContext', channel: 'c', messageId: 'm', timestamp: NaN }],
+            ['loadHistoryContext without a messageId', { type: 'loadHistoryContext', channel: 'c', timestamp: 1 }],
+            ['showError without a message', { type: 'showError' }]
+        ];
+
+        for (const [description, raw] of invalid) {
+            it(description, () => {
+                assert.equal(parseWebviewMessage(raw), undefined);
+            });
+        }
+    });
+});
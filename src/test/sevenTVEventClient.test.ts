@@ -0,0 +1,267 @@
+import { log, outputChannel, settings } from './vscodeMock';
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import type * as vscode from 'vscode';
+import { EmoteService, EmoteSetChange } from '../emoteService';
+import { SevenTVEmoteSetUpdate, SevenTVEventClient } from '../sevenTVEventClient';
+
+/**
+ * 7TV EventAPI stub keeping every connection and the messages received on it
+ */
+class StubServer {
+    readonly connections: { socket: WebSocket; received: any[] }[] = [];
+    private readonly server = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+
+    constructor() {
+        this.server.on('connection', (socket) => {
+            const connection = { socket, received: [] as any[] };
+            socket.on('message', data => connection.received.push(JSON.parse(data.toString())));
+            this.connections.push(connection);
+        });
+    }
+
+    async url(): Promise<string> {
+        if (!this.server.address()) {
+            await new Promise(resolve => this.server.once('listening', resolve));
+        }
+        return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}/v3`;
+    }
+
+    stop(): Promise<void> {
+        for (const client of this.server.clients) {
+            client.terminate();
+        }
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+}
+
+function hello(socket: WebSocket) {
+    socket.send(JSON.stringify({ op: 1, d: { heartbeat_interval: 25000, session_id: 'session' } }));
+}
+
+function subscription(op: number, setId: string) {
+    return { op, d: { type: 'emote_set.update', condition: { object_id: setId } } };
+}
+
+function activeEmote(id: string, name: string) {
+    return { id, name, data: { host: { url: `//cdn.7tv.app/emote/${id}` } } };
+}
+
+/**
+ * Wait for a condition that changes through socket I/O
+ * Polls with setImmediate, so it keeps working while setTimeout is mocked
+ */
+async function waitUntil(condition: () => boolean, description: string) {
+    for (let i = 0; i < 20000; i++) {
+        if (condition()) {
+            return;
+        }
+        await new Promise(resolve => setImmediate(resolve));
+    }
+    assert.fail(`Timed out waiting until ${description}`);
+}
+
+/**
+ * Wait long enough for anything already sent over localhost to have arrived
+ */
+function settle(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 100));
+}
+
+describe('SevenTVEventClient', () => {
+    let server: StubServer;
+    let updates: SevenTVEmoteSetUpdate[];
+    let client: SevenTVEventClient;
+
+    beforeEach(async () => {
+        server = new StubServer();
+        updates = [];
+        log.length = 0;
+        const url = await server.url();
+        client = new SevenTVEventClient(() => url, update => updates.push(update), outputChannel);
+    });
+
+    afterEach(async () => {
+        mock.timers.reset();
+        client.dispose();
+        await server.stop();
+        // Let the client finish closing, so the next test can't mock the timers ws clears then
+        await settle();
+    });
+
+    it('subscribes once the hello message arrives', async () => {
+        client.subscribe('first', 'set-1');
+        client.subscribe('second', 'set-1');
+        await waitUntil(() => server.connections.length === 1, 'the client connects');
+        assert.deepEqual(server.connections[0].received, []);
+
+        hello(server.connections[0].socket);
+        await waitUntil(() => server.connections[0].received.length > 0, 'the subscription is sent');
+
+        assert.deepEqual(server.connections[0].received, [subscription(35, 'set-1')]);
+    });
+
+    it('switches the set of a key on the open connection', async () => {
+        client.subscribe('channel', 'set-1');
+        await waitUntil(() => server.connections.length === 1, 'the client connects');
+        const connection = server.connections[0];
+        hello(connection.socket);
+        await waitUntil(() => connection.received.length === 1, 'the subscription is sent');
+
+        client.subscribe('channel', 'set-2');
+        await waitUntil(() => connection.received.length === 3, 'the set is switched');
+
+        assert.deepEqual(connection.received.slice(1), [subscription(36, 'set-1'), subscription(35, 'set-2')]);
+        assert.equal(connection.socket.readyState, WebSocket.OPEN);
+        assert.equal(server.connections.length, 1);
+    });
+
+    it('keeps a set another key still watches', async () => {
+        client.subscribe('first', 'set-1');
+        client.subscribe('second', 'set-1');
+        await waitUntil(() => server.connections.length === 1, 'the client connects');
+        const connection = server.connections[0];
+        hello(connection.socket);
+        await waitUntil(() => connection.received.length === 1, 'the subscription is sent');
+
+        client.subscribe('first', 'set-2');
+        await waitUntil(() => connection.received.length === 2, 'the new set is subscribed');
+
+        assert.deepEqual(connection.received[1], subscription(35, 'set-2'));
+    });
+
+    it('resubscribes on a new connection after the Reconnect opcode', async () => {
+        mock.timers.enable({ apis: ['setTimeout'] });
+        client.subscribe('channel', 'set-1');
+        await waitUntil(() => server.connections.length === 1, 'the client connects');
+        hello(server.connections[0].socket);
+        await waitUntil(() => server.connections[0].received.length === 1, 'the subscription is sent');
+
+        server.connections[0].socket.send(JSON.stringify({ op: 4, d: {} }));
+        await waitUntil(() => log.includes('7TV EventAPI: reconnecting in 1s'), 'the reconnect is scheduled');
+        mock.timers.tick(1000);
+        await waitUntil(() => server.connections.length === 2, 'the client reconnects');
+        hello(server.connections[1].socket);
+        await waitUntil(() => server.connections[1].received.length === 1, 'the subscription is sent again');
+
+        assert.deepEqual(server.connections[1].received, [subscription(35, 'set-1')]);
+    });
+});
+
+describe('EmoteService live 7TV updates', () => {
+    const CHANNEL_USER_ID = '1234';
+    let cacheRoot: string;
+    let server: StubServer;
+    let emoteService: EmoteService;
+    let changes: EmoteSetChange[];
+
+    before(() => {
+        // Only the channel's 7TV set, which is read from a fresh cache instead of the 7TV API
+        settings.set('twitchChat.emotes.ffz', false);
+        settings.set('twitchChat.emotes.bttv', false);
+        settings.set('twitchChat.emotes.includeGlobal', false);
+    });
+
+    after(() => {
+        for (const key of ['ffz', 'bttv', 'includeGlobal', '7tvEventApiUrl']) {
+            settings.delete(`twitchChat.emotes.${key}`);
+        }
+    });
+
+    beforeEach(async () => {
+        cacheRoot = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'twitch-chat-emotes-'));
+        await fs.promises.mkdir(path.join(cacheRoot, 'emotes'));
+        await fs.promises.writeFile(path.join(cacheRoot, 'emotes', `7tv-channel-${CHANNEL_USER_ID}.json`), JSON.stringify({
+            fetchedAt: Date.now(),
+            emotes: [['catJAM', 'https://cdn.7tv.app/emote/e1/1x.webp'], ['Clap', 'https://cdn.7tv.app/emote/e2/1x.webp']],
+            setId: 'set-1'
+        }));
+
+        server = new StubServer();
+        settings.set('twitchChat.emotes.7tvEventApiUrl', await server.url());
+        log.length = 0;
+        changes = [];
+        emoteService = new EmoteService(outputChannel, { fsPath: cacheRoot } as vscode.Uri);
+        emoteService.onDidChangeEmotes(change => changes.push(change));
+    });
+
+    afterEach(async () => {
+        emoteService.dispose();
+        await server.stop();
+        await settle();
+        await fs.promises.rm(cacheRoot, { recursive: true, force: true });
+    });
+
+    /**
+     * Load the channel's emotes and complete the EventAPI handshake
+     */
+    async function joinChannel() {
+        await emoteService.fetchAllEmotes('channel', CHANNEL_USER_ID);
+        await waitUntil(() => server.connections.length === 1, 'the client connects');
+        hello(server.connections[0].socket);
+        await waitUntil(() => server.connections[0].received.length === 1, 'the subscription is sent');
+        return server.connections[0].socket;
+    }
+
+    it('watches the emote set of a joined channel', async () => {
+        await joinChannel();
+        assert.deepEqual(server.connections[0].received, [subscription(35, 'set-1')]);
+    });
+
+    it('applies pushed, pulled and updated emotes', async () => {
+        const socket = await joinChannel();
+
+        socket.send(JSON.stringify({
+            op: 0,
+            d: {
+                type: 'emote_set.update',
+                body: {
+                    id: 'set-1',
+                    actor: { username: 'editor', display_name: 'Editor' },
+                    pushed: [{ key: 'emotes', index: 2, value: activeEmote('e3', 'PogU') }],
+                    pulled: [{ key: 'emotes', index: 1, old_value: activeEmote('e2', 'Clap') }],
+                    updated: [{ key: 'emotes', index: 0, old_value: activeEmote('e1', 'catJAM'), value: activeEmote('e1', 'catDance') }]
+                }
+            }
+        }));
+        await waitUntil(() => changes.length === 1, 'the change is applied');
+
+        assert.deepEqual(changes[0], {
+            channel: 'channel',
+            actor: 'Editor',
+            changes: [
+                { action: 'removed', name: 'Clap' },
+                { action: 'added', name: 'PogU' },
+                { action: 'renamed', name: 'catDance', oldName: 'catJAM' }
+            ]
+        });
+        assert.deepEqual(Object.fromEntries(emoteService.getActiveEmotes('channel')), {
+            PogU: 'https://cdn.7tv.app/emote/e3/1x.webp',
+            // A rename keeps the emote's image
+            catDance: 'https://cdn.7tv.app/emote/e1/1x.webp'
+        });
+    });
+
+    it('ignores updates to other sets and other keys', async () => {
+        const socket = await joinChannel();
+
+        socket.send(JSON.stringify({
+            op: 0,
+            d: { type: 'emote_set.update', body: { id: 'set-2', pushed: [{ key: 'emotes', value: activeEmote('e4', 'Other') }] } }
+        }));
+        socket.send(JSON.stringify({
+            op: 0,
+            d: { type: 'emote_set.update', body: { id: 'set-1', updated: [{ key: 'name', old_value: 'Old', value: 'New' }] } }
+        }));
+        socket.send(JSON.stringify({ op: 2, d: {} }));
+        await settle();
+
+        assert.deepEqual(changes, []);
+        assert.equal(emoteService.getActiveEmotes('channel').size, 2);
+    });
+});
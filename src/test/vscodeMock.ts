@@ -0,0 +1,63 @@
+import Module = require('module');
+
+/**
+ * Stand-in for the parts of the `vscode` module the network clients use,
+ * so they can be loaded outside the extension host
+ * Import this before the module under test
+ */
+
+/** Setting values by full key, e.g. 'twitchChat.helixBaseUrl' */
+export const settings = new Map<string, unknown>();
+
+/** Lines written to `outputChannel`, for checking what was logged */
+export const log: string[] = [];
+
+export const outputChannel = {
+    appendLine: (line: string) => {
+        log.push(line);
+    }
+} as unknown as import('vscode').OutputChannel;
+
+class EventEmitter<T> {
+    private listeners: ((value: T) => void)[] = [];
+
+    readonly event = (listener: (value: T) => void) => {
+        this.listeners.push(listener);
+        return { dispose: () => this.listeners = this.listeners.filter(other => other !== listener) };
+    };
+
+    fire(value: T) {
+        for (const listener of this.listeners.slice()) {
+            listener(value);
+        }
+    }
+
+    dispose() {
+        this.listeners = [];
+    }
+}
+
+const vscode = {
+    EventEmitter,
+    Disposable: class {
+        constructor(private readonly callOnDispose: () => void) { }
+        dispose() {
+            this.callOnDispose();
+        }
+    },
+    workspace: {
+        getConfiguration: (section: string) => ({
+            get: <T>(key: string, defaultValue?: T) => {
+                const fullKey = `${section}.${key}`;
+                return settings.has(fullKey) ? settings.get(fullKey) as T : defaultValue;
+            }
+        })
+    }
+};
+
+// Module._load isn't in the typings
+const loader = Module as unknown as { _load: (request: string, ...rest: unknown[]) => unknown };
+const load = loader._load;
+loader._load = function (request: string, ...rest: unknown[]) {
+    return request === 'vscode' ? vscode : load.call(this, request, ...rest);
+};
@@ -38,7 +38,7 @@ declare module 'tmi.js' {
         };
         identity?: {
             username?: string;
-            password?: string;
+            password?: string | (() => string | Promise<string>);
         } | undefined;
         channels?: string[];
     }
@@ -1,25 +1,64 @@
 import * as vscode from 'vscode';
-import { TwitchClient, TwitchMessage } from './twitchClient';
-import { TwitchAuthProvider } from './authProvider';
+import { TwitchClient } from './twitchClient';
+import { ChatEvent, ChatMode, HostToWebviewMessage, RoomState, SearchQuery, TwitchMessage, parseWebviewMessage } from './protocol';
+import { getFragments } from './messageTokenizer';
+import { AuthSession, TwitchAuthProvider } from './authProvider';
+import { ChatCommand } from './api';
+import { HelixClient } from './helixClient';
+import { ChatLogger } from './chatLogger';
+import { BadgeService, getMessageBadges } from './badgeService';
+import { EmoteService } from './emoteService';
+import { MentionMatcher } from './mentionMatcher';
+import { config as extensionConfig } from './config';
 
 export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
+    /** Names of the webview's built-in slash commands, which API commands can't override */
+    private static readonly BUILT_IN_COMMANDS = [
+        'ban', 'unban', 'emoteonly', 'emoteonlyoff', 'followers', 'followersoff', 'shield', 'shieldoff',
+        'slow', 'slowoff', 'subscribers', 'subscribersoff', 'timeout', 'untimeout'
+    ];
+
     private _view?: vscode.WebviewView;
     private twitchClient: TwitchClient;
     private unreadCount: number = 0;
+    // Highlighted messages (mentions, keywords) among the unread ones
+    private mentionCount: number = 0;
+    private lastNotificationAt: number = 0;
+    private mentionMatcher: MentionMatcher;
     private isViewVisible: boolean = false;
     private isViewActive: boolean = false;
     private outputChannel: vscode.OutputChannel;
     private authProvider: TwitchAuthProvider;
+    private sessionsChangedListener: vscode.Disposable;
+    private emoteChoicesListener: vscode.Disposable;
+    private updateQueue: Promise<void> = Promise.resolve();
+    private moderatorScopesDeclined: boolean = false;
+    private moderatorScopesOffered: boolean = false;
+    private customCommands: Map<string, ChatCommand> = new Map();
+    // Chat events waiting to be posted to the webview as one batch
+    private pendingEvents: ChatEvent[] = [];
+    private batchTimer: NodeJS.Timeout | undefined;
+    private readonly eventEmitter = new vscode.EventEmitter<ChatEvent>();
+    /** Fires for every chat event, including messages sent from this extension */
+    readonly onDidReceiveEvent = this.eventEmitter.event;
 
     constructor(
         private readonly _extensionUri: vscode.Uri,
         outputChannel: vscode.OutputChannel,
-        authProvider: TwitchAuthProvider
+        authProvider: TwitchAuthProvider,
+        private readonly globalState: vscode.Memento,
+        helix: HelixClient,
+        private readonly chatLogger: ChatLogger,
+        emoteService: EmoteService,
+        badgeService: BadgeService
     ) {
         this.outputChannel = outputChannel;
         this.authProvider = authProvider;
         this.outputChannel.appendLine('TwitchChatViewProvider constructor called');
-        this.twitchClient = new TwitchClient((message) => this.handleMessage(message), outputChannel);
+        this.twitchClient = new TwitchClient((event) => this.handleEvent(event), outputChannel, helix, emoteService, badgeService);
+        this.mentionMatcher = new MentionMatcher(outputChannel);
+        this.sessionsChangedListener = authProvider.onDidChangeSessions((event) => this.handleSessionsChanged(event));
+        this.emoteChoicesListener = this.twitchClient.onDidChangeEmoteChoices((channel) => this.sendEmoteChoices(channel));
     }
 
     /**
@@ -43,6 +82,8 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
 
         this.outputChannel.appendLine('Setting webview HTML...');
         webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
+        this.sendCustomCommands();
+        this.sendEmoteChoices();
 
         // Track visibility and active state
         webviewView.onDidChangeVisibility(() => {
@@ -53,6 +94,7 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
                 // View is visible - always clear unread count
                 this.isViewActive = true;
                 this.unreadCount = 0;
+                this.mentionCount = 0;
                 // Force badge update multiple times to ensure it clears
                 this._view!.badge = undefined;
                 setTimeout(() => {
@@ -71,23 +113,52 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
         });
 
         // Listen for messages from webview
-        webviewView.webview.onDidReceiveMessage(async (message) => {
-            if (message.type === 'webviewFocused') {
-                this.isViewActive = true;
-                // Always clear when webview reports focus, regardless of previous state
-                this.clearUnreadCount();
-            } else if (message.type === 'signIn') {
-                await this.signIn();
-            } else if (message.type === 'signOut') {
-                await this.signOut();
-            } else if (message.type === 'sendMessage') {
-                await this.sendChatMessage(message.message);
-            } else if (message.type === 'moderate') {
-                await this.moderateUser(message.action, message.username, message.messageId);
-            } else if (message.type === 'toggleChatMode') {
-                await this.toggleChatMode(message.mode, message.enabled, message.value);
-            } else if (message.type === 'showError') {
-                vscode.window.showErrorMessage(message.message);
+        webviewView.webview.onDidReceiveMessage(async (raw) => {
+            const message = parseWebviewMessage(raw);
+            if (!message) {
+                this.outputChannel.appendLine(`Ignoring malformed webview message: ${JSON.stringify(raw)}`);
+                return;
+            }
+
+            switch (message.type) {
+                case 'webviewFocused':
+                    this.isViewActive = true;
+                    // Always clear when webview reports focus, regardless of previous state
+                    this.clearUnreadCount();
+                    break;
+                case 'signIn':
+                    await this.signIn();
+                    break;
+                case 'signOut':
+                    await this.signOut();
+                    break;
+                case 'sendMessage':
+                    await this.sendChatMessage(message.channel, message.message);
+                    break;
+                case 'moderate':
+                    await this.moderateUser(message.channel, message.action, message.username, message.messageId);
+                    break;
+                case 'toggleChatMode':
+                    await this.toggleChatMode(message.channel, message.mode, message.enabled, message.value);
+                    break;
+                case 'switchChannel':
+                    await this.switchChannel();
+                    break;
+                case 'partChannel':
+                    await this.partChannel(message.channel);
+                    break;
+                case 'runCommand':
+                    await this.runCustomCommand(message.channel, message.name, message.args);
+                    break;
+                case 'searchHistory':
+                    await this.searchHistory(message.channel, message.query);
+                    break;
+                case 'loadHistoryContext':
+                    await this.loadHistoryContext(message.channel, message.messageId, message.timestamp);
+                    break;
+                case 'showError':
+                    vscode.window.showErrorMessage(message.message);
+                    break;
             }
         });
 
@@ -108,37 +179,50 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
     }
 
     /**
-     * Update the connection to match the configured Twitch channel
+     * Update the connection to match the configured Twitch channels
      * Called when the configuration changes or on initial load
      * 
      * Priority:
-     * 1. If authenticated via OAuth → use authenticated user's channel
-     * 2. Otherwise → use channel from settings (anonymous mode)
+     * 1. Channels from settings, joined authenticated if signed in (so mods can open the channels they moderate)
+     * 2. If authenticated and nothing is configured → the authenticated user's own channel
+     *
+     * Calls are queued so overlapping triggers (settings, sign in/out) don't connect concurrently
      */
-    public async updateChannel() {
-        const config = vscode.workspace.getConfiguration('twitchChat');
-        const settingsChannel = config.get<string>('channel', '');
+    public updateChannel(): Promise<void> {
+        this.updateQueue = this.updateQueue.catch(() => undefined).then(() => this.connectConfiguredChannels());
+        return this.updateQueue;
+    }
+
+    /**
+     * Reload third-party emotes after the `twitchChat.emotes.*` settings changed
+     */
+    public reloadEmotes(): Promise<void> {
+        return this.twitchClient.reloadEmotes();
+    }
 
-        this.outputChannel.appendLine(`updateChannel called with settings channel: "${settingsChannel}"`);
+    private async connectConfiguredChannels() {
+        const settingsChannels = this.getConfiguredChannels();
+
+        this.outputChannel.appendLine(`updateChannel called with settings channels: "${settingsChannels.join(', ')}"`);
 
         // Check for authentication
         await this.checkAuthentication();
         const session = await this.authProvider.getSession();
         const token = await this.getAuthToken();
 
-        // Determine which channel to connect to
-        let channelToConnect: string | undefined;
+        // Determine which channels to connect to
+        let channelsToConnect: string[] = [];
         let isAuthenticatedMode = false;
 
         if (session && session.username) {
-            // Authenticated: use the authenticated user's own channel
-            channelToConnect = session.username;
+            // Authenticated: use configured channels, falling back to the user's own channel
+            channelsToConnect = settingsChannels.length > 0 ? settingsChannels : [session.username];
             isAuthenticatedMode = true;
-            this.outputChannel.appendLine(`Authenticated as ${session.username} - connecting to own channel`);
-        } else if (settingsChannel && settingsChannel.trim() !== '') {
-            // Not authenticated: use channel from settings (anonymous mode)
-            channelToConnect = settingsChannel;
-            this.outputChannel.appendLine(`Anonymous mode - connecting to configured channel: ${settingsChannel}`);
+            this.outputChannel.appendLine(`Authenticated as ${session.username} - connecting to: ${channelsToConnect.join(', ')}`);
+        } else if (settingsChannels.length > 0) {
+            // Not authenticated: use channels from settings (anonymous mode)
+            channelsToConnect = settingsChannels;
+            this.outputChannel.appendLine(`Anonymous mode - connecting to configured channels: ${settingsChannels.join(', ')}`);
         } else {
             // No authentication and no channel configured
             this.outputChannel.appendLine('No authentication and no channel configured');
@@ -154,49 +238,214 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
             return;
         }
 
-        // Connect to the determined channel
-        if (channelToConnect) {
-            try {
-                this.outputChannel.appendLine(`Attempting to connect to Twitch channel: ${channelToConnect}`);
-                await this.twitchClient.connect(channelToConnect, token);
-                this.outputChannel.appendLine(`Successfully connected to channel: ${channelToConnect}`);
+        // Connect to the determined channels
+        try {
+            this.outputChannel.appendLine(`Attempting to connect to Twitch channels: ${channelsToConnect.join(', ')}`);
+            this.twitchClient.setModeratorScopesGranted(this.hasModeratorScopes(session));
+            await this.twitchClient.connect(channelsToConnect, token);
+            this.outputChannel.appendLine(`Successfully connected to channels: ${this.twitchClient.getChannels().join(', ')}`);
+            for (const channel of this.twitchClient.getChannels().reverse()) {
+                await this.addRecentChannel(channel);
+            }
 
-                this.sendMessageToWebview({
-                    type: 'connectionStatus',
-                    status: 'connected',
-                    channel: channelToConnect
-                });
+            this.sendConnectedStatus();
+
+            this.sendMessageToWebview({
+                type: 'authStatus',
+                isAuthenticated: isAuthenticatedMode,
+                username: session?.username || this.twitchClient.getUsername()
+            });
+        } catch (error) {
+            this.outputChannel.appendLine(`ERROR connecting to channels: ${error}`);
+            vscode.window.showErrorMessage(`Failed to connect to Twitch channels: ${channelsToConnect.join(', ')}`);
+            this.sendMessageToWebview({
+                type: 'connectionStatus',
+                status: 'error',
+                error: 'Failed to connect'
+            });
+        }
+    }
+
+    /**
+     * Read the channels to join from settings
+     * Combines the single `twitchChat.channel` setting with the `twitchChat.channels` list
+     * @returns De-duplicated, lowercase channel names
+     */
+    private getConfiguredChannels(): string[] {
+        const config = vscode.workspace.getConfiguration('twitchChat');
+        const channels = [config.get<string>('channel', ''), ...config.get<string[]>('channels', [])]
+            .map(channel => channel.replace('#', '').toLowerCase().trim())
+            .filter(channel => channel !== '');
+        return Array.from(new Set(channels));
+    }
+
+    /**
+     * Tell the webview which channels are currently joined
+     */
+    private sendConnectedStatus() {
+        this.sendMessageToWebview({
+            type: 'connectionStatus',
+            status: 'connected',
+            channels: this.twitchClient.getChannels()
+        });
+    }
+
+    /**
+     * Show the channel switcher quick pick
+     * Lists joined and recent channels, and accepts any typed channel name
+     * Picking a joined channel focuses its tab, picking any other channel joins it
+     */
+    public async switchChannel() {
+        const joined = this.twitchClient.getChannels();
+        const recent = this.getRecentChannels().filter(channel => !joined.includes(channel));
+
+        const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem & { channel: string }>();
+        quickPick.title = 'Switch Twitch Channel';
+        quickPick.placeholder = 'Type a channel name or pick a recent channel';
+
+        const baseItems: (vscode.QuickPickItem & { channel: string })[] = [
+            ...joined.map(channel => ({ label: `#${channel}`, description: 'joined', channel })),
+            ...recent.map(channel => ({ label: `#${channel}`, description: 'recent', channel }))
+        ];
+        quickPick.items = baseItems;
+
+        quickPick.onDidChangeValue(value => {
+            const typed = value.replace('#', '').toLowerCase().trim();
+            if (typed && !baseItems.some(item => item.channel === typed)) {
+                quickPick.items = [{ label: `#${typed}`, description: 'join channel', channel: typed, alwaysShow: true }, ...baseItems];
+            } else {
+                quickPick.items = baseItems;
+            }
+        });
+
+        const picked = await new Promise<string | undefined>(resolve => {
+            quickPick.onDidAccept(() => {
+                resolve(quickPick.selectedItems[0]?.channel);
+                quickPick.hide();
+            });
+            quickPick.onDidHide(() => resolve(undefined));
+            quickPick.show();
+        });
+        quickPick.dispose();
+
+        if (picked) {
+            await this.openChannel(picked);
+        }
+    }
+
+    /**
+     * Join a channel (authenticated if signed in) and focus its tab
+     * @param channel The channel to open
+     */
+    private async openChannel(channel: string) {
+        channel = channel.replace('#', '').toLowerCase().trim();
+        if (!channel) {
+            return;
+        }
 
+        try {
+            if (this.twitchClient.isConnected()) {
+                await this.twitchClient.joinChannel(channel);
+            } else {
+                const session = await this.authProvider.getSession();
+                this.twitchClient.setModeratorScopesGranted(this.hasModeratorScopes(session));
+                await this.twitchClient.connect([channel], await this.getAuthToken());
                 this.sendMessageToWebview({
                     type: 'authStatus',
-                    isAuthenticated: isAuthenticatedMode,
+                    isAuthenticated: session !== undefined,
                     username: session?.username || this.twitchClient.getUsername()
                 });
-            } catch (error) {
-                this.outputChannel.appendLine(`ERROR connecting to channel: ${error}`);
-                vscode.window.showErrorMessage(`Failed to connect to Twitch channel: ${channelToConnect}`);
-                this.sendMessageToWebview({
-                    type: 'connectionStatus',
-                    status: 'error',
-                    error: 'Failed to connect'
-                });
             }
+            await this.addRecentChannel(channel);
+            this.sendConnectedStatus();
+            this.sendMessageToWebview({
+                type: 'activateChannel',
+                channel: channel
+            });
+        } catch (error) {
+            this.outputChannel.appendLine(`Error joining channel: ${error}`);
+            vscode.window.showErrorMessage(`Failed to join Twitch channel: ${channel}`);
         }
     }
 
-    private handleMessage(message: TwitchMessage) {
+    /**
+     * Get the recently opened channels, most recent first
+     */
+    private getRecentChannels(): string[] {
+        return this.globalState.get<string[]>(extensionConfig.storage.recentChannelsKey, []);
+    }
+
+    /**
+     * Remember a channel in the recent channels list
+     * @param channel The channel that was opened
+     */
+    private async addRecentChannel(channel: string) {
+        const recent = [channel, ...this.getRecentChannels().filter(c => c !== channel)]
+            .slice(0, extensionConfig.maxRecentChannels);
+        await this.globalState.update(extensionConfig.storage.recentChannelsKey, recent);
+    }
+
+    /**
+     * Leave a channel and close its tab
+     * @param channel The channel to leave
+     */
+    private async partChannel(channel: string) {
+        await this.twitchClient.partChannel(channel);
+        this.sendConnectedStatus();
+    }
+
+    /**
+     * Forward a chat event from the TwitchClient to the webview
+     * @param event The chat event
+     */
+    private handleEvent(event: ChatEvent) {
+        if (event.type === 'message') {
+            const highlight = this.mentionMatcher.match(event.message, this.twitchClient.getUsername());
+            if (highlight) {
+                event.message.highlight = highlight;
+                this.handleHighlight(event.message);
+            }
+        } else if (event.type === 'permissions' && event.isModerator) {
+            this.offerModeratorScopes(event.channel).catch(error => {
+                this.outputChannel.appendLine(`Failed to request moderator permissions: ${error}`);
+            });
+        }
+
         // Only increment unread counter for actual chat messages (not subscriptions, bits, system messages, etc.)
-        const isChatMessage = !message.messageType || message.messageType === 'chat';
+        const isChatMessage = event.type === 'message' && (!event.message.messageType || event.message.messageType === 'chat');
         const shouldIncrement = isChatMessage && (!this.isViewVisible || !this.isViewActive);
 
         if (shouldIncrement) {
             this.incrementUnreadCount();
         }
 
-        this.sendMessageToWebview({
-            type: 'chatMessage',
-            message: message
-        });
+        this.queueEvent(event);
+        this.eventEmitter.fire(event);
+    }
+
+    /**
+     * Queue a chat event for the webview
+     * Events are posted in batches so floods don't cost one postMessage (and one layout) per line
+     * @param event The chat event
+     */
+    private queueEvent(event: ChatEvent) {
+        this.pendingEvents.push(event);
+        if (!this.batchTimer) {
+            this.batchTimer = setTimeout(() => this.flushEvents(), extensionConfig.webview.batchIntervalMs);
+        }
+    }
+
+    private flushEvents() {
+        if (this.batchTimer) {
+            clearTimeout(this.batchTimer);
+            this.batchTimer = undefined;
+        }
+
+        const events = this.pendingEvents;
+        this.pendingEvents = [];
+        if (events.length > 0) {
+            this.sendMessageToWebview({ type: 'chatEvents', events: events });
+        }
     }
 
     private updateActiveState() {
@@ -209,7 +458,11 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
         }
     }
 
-    private sendMessageToWebview(message: any) {
+    private sendMessageToWebview(message: HostToWebviewMessage) {
+        // Queued chat events go first so the webview sees everything in order
+        if (message.type !== 'chatEvents' && this.pendingEvents.length > 0) {
+            this.flushEvents();
+        }
         if (this._view) {
             this._view.webview.postMessage(message);
         }
@@ -222,25 +475,80 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
 
     private clearUnreadCount() {
         this.unreadCount = 0;
+        this.mentionCount = 0;
+        this.updateBadge();
+    }
+
+    /**
+     * Count a highlighted message the user hasn't seen, and alert them if the panel is hidden
+     * @param message The highlighted message
+     */
+    private handleHighlight(message: TwitchMessage) {
+        if (this.isViewVisible && this.isViewActive) {
+            return;
+        }
+
+        this.mentionCount++;
         this.updateBadge();
+        if (!this.isViewVisible) {
+            this.notifyHighlight(message);
+        }
+    }
+
+    /**
+     * Alert the user to a highlighted message as configured in `twitchChat.highlights.notify`
+     * @param message The highlighted message
+     */
+    private notifyHighlight(message: TwitchMessage) {
+        const mode = vscode.workspace.getConfiguration('twitchChat.highlights').get<string>('notify', 'off');
+        const text = `${message.displayName} in #${message.channel}: ${message.message}`;
+
+        if (mode === 'statusBar') {
+            vscode.window.setStatusBarMessage(`$(mention) ${text}`, extensionConfig.highlights.statusBarFlashMs);
+        } else if (mode === 'notification') {
+            const now = Date.now();
+            if (now - this.lastNotificationAt < extensionConfig.highlights.notificationCooldownMs) {
+                return;
+            }
+            this.lastNotificationAt = now;
+
+            vscode.window.showInformationMessage(text, 'Open Chat').then(choice => {
+                if (choice) {
+                    vscode.commands.executeCommand('twitchChatView.focus');
+                    this.sendMessageToWebview({ type: 'activateChannel', channel: message.channel });
+                }
+            });
+        }
+    }
+
+    /**
+     * Re-read the highlight keywords and patterns after a settings change
+     * Applies to messages that arrive from now on
+     */
+    updateHighlights() {
+        this.mentionMatcher.reload();
     }
 
     private updateBadge() {
         if (this._view) {
-            if (this.unreadCount > 0) {
+            if (this.unreadCount > 0 || this.mentionCount > 0) {
+                const unread = `${this.unreadCount} unread message${this.unreadCount === 1 ? '' : 's'}`;
+                // Mentions take over the badge number, the unread total moves to the tooltip
                 this._view.badge = {
-                    value: this.unreadCount,
-                    tooltip: `${this.unreadCount} unread message${this.unreadCount > 1 ? 's' : ''}`
+                    value: this.mentionCount || this.unreadCount,
+                    tooltip: this.mentionCount > 0
+                        ? `${this.mentionCount} mention${this.mentionCount === 1 ? '' : 's'}, ${unread}`
+                        : unread
                 };
             } else {
                 // Workaround: Set to null, then use empty object, then undefined
                 this._view.badge = null as any;
                 setTimeout(() => {
-                    if (this._view && this.unreadCount === 0) {
+                    if (this._view && this.unreadCount === 0 && this.mentionCount === 0) {
                         // Try setting to an empty-ish badge
                         this._view.badge = { value: 0, tooltip: '' } as any;
                         setTimeout(() => {
-                            if (this._view && this.unreadCount === 0) {
+                            if (this._view && this.unreadCount === 0 && this.mentionCount === 0) {
                                 this._view.badge = undefined;
                             }
                         }, 10);
@@ -336,15 +644,94 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
             transform: translateY(1px);
         }
 
-        /* Scrollable chat area in middle */
-        #chat-container {
+        /* Channel tabs below the status bar */
+        #channel-tabs {
+            display: flex;
+            gap: 4px;
+            margin-top: 8px;
+            overflow-x: auto;
+        }
+
+        #channel-tabs:empty {
+            display: none;
+        }
+
+        .channel-tab {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            padding: 4px 10px;
+            border-radius: 3px 3px 0 0;
+            border-bottom: 2px solid transparent;
+            cursor: pointer;
+            font-size: 12px;
+            white-space: nowrap;
+            opacity: 0.7;
+        }
+
+        .channel-tab:hover {
+            background-color: var(--vscode-list-hoverBackground);
+        }
+
+        .channel-tab.active {
+            opacity: 1;
+            border-bottom-color: var(--vscode-focusBorder);
+            background-color: var(--vscode-tab-activeBackground);
+        }
+
+        .channel-tab-unread {
+            background-color: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+            border-radius: 8px;
+            padding: 0 6px;
+            font-size: 10px;
+        }
+
+        .channel-tab-unread:empty {
+            display: none;
+        }
+
+        .channel-tab-close {
+            opacity: 0.6;
+        }
+
+        .channel-tab-close:hover {
+            opacity: 1;
+        }
+
+        #add-channel-btn {
+            padding: 4px 8px;
+            background: none;
+            border: none;
+            color: var(--vscode-foreground);
+            cursor: pointer;
+            font-size: 14px;
+        }
+
+        #add-channel-btn:hover {
+            background-color: var(--vscode-list-hoverBackground);
+            border-radius: 3px;
+        }
+
+        /* Scrollable chat area in middle (one feed per channel) */
+        #chat-area {
+            flex: 1;
+            display: flex;
+            min-height: 0;
+            position: relative;
+        }
+
+        .chat-container {
             flex: 1;
             overflow-y: auto;
             overflow-x: hidden;
             padding: 10px;
-            display: flex;
+            display: none;
             flex-direction: column;
-            gap: 8px;
+        }
+
+        .chat-container.active {
+            display: flex;
         }
 
         .chat-message {
@@ -352,10 +739,50 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
             border-radius: 4px;
             background-color: var(--vscode-editor-background);
             word-wrap: break-word;
-            animation: slideIn 0.2s ease-out;
             transition: opacity 0.3s ease, text-decoration 0.3s ease;
         }
 
+        .chat-message.animate {
+            animation: slideIn 0.2s ease-out;
+        }
+
+        .chat-message.removing {
+            opacity: 0.3;
+            text-decoration: line-through;
+        }
+
+        /* Only the rows near the viewport are rendered; the spacers stand in for the rest */
+        .virtual-spacer {
+            flex-shrink: 0;
+        }
+
+        .virtual-rows {
+            display: flex;
+            flex-direction: column;
+            gap: 8px;
+            flex-shrink: 0;
+        }
+
+        #scroll-to-bottom {
+            position: absolute;
+            bottom: 12px;
+            left: 50%;
+            transform: translateX(-50%);
+            display: none;
+            padding: 4px 12px;
+            border: none;
+            border-radius: 12px;
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            font-size: 11px;
+            cursor: pointer;
+            box-shadow: 0 2px 6px rgba(0, 0, 0, 0.3);
+        }
+
+        #scroll-to-bottom.visible {
+            display: block;
+        }
+
         .chat-message.bits {
             background-color: var(--vscode-inputValidation-infoBackground);
             border-left: 3px solid #9147ff;
@@ -369,6 +796,17 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
             font-weight: 500;
         }
 
+        /* Mentions of the signed-in user and twitchChat.highlights keyword matches */
+        .chat-message.highlight-mention,
+        .chat-message.highlight-keyword {
+            background-color: var(--vscode-editor-findMatchHighlightBackground);
+            border-left: 3px solid var(--vscode-editorWarning-foreground);
+        }
+
+        .chat-message.highlight-mention {
+            border-left-color: var(--vscode-editorError-foreground);
+        }
+
         .chat-message.system {
             background-color: transparent;
             color: var(--vscode-descriptionForeground);
@@ -456,6 +894,14 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
             background-color: var(--vscode-list-hoverBackground);
         }
 
+        .chat-container:not(.can-moderate) .username {
+            cursor: default;
+        }
+
+        .chat-container:not(.can-moderate) .username:hover {
+            background-color: transparent;
+        }
+
         .username-self {
             cursor: default !important;
         }
@@ -505,8 +951,9 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
             margin: 4px 0;
         }
 
-        /* Command Autocomplete */
-        #command-autocomplete {
+        /* Command, emote and mention autocomplete */
+        #command-autocomplete,
+        #word-autocomplete {
             position: absolute;
             bottom: 100%;
             left: 10px;
@@ -551,48 +998,299 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
             margin-top: 2px;
         }
 
-        #settings-gear {
-            padding: 4px 10px;
-            background: none;
-            border: none;
-            color: var(--vscode-foreground);
-            cursor: pointer;
-            font-size: 16px;
+        .completion-item {
             display: flex;
             align-items: center;
-            justify-content: center;
+            gap: 8px;
         }
 
-        #settings-gear:hover {
-            background-color: var(--vscode-list-hoverBackground);
-            border-radius: 3px;
+        .completion-item img {
+            height: 24px;
+            min-width: 24px;
+            object-fit: contain;
         }
 
-        .timestamp {
-            font-size: 11px;
-            opacity: 0.6;
+        .completion-item .command-description {
+            margin-top: 0;
             margin-left: auto;
         }
 
-        .message-content {
-            padding-left: 4px;
-            line-height: 1.4;
-            font-size: 13px;
-        }
-
-        .emote {
-            display: inline-block;
-            vertical-align: middle;
-            margin: 0 2px;
-        }
-
-        a {
-            color: var(--vscode-textLink-foreground);
-            text-decoration: none;
+        /* Emote picker */
+        #emote-picker-btn {
+            padding: 4px 8px;
+            background: none;
+            border: 1px solid var(--vscode-input-border, transparent);
+            border-radius: 3px;
+            cursor: pointer;
+            font-size: 14px;
         }
 
-        a:hover {
-            text-decoration: underline;
+        #emote-picker-btn:hover {
+            background-color: var(--vscode-list-hoverBackground);
+        }
+
+        #emote-picker {
+            position: absolute;
+            bottom: 100%;
+            left: 10px;
+            right: 10px;
+            margin-bottom: 5px;
+            max-height: 320px;
+            background-color: var(--vscode-menu-background);
+            border: 1px solid var(--vscode-menu-border);
+            border-radius: 4px;
+            box-shadow: 0 -2px 8px rgba(0, 0, 0, 0.3);
+            display: none;
+            flex-direction: column;
+            z-index: 1000;
+        }
+
+        #emote-picker.open {
+            display: flex;
+        }
+
+        #emote-picker-search {
+            margin: 8px;
+            padding: 4px 8px;
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border, transparent);
+            border-radius: 3px;
+        }
+
+        #emote-picker-list {
+            overflow-y: auto;
+            padding: 0 8px 8px;
+        }
+
+        .emote-picker-group {
+            color: var(--vscode-descriptionForeground);
+            font-size: 11px;
+            font-weight: bold;
+            text-transform: uppercase;
+            margin: 8px 0 4px;
+        }
+
+        .emote-picker-grid {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 2px;
+        }
+
+        .emote-picker-item {
+            width: 36px;
+            height: 36px;
+            padding: 2px;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            background: none;
+            border: none;
+            border-radius: 3px;
+            cursor: pointer;
+        }
+
+        .emote-picker-item:hover {
+            background-color: var(--vscode-list-hoverBackground);
+        }
+
+        .emote-picker-item img {
+            max-width: 32px;
+            max-height: 32px;
+        }
+
+        .emote-picker-empty {
+            color: var(--vscode-descriptionForeground);
+            font-style: italic;
+            padding: 8px 0;
+        }
+
+        #settings-gear {
+            padding: 4px 10px;
+            background: none;
+            border: none;
+            color: var(--vscode-foreground);
+            cursor: pointer;
+            font-size: 16px;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+        }
+
+        #settings-gear:hover {
+            background-color: var(--vscode-list-hoverBackground);
+            border-radius: 3px;
+        }
+
+        /* Search bar */
+        #search-toggle, #search-close {
+            padding: 4px 8px;
+            background: none;
+            border: none;
+            color: var(--vscode-foreground);
+            cursor: pointer;
+            font-size: 13px;
+        }
+
+        #search-toggle:hover, #search-close:hover {
+            background-color: var(--vscode-list-hoverBackground);
+            border-radius: 3px;
+        }
+
+        #search-bar {
+            margin-top: 8px;
+            display: flex;
+            flex-direction: column;
+            gap: 6px;
+        }
+
+        .search-row {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+        }
+
+        #search-input {
+            flex: 1;
+            min-width: 0;
+            padding: 4px 8px;
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border);
+            border-radius: 3px;
+            font-family: var(--vscode-font-family);
+            font-size: 12px;
+        }
+
+        #search-input:focus {
+            outline: 1px solid var(--vscode-focusBorder);
+        }
+
+        #search-bar select {
+            padding: 3px 4px;
+            background-color: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border);
+            border-radius: 3px;
+            font-size: 12px;
+        }
+
+        #search-status {
+            flex: 1;
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .searching .chat-message {
+            cursor: pointer;
+        }
+
+        .chat-message.search-highlight {
+            outline: 2px solid var(--vscode-focusBorder);
+        }
+
+        /* Stored history search results and context */
+        #history-panel {
+            flex: 1;
+            display: none;
+            flex-direction: column;
+            min-height: 0;
+        }
+
+        #chat-area.history-open #history-panel {
+            display: flex;
+        }
+
+        #chat-area.history-open .chat-container.active {
+            display: none;
+        }
+
+        #history-header {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            padding: 6px 10px;
+            font-size: 12px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+
+        #history-title {
+            flex: 1;
+            color: var(--vscode-descriptionForeground);
+        }
+
+        #history-list {
+            flex: 1;
+            overflow-y: auto;
+            padding: 6px 10px;
+        }
+
+        .history-item {
+            padding: 4px 6px;
+            border-radius: 3px;
+            font-size: 12px;
+            line-height: 1.4;
+            word-wrap: break-word;
+        }
+
+        .history-item.clickable {
+            cursor: pointer;
+        }
+
+        .history-item.clickable:hover {
+            background-color: var(--vscode-list-hoverBackground);
+        }
+
+        .history-item.target {
+            background-color: var(--vscode-editor-findMatchHighlightBackground);
+            outline: 1px solid var(--vscode-focusBorder);
+        }
+
+        .history-time {
+            margin-right: 6px;
+            font-size: 11px;
+            opacity: 0.6;
+        }
+
+        .history-name {
+            font-weight: bold;
+        }
+
+        .timestamp {
+            font-size: 11px;
+            opacity: 0.6;
+            margin-left: auto;
+        }
+
+        .message-content {
+            padding-left: 4px;
+            line-height: 1.4;
+            font-size: 13px;
+        }
+
+        .emote,
+        .cheermote {
+            display: inline-block;
+            vertical-align: middle;
+            margin: 0 2px;
+        }
+
+        .cheer-amount {
+            font-weight: bold;
+            margin-right: 2px;
+        }
+
+        .mention {
+            font-weight: bold;
+        }
+
+        a {
+            color: var(--vscode-textLink-foreground);
+            text-decoration: none;
+        }
+
+        a:hover {
+            text-decoration: underline;
         }
 
         /* Fixed message input at bottom */
@@ -645,21 +1343,69 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
     <div id="header">
         <div id="status" class="no-channel">
             <div id="status-text">Configure a Twitch channel in settings</div>
+            <button id="search-toggle" title="Search chat">🔍</button>
             <button id="settings-gear" title="Settings">⚙️</button>
         </div>
+        <div id="channel-tabs-row" style="display: flex; align-items: flex-end;">
+            <div id="channel-tabs"></div>
+            <button id="add-channel-btn" title="Switch or join channel">＋</button>
+        </div>
+        <div id="search-bar" style="display: none;">
+            <div class="search-row">
+                <input type="text" id="search-input" placeholder="Search text, from:user, badge:mod, type:bits" />
+                <button id="search-close" title="Close search">✕</button>
+            </div>
+            <div class="search-row">
+                <select id="search-badge" title="Badge">
+                    <option value="">Any badge</option>
+                    <option value="moderator">Mod</option>
+                    <option value="vip">VIP</option>
+                    <option value="subscriber">Sub</option>
+                </select>
+                <select id="search-type" title="Message type">
+                    <option value="">Any type</option>
+                    <option value="chat">Chat</option>
+                    <option value="bits">Bits</option>
+                    <option value="subscription">Subscription</option>
+                    <option value="resub">Resub</option>
+                    <option value="subgift">Gift sub</option>
+                </select>
+                <span id="search-status"></span>
+                <button id="search-history-btn" class="header-btn" title="Search the saved chat log">Search History</button>
+            </div>
+        </div>
     </div>
 
     <!-- Scrollable Chat Area -->
-    <div id="chat-container"></div>
+    <div id="chat-area">
+        <!-- Stored history search results / message context -->
+        <div id="history-panel">
+            <div id="history-header">
+                <span id="history-title"></span>
+                <button id="history-back" class="header-btn">← Results</button>
+                <button id="history-close" class="header-btn">Back to Chat</button>
+            </div>
+            <div id="history-list"></div>
+        </div>
+        <button id="scroll-to-bottom">⬇ Latest messages</button>
+    </div>
 
     <!-- Fixed Message Input -->
     <div id="message-input-container" style="display: none;">
         <div class="input-wrapper">
             <input type="text" id="message-input" placeholder="Send a message..." />
+            <button id="emote-picker-btn" title="Emotes">😀</button>
             <button id="send-btn">Send</button>
         </div>
         <!-- Command Autocomplete -->
         <div id="command-autocomplete"></div>
+        <!-- Emote (:name) and mention (@name) Autocomplete -->
+        <div id="word-autocomplete"></div>
+        <!-- Emote Picker -->
+        <div id="emote-picker">
+            <input type="text" id="emote-picker-search" placeholder="Search emotes" />
+            <div id="emote-picker-list"></div>
+        </div>
     </div>
 
     <!-- Moderation Menu -->
@@ -687,7 +1433,9 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
 
     <script nonce="${nonce}">
         const vscode = acquireVsCodeApi();
-        const chatContainer = document.getElementById('chat-container');
+        const chatArea = document.getElementById('chat-area');
+        const channelTabs = document.getElementById('channel-tabs');
+        const addChannelBtn = document.getElementById('add-channel-btn');
         const statusDiv = document.getElementById('status');
         const statusText = document.getElementById('status-text');
         const settingsGear = document.getElementById('settings-gear');
@@ -699,21 +1447,450 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
         let isAuthenticated = false;
         let currentUsername = null;
         let scrollPaused = false;
-        
-        // Room state tracking
-        let roomState = {
-            shieldMode: false,
-            subsOnly: false,
-            emotesOnly: false,
-            followersOnly: false,
-            slowMode: 0
-        };
+
+        // Messages kept per channel (twitchChat.scrollbackSize)
+        let scrollbackSize = ${this.getScrollbackSize()};
+
+        // Slow chat: at most this many messages per second, the rest wait in a queue (0 = off)
+        let slowChatRate = ${this.getSlowChatRate()};
+        const SLOW_CHAT_MAX_DELAY_S = 10;
+        let slowChatQueue = [];
+        let slowChatTimer = null;
+
+        // Joined channels, each with its own feed, room state and unread count
+        const channels = {};
+        let activeChannel = null;
+
+        function createRoomState() {
+            return {
+                shieldMode: false,
+                subsOnly: false,
+                emotesOnly: false,
+                followersOnly: false,
+                slowMode: 0
+            };
+        }
+
+        // Get (or create) the tab and feed for a channel
+        function ensureChannel(name) {
+            if (channels[name]) {
+                return channels[name];
+            }
+
+            const container = document.createElement('div');
+            container.className = 'chat-container';
+            const feed = createFeed(container);
+            chatArea.appendChild(container);
+
+            const tab = document.createElement('div');
+            tab.className = 'channel-tab';
+            tab.innerHTML = '<span class="channel-tab-name"></span><span class="channel-tab-unread"></span><span class="channel-tab-close" title="Leave channel">✕</span>';
+            tab.querySelector('.channel-tab-name').textContent = '#' + name;
+            tab.addEventListener('click', () => setActiveChannel(name));
+            tab.querySelector('.channel-tab-close').addEventListener('click', (e) => {
+                e.stopPropagation();
+                vscode.postMessage({ type: 'partChannel', channel: name });
+            });
+            channelTabs.appendChild(tab);
+
+            channels[name] = { name, container, feed, tab, unread: 0, roomState: createRoomState(), canModerate: false };
+            container.addEventListener('scroll', () => handleFeedScroll(channels[name]));
+            if (!activeChannel) {
+                setActiveChannel(name);
+            }
+            return channels[name];
+        }
+
+        function removeChannel(name) {
+            const ch = channels[name];
+            if (!ch) return;
+            dropQueuedMessages(msg => msg.channel === name);
+            ch.container.remove();
+            ch.tab.remove();
+            delete channels[name];
+            emoteChoices.delete(name);
+            recentChatters.delete(name);
+            if (activeChannel === name) {
+                activeChannel = null;
+                const remaining = Object.keys(channels);
+                if (remaining.length > 0) {
+                    setActiveChannel(remaining[0]);
+                }
+            }
+        }
+
+        // Make the given channel's tab and feed visible
+        function setActiveChannel(name) {
+            const ch = channels[name];
+            if (!ch) return;
+            activeChannel = name;
+            Object.values(channels).forEach(other => {
+                const isActive = other.name === name;
+                other.tab.classList.toggle('active', isActive);
+                other.container.classList.toggle('active', isActive);
+            });
+            ch.unread = 0;
+            updateTabUnread(ch);
+            refreshRoomStateDisplay();
+            refreshModerationControls();
+            updateStatusText();
+            updateSearchStatus();
+            hideWordAutocomplete();
+            if (emotePicker.classList.contains('open')) {
+                renderEmotePicker();
+            }
+            if (!scrollPaused) {
+                ch.feed.following = true;
+            }
+            scheduleRender(ch);
+        }
+
+        // Fixed-size message history; pushing onto a full buffer drops the oldest entry
+        class RingBuffer {
+            constructor(capacity) {
+                this.items = new Array(capacity);
+                this.start = 0;
+                this.length = 0;
+            }
+
+            // Returns the entry that was dropped to make room, if any
+            push(item) {
+                const capacity = this.items.length;
+                if (this.length < capacity) {
+                    this.items[(this.start + this.length) % capacity] = item;
+                    this.length++;
+                    return undefined;
+                }
+                const evicted = this.items[this.start];
+                this.items[this.start] = item;
+                this.start = (this.start + 1) % capacity;
+                return evicted;
+            }
+
+            toArray() {
+                const result = new Array(this.length);
+                for (let i = 0; i < this.length; i++) {
+                    result[i] = this.items[(this.start + i) % this.items.length];
+                }
+                return result;
+            }
+
+            find(predicate) {
+                for (let i = this.length - 1; i >= 0; i--) {
+                    const item = this.items[(this.start + i) % this.items.length];
+                    if (predicate(item)) {
+                        return item;
+                    }
+                }
+                return undefined;
+            }
+
+            removeWhere(predicate) {
+                this.reset(this.toArray().filter(item => !predicate(item)), this.items.length);
+            }
+
+            // Change the capacity, keeping the newest entries
+            resize(capacity) {
+                this.reset(this.toArray(), capacity);
+            }
+
+            clear() {
+                this.reset([], this.items.length);
+            }
+
+            reset(items, capacity) {
+                const kept = items.slice(Math.max(0, items.length - capacity));
+                this.items = new Array(capacity);
+                kept.forEach((item, i) => { this.items[i] = item; });
+                this.start = 0;
+                this.length = kept.length;
+            }
+        }
+
+        // Virtualized feed: every message stays in the channel's ring buffer, but only the rows
+        // around the viewport are in the DOM. Row heights are measured once rendered; rows that
+        // haven't been rendered yet count with the average height so far.
+        const ROW_GAP = 8;
+        const FEED_PADDING = 10;
+        const OVERSCAN_PX = 600;
+        const rowEntries = new WeakMap();
+        let measuredRows = 0;
+        let measuredHeight = 0;
+
+        function createFeed(container) {
+            const topSpacer = document.createElement('div');
+            topSpacer.className = 'virtual-spacer';
+            const rows = document.createElement('div');
+            rows.className = 'virtual-rows';
+            const bottomSpacer = document.createElement('div');
+            bottomSpacer.className = 'virtual-spacer';
+            container.append(topSpacer, rows, bottomSpacer);
+
+            return {
+                buffer: new RingBuffer(scrollbackSize),
+                // Entries shown in the feed: all of them, or only the search matches
+                view: [],
+                viewDirty: false,
+                elements: new Map(),
+                following: true,
+                pinned: null,
+                renderPending: false,
+                topSpacer,
+                rows,
+                bottomSpacer
+            };
+        }
+
+        function rowExtent(entry) {
+            const height = entry.height !== undefined ? entry.height : (measuredRows > 0 ? measuredHeight / measuredRows : 40);
+            return height + ROW_GAP;
+        }
+
+        function offsetOf(view, index) {
+            let offset = 0;
+            for (let i = 0; i < index; i++) {
+                offset += rowExtent(view[i]);
+            }
+            return offset;
+        }
+
+        function getView(ch) {
+            const feed = ch.feed;
+            if (feed.viewDirty) {
+                const entries = feed.buffer.toArray();
+                feed.view = searchQuery ? entries.filter(entry => matchesSearch(entry.msg, searchQuery)) : entries;
+                feed.viewDirty = false;
+            }
+            return feed.view;
+        }
+
+        function invalidateFeed(ch) {
+            ch.feed.viewDirty = true;
+            scheduleRender(ch);
+        }
+
+        // Render at most once per frame, and only the visible tab
+        function scheduleRender(ch) {
+            if (ch.feed.renderPending) return;
+            ch.feed.renderPending = true;
+            requestAnimationFrame(() => {
+                ch.feed.renderPending = false;
+                if (channels[ch.name] === ch && ch.name === activeChannel) {
+                    renderFeed(ch);
+                }
+            });
+        }
+
+        // The first rendered row that reaches into the viewport, and where it sits
+        function findAnchor(ch) {
+            const containerTop = ch.container.getBoundingClientRect().top;
+            for (const element of ch.feed.rows.children) {
+                const rect = element.getBoundingClientRect();
+                if (rect.bottom > containerTop) {
+                    return { entry: rowEntries.get(element), offset: rect.top - containerTop };
+                }
+            }
+            return null;
+        }
+
+        function renderFeed(ch) {
+            const feed = ch.feed;
+            const container = ch.container;
+            const viewportHeight = container.clientHeight;
+            if (viewportHeight === 0) {
+                // Hidden behind the history panel
+                return;
+            }
+
+            // Keep the row at the top of the viewport in place while rows above it change
+            const stick = feed.following && !scrollPaused;
+            const anchor = stick ? null : (feed.pinned || findAnchor(ch));
+            feed.pinned = null;
+            const view = getView(ch);
+            const anchorIndex = anchor ? view.indexOf(anchor.entry) : -1;
+
+            let total = offsetOf(view, view.length);
+            let scrollTop;
+            if (stick) {
+                scrollTop = Math.max(0, total - viewportHeight);
+            } else if (anchorIndex >= 0) {
+                scrollTop = FEED_PADDING + offsetOf(view, anchorIndex) - anchor.offset;
+            } else {
+                scrollTop = container.scrollTop;
+            }
+
+            // Rows overlapping the viewport plus some margin
+            const windowTop = scrollTop - FEED_PADDING - OVERSCAN_PX;
+            const windowBottom = scrollTop + viewportHeight + OVERSCAN_PX;
+            let first = view.length;
+            let last = -1;
+            let top = 0;
+            let offset = 0;
+            for (let i = 0; i < view.length && offset < windowBottom; i++) {
+                const extent = rowExtent(view[i]);
+                if (offset + extent > windowTop) {
+                    if (first > i) {
+                        first = i;
+                        top = offset;
+                    }
+                    last = i;
+                }
+                offset += extent;
+            }
+
+            // Reuse rows that are already rendered and build the ones scrolling into view
+            const elements = new Map();
+            const shown = [];
+            for (let i = first; i <= last; i++) {
+                const entry = view[i];
+                let element = feed.elements.get(entry);
+                if (!element) {
+                    element = createMessageElement(entry.msg);
+                    rowEntries.set(element, entry);
+                    if (entry.isNew) {
+                        element.classList.add('animate');
+                        element.addEventListener('animationend', () => element.classList.remove('animate'), { once: true });
+                    }
+                }
+                entry.isNew = false;
+                element.classList.toggle('removing', entry.removing);
+                element.classList.toggle('search-highlight', entry.highlight);
+                elements.set(entry, element);
+                shown.push(element);
+            }
+            feed.elements = elements;
+
+            // Move as little as possible so running animations aren't restarted
+            Array.from(feed.rows.children).forEach(element => {
+                if (!elements.has(rowEntries.get(element))) {
+                    element.remove();
+                }
+            });
+            shown.forEach((element, i) => {
+                const current = feed.rows.children[i];
+                if (current !== element) {
+                    feed.rows.insertBefore(element, current || null);
+                }
+            });
+
+            shown.forEach((element, i) => {
+                const entry = view[first + i];
+                const height = element.offsetHeight;
+                if (entry.height === undefined) {
+                    measuredRows++;
+                    measuredHeight += height;
+                }
+                entry.height = height;
+            });
+
+            feed.topSpacer.style.height = offsetOf(view, first) + 'px';
+            let bottom = 0;
+            for (let i = last + 1; i < view.length; i++) {
+                bottom += rowExtent(view[i]);
+            }
+            feed.bottomSpacer.style.height = bottom + 'px';
+
+            if (stick) {
+                container.scrollTop = container.scrollHeight;
+            } else if (anchorIndex >= 0) {
+                container.scrollTop = FEED_PADDING + offsetOf(view, anchorIndex) - anchor.offset;
+            }
+            updateScrollButton();
+        }
+
+        // Scrolling up stops following new messages; scrolling back to the bottom resumes
+        function handleFeedScroll(ch) {
+            const container = ch.container;
+            ch.feed.following = container.scrollTop + container.clientHeight >= container.scrollHeight - 30;
+            scheduleRender(ch);
+        }
+
+        const scrollToBottomBtn = document.getElementById('scroll-to-bottom');
+
+        function updateScrollButton() {
+            const ch = activeChannel && channels[activeChannel];
+            scrollToBottomBtn.classList.toggle('visible', !!ch && (scrollPaused || !ch.feed.following));
+        }
+
+        scrollToBottomBtn.addEventListener('click', () => {
+            setScrollPaused(false);
+        });
+
+        // Row heights depend on the width, so measure again after the panel is resized
+        let feedWidth = 0;
+        new ResizeObserver(() => {
+            if (chatArea.clientWidth !== feedWidth) {
+                feedWidth = chatArea.clientWidth;
+                measuredRows = 0;
+                measuredHeight = 0;
+                Object.values(channels).forEach(ch => {
+                    ch.feed.buffer.toArray().forEach(entry => { entry.height = undefined; });
+                });
+            }
+            if (activeChannel && channels[activeChannel]) {
+                scheduleRender(channels[activeChannel]);
+            }
+        }).observe(chatArea);
+
+        // Add and remove tabs so they match the joined channels
+        function syncChannels(names) {
+            Object.keys(channels).forEach(name => {
+                if (!names.includes(name)) {
+                    removeChannel(name);
+                }
+            });
+            names.forEach(name => ensureChannel(name));
+        }
+
+        function updateTabUnread(ch) {
+            ch.tab.querySelector('.channel-tab-unread').textContent = ch.unread > 0 ? String(ch.unread) : '';
+        }
+
+        function canModerateActive() {
+            return isAuthenticated && !!activeChannel && !!channels[activeChannel] && channels[activeChannel].canModerate;
+        }
+
+        // Only show moderation controls where the user is a moderator or the broadcaster
+        function refreshModerationControls() {
+            const display = canModerateActive() ? 'block' : 'none';
+            document.getElementById('chat-modes-separator').style.display = display;
+            document.getElementById('chat-modes-section').style.display = display;
+            if (!canModerateActive()) {
+                modMenu.style.display = 'none';
+            }
+        }
+
+        function handlePermissions(channelName, data) {
+            const ch = channels[channelName];
+            if (!ch) return;
+            ch.canModerate = !!(data.isModerator || data.isBroadcaster);
+            ch.container.classList.toggle('can-moderate', ch.canModerate);
+            if (channelName === activeChannel) {
+                refreshModerationControls();
+                updateCommandAutocomplete();
+            }
+        }
+
+        function activeRoomState() {
+            return activeChannel && channels[activeChannel] ? channels[activeChannel].roomState : createRoomState();
+        }
+
+        // Post a message that targets the active tab's channel
+        function postToActiveChannel(message) {
+            if (!activeChannel) return;
+            vscode.postMessage({ ...message, channel: activeChannel });
+        }
+
+        addChannelBtn.addEventListener('click', () => {
+            vscode.postMessage({ type: 'switchChannel' });
+        });
         
         // Moderation menu elements
         const modMenu = document.getElementById('mod-menu');
         const modMenuUsername = document.getElementById('mod-menu-username');
         let currentModTarget = null;
         let currentModMessageId = null;
+        let currentModChannel = null;
 
         // Settings gear button handler
         settingsGear.addEventListener('click', (e) => {
@@ -744,9 +1921,10 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
         document.querySelectorAll('.mod-menu-item').forEach(item => {
             item.addEventListener('click', () => {
                 const action = item.getAttribute('data-action');
-                if (currentModTarget) {
+                if (currentModTarget && currentModChannel) {
                     vscode.postMessage({
                         type: 'moderate',
+                        channel: currentModChannel,
                         action: action,
                         username: currentModTarget,
                         messageId: currentModMessageId
@@ -758,8 +1936,8 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
 
         // Settings menu item handlers
         document.getElementById('settings-clear').addEventListener('click', () => {
-            while (chatContainer.firstChild) {
-                chatContainer.removeChild(chatContainer.firstChild);
+            if (activeChannel) {
+                clearAllMessages(activeChannel);
             }
             settingsMenu.style.display = 'none';
         });
@@ -773,64 +1951,84 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
             settingsMenu.style.display = 'none';
         });
 
-        document.getElementById('settings-pause-scroll').addEventListener('click', () => {
-            scrollPaused = !scrollPaused;
+        function setScrollPaused(paused) {
+            scrollPaused = paused;
             const pauseItem = document.getElementById('settings-pause-scroll');
             if (scrollPaused) {
                 pauseItem.textContent = '▶️ Resume Scroll';
             } else {
                 pauseItem.textContent = '⏸️ Pause Scroll';
             }
+
+            const ch = activeChannel && channels[activeChannel];
+            if (ch) {
+                if (!scrollPaused) {
+                    ch.feed.following = true;
+                }
+                scheduleRender(ch);
+            }
+            updateScrollButton();
+        }
+
+        document.getElementById('settings-pause-scroll').addEventListener('click', () => {
+            setScrollPaused(!scrollPaused);
         });
 
         // Chat mode toggle handlers (only visible when authenticated)
         document.getElementById('settings-shield-mode').addEventListener('click', () => {
-            vscode.postMessage({ type: 'toggleChatMode', mode: 'shield', enabled: !roomState.shieldMode });
+            postToActiveChannel({ type: 'toggleChatMode', mode: 'shield', enabled: !activeRoomState().shieldMode });
             settingsMenu.style.display = 'none';
         });
 
         document.getElementById('settings-subs-only').addEventListener('click', () => {
-            vscode.postMessage({ type: 'toggleChatMode', mode: 'subsOnly', enabled: !roomState.subsOnly });
+            postToActiveChannel({ type: 'toggleChatMode', mode: 'subsOnly', enabled: !activeRoomState().subsOnly });
             settingsMenu.style.display = 'none';
         });
 
         document.getElementById('settings-emotes-only').addEventListener('click', () => {
-            vscode.postMessage({ type: 'toggleChatMode', mode: 'emotesOnly', enabled: !roomState.emotesOnly });
+            postToActiveChannel({ type: 'toggleChatMode', mode: 'emotesOnly', enabled: !activeRoomState().emotesOnly });
             settingsMenu.style.display = 'none';
         });
 
         document.getElementById('settings-followers-only').addEventListener('click', () => {
             // Followers-only: false = OFF, 0 or positive = ON
-            const isCurrentlyOn = roomState.followersOnly !== false;
-            vscode.postMessage({ type: 'toggleChatMode', mode: 'followersOnly', enabled: !isCurrentlyOn });
+            const isCurrentlyOn = activeRoomState().followersOnly !== false;
+            postToActiveChannel({ type: 'toggleChatMode', mode: 'followersOnly', enabled: !isCurrentlyOn });
             settingsMenu.style.display = 'none';
         });
 
         document.getElementById('settings-slow-mode').addEventListener('click', () => {
             // Toggle slow mode between 0 (off) and 30 seconds
-            const newValue = roomState.slowMode > 0 ? 0 : 30;
-            vscode.postMessage({ type: 'toggleChatMode', mode: 'slowMode', value: newValue });
+            const newValue = activeRoomState().slowMode > 0 ? 0 : 30;
+            postToActiveChannel({ type: 'toggleChatMode', mode: 'slowMode', value: newValue });
             settingsMenu.style.display = 'none';
         });
 
         // Command definitions
         const commands = [
-            { name: '/ban', args: '<username> [reason]', description: 'Permanently ban a user from the chat' },
-            { name: '/unban', args: '<username>', description: 'Remove ban from a user' },
-            { name: '/emoteonly', args: '', description: 'Enable emote-only mode' },
-            { name: '/emoteonlyoff', args: '', description: 'Disable emote-only mode' },
-            { name: '/followers', args: '[duration]', description: 'Enable followers-only mode (default: 10 min)' },
-            { name: '/followersoff', args: '', description: 'Disable followers-only mode' },
-            { name: '/shield', args: '', description: 'Enable Shield Mode' },
-            { name: '/shieldoff', args: '', description: 'Disable Shield Mode' },
-            { name: '/slow', args: '[seconds]', description: 'Enable slow mode (default: 30s)' },
-            { name: '/slowoff', args: '', description: 'Disable slow mode' },
-            { name: '/subscribers', args: '', description: 'Enable subscribers-only mode' },
-            { name: '/subscribersoff', args: '', description: 'Disable subscribers-only mode' },
-            { name: '/timeout', args: '<username> [duration] [reason]', description: 'Timeout a user (default: 10 min)' },
-            { name: '/untimeout', args: '<username>', description: 'Remove timeout from a user' }
+            { name: '/ban', args: '<username> [reason]', moderator: true, description: 'Permanently ban a user from the chat' },
+            { name: '/unban', args: '<username>', moderator: true, description: 'Remove ban from a user' },
+            { name: '/emoteonly', args: '', moderator: true, description: 'Enable emote-only mode' },
+            { name: '/emoteonlyoff', args: '', moderator: true, description: 'Disable emote-only mode' },
+            { name: '/followers', args: '[duration]', moderator: true, description: 'Enable followers-only mode (default: 10 min)' },
+            { name: '/followersoff', args: '', moderator: true, description: 'Disable followers-only mode' },
+            { name: '/shield', args: '', moderator: true, description: 'Enable Shield Mode' },
+            { name: '/shieldoff', args: '', moderator: true, description: 'Disable Shield Mode' },
+            { name: '/slow', args: '[seconds]', moderator: true, description: 'Enable slow mode (default: 30s)' },
+            { name: '/slowoff', args: '', moderator: true, description: 'Disable slow mode' },
+            { name: '/subscribers', args: '', moderator: true, description: 'Enable subscribers-only mode' },
+            { name: '/subscribersoff', args: '', moderator: true, description: 'Disable subscribers-only mode' },
+            { name: '/timeout', args: '<username> [duration] [reason]', moderator: true, description: 'Timeout a user (default: 10 min)' },
+            { name: '/untimeout', args: '<username>', moderator: true, description: 'Remove timeout from a user' }
         ];
 
+        // Commands registered by other extensions through the extension API
+        let customCommands = [];
+
+        function allCommands() {
+            return commands.concat(customCommands);
+        }
+
         const commandAutocomplete = document.getElementById('command-autocomplete');
         let selectedCommandIndex = -1;
         let filteredCommands = [];
@@ -841,55 +2039,66 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
             const command = parts[0].toLowerCase();
             const args = parts.slice(1);
 
+            const definition = allCommands().find(cmd => cmd.name === command);
+            if (definition && definition.moderator && !canModerateActive()) {
+                vscode.postMessage({ type: 'showError', message: \`You are not a moderator in #\${activeChannel}\` });
+                return true;
+            }
+
+            if (definition && definition.custom) {
+                postToActiveChannel({ type: 'runCommand', name: command.substring(1), args: args });
+                return true;
+            }
+
             switch (command) {
                 case '/ban':
                     if (args.length === 0) {
                         vscode.postMessage({ type: 'showError', message: 'Usage: /ban <username> [reason]' });
                         return false;
                     }
-                    vscode.postMessage({ type: 'moderate', action: 'ban', username: args[0], messageId: null });
+                    postToActiveChannel({ type: 'moderate', action: 'ban', username: args[0], messageId: null });
                     return true;
 
                 case '/emoteonly':
-                    vscode.postMessage({ type: 'toggleChatMode', mode: 'emotesOnly', enabled: true });
+                    postToActiveChannel({ type: 'toggleChatMode', mode: 'emotesOnly', enabled: true });
                     return true;
 
                 case '/emoteonlyoff':
-                    vscode.postMessage({ type: 'toggleChatMode', mode: 'emotesOnly', enabled: false });
+                    postToActiveChannel({ type: 'toggleChatMode', mode: 'emotesOnly', enabled: false });
                     return true;
 
                 case '/followers':
                     const followerDuration = args.length > 0 ? parseInt(args[0]) : 10;
-                    vscode.postMessage({ type: 'toggleChatMode', mode: 'followersOnly', enabled: true, value: followerDuration });
+                    postToActiveChannel({ type: 'toggleChatMode', mode: 'followersOnly', enabled: true, value: followerDuration });
                     return true;
 
                 case '/followersoff':
-                    vscode.postMessage({ type: 'toggleChatMode', mode: 'followersOnly', enabled: false });
+                    postToActiveChannel({ type: 'toggleChatMode', mode: 'followersOnly', enabled: false });
                     return true;
 
                 case '/shield':
-                    vscode.postMessage({ type: 'toggleChatMode', mode: 'shield', enabled: true });
+                    postToActiveChannel({ type: 'toggleChatMode', mode: 'shield', enabled: true });
                     return true;
 
                 case '/shieldoff':
-                    vscode.postMessage({ type: 'toggleChatMode', mode: 'shield', enabled: false });
+                    postToActiveChannel({ type: 'toggleChatMode', mode: 'shield', enabled: false });
                     return true;
 
                 case '/slow':
                     const slowDuration = args.length > 0 ? parseInt(args[0]) : 30;
-                    vscode.postMessage({ type: 'toggleChatMode', mode: 'slowMode', value: slowDuration });
+                    postToActiveChannel({ type: 'toggleChatMode', mode: 'slowMode', value: slowDuration });
                     return true;
 
                 case '/slowoff':
-                    vscode.postMessage({ type: 'toggleChatMode', mode: 'slowMode', value: 0 });
+                    postToActiveChannel({ type: 'toggleChatMode', mode: 'slowMode', value: 0 });
                     return true;
 
                 case '/subscribers':
-                    vscode.postMessage({ type: 'toggleChatMode', mode: 'subsOnly', enabled: true });
+                    postToActiveChannel({ type: 'toggleChatMode', mode: 'subsOnly', enabled: true });
                     return true;
 
                 case '/subscribersoff':
-                    vscode.postMessage({ type: 'toggleChatMode', mode: 'subsOnly', enabled: false });
+                    postToActiveChannel({ type: 'toggleChatMode', mode: 'subsOnly', enabled: false });
                     return true;
 
                 case '/timeout':
@@ -898,7 +2107,7 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
                         return false;
                     }
                     const timeoutDuration = args.length > 1 && !isNaN(parseInt(args[1])) ? parseInt(args[1]) : 600;
-                    vscode.postMessage({ type: 'moderate', action: \`timeout-\${timeoutDuration}\`, username: args[0], messageId: null });
+                    postToActiveChannel({ type: 'moderate', action: \`timeout-\${timeoutDuration}\`, username: args[0], messageId: null });
                     return true;
 
                 case '/untimeout':
@@ -907,7 +2116,7 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
                         vscode.postMessage({ type: 'showError', message: 'Usage: /untimeout <username>' });
                         return false;
                     }
-                    vscode.postMessage({ type: 'moderate', action: 'untimeout', username: args[0], messageId: null });
+                    postToActiveChannel({ type: 'moderate', action: 'untimeout', username: args[0], messageId: null });
                     return true;
 
                 default:
@@ -929,7 +2138,7 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
             const commandPart = input.split(/\\s/)[0].toLowerCase();
             
             // Filter commands
-            filteredCommands = commands.filter(cmd => cmd.name.startsWith(commandPart));
+            filteredCommands = allCommands().filter(cmd => (!cmd.moderator || canModerateActive()) && cmd.name.startsWith(commandPart));
             
             if (filteredCommands.length === 0) {
                 commandAutocomplete.style.display = 'none';
@@ -939,8 +2148,8 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
             // Build autocomplete HTML
             commandAutocomplete.innerHTML = filteredCommands.map((cmd, index) => \`
                 <div class="command-item\${index === selectedCommandIndex ? ' selected' : ''}" data-index="\${index}">
-                    <div class="command-name">\${cmd.name} \${cmd.args}</div>
-                    <div class="command-description">\${cmd.description}</div>
+                    <div class="command-name">\${escapeHtml(cmd.name)} \${escapeHtml(cmd.args)}</div>
+                    <div class="command-description">\${escapeHtml(cmd.description)}</div>
                 </div>
             \`).join('');
 
@@ -966,11 +2175,37 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
         // Handle input changes
         messageInput.addEventListener('input', () => {
             selectedCommandIndex = -1;
+            tabCompletion = null;
             updateCommandAutocomplete();
+            updateWordAutocomplete();
         });
 
+        messageInput.addEventListener('blur', hideWordAutocomplete);
+
         // Handle keyboard navigation
         messageInput.addEventListener('keydown', (e) => {
+            if (e.key !== 'Tab' && e.key !== 'Shift') {
+                tabCompletion = null;
+            }
+
+            if (wordAutocomplete.style.display === 'block' && wordCompletions.length > 0) {
+                if (e.key === 'ArrowDown') {
+                    e.preventDefault();
+                    selectedCompletionIndex = (selectedCompletionIndex + 1) % wordCompletions.length;
+                    renderWordAutocomplete();
+                } else if (e.key === 'ArrowUp') {
+                    e.preventDefault();
+                    selectedCompletionIndex = selectedCompletionIndex <= 0 ? wordCompletions.length - 1 : selectedCompletionIndex - 1;
+                    renderWordAutocomplete();
+                } else if (e.key === 'Tab' || e.key === 'Enter') {
+                    e.preventDefault();
+                    acceptWordCompletion(wordCompletions[selectedCompletionIndex]);
+                } else if (e.key === 'Escape') {
+                    hideWordAutocomplete();
+                }
+                return;
+            }
+
             if (commandAutocomplete.style.display === 'block' && filteredCommands.length > 0) {
                 if (e.key === 'ArrowDown') {
                     e.preventDefault();
@@ -992,6 +2227,10 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
                     selectedCommandIndex = -1;
                 }
             }
+
+            if (e.key === 'Tab' && !e.defaultPrevented && tabComplete(e.shiftKey)) {
+                e.preventDefault();
+            }
         });
 
         // Send message button handler
@@ -1006,12 +2245,12 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
                         commandAutocomplete.style.display = 'none';
                     } else {
                         // Invalid command or want to send as message
-                        vscode.postMessage({ type: 'sendMessage', message: message });
+                        postToActiveChannel({ type: 'sendMessage', message: message });
                         messageInput.value = '';
                         commandAutocomplete.style.display = 'none';
                     }
                 } else {
-                    vscode.postMessage({ type: 'sendMessage', message: message });
+                    postToActiveChannel({ type: 'sendMessage', message: message });
                     messageInput.value = '';
                 }
             }
@@ -1037,18 +2276,295 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
                             commandAutocomplete.style.display = 'none';
                         } else {
                             // Invalid command or want to send as message
-                            vscode.postMessage({ type: 'sendMessage', message: message });
+                            postToActiveChannel({ type: 'sendMessage', message: message });
                             messageInput.value = '';
                             commandAutocomplete.style.display = 'none';
                         }
                     } else {
-                        vscode.postMessage({ type: 'sendMessage', message: message });
+                        postToActiveChannel({ type: 'sendMessage', message: message });
                         messageInput.value = '';
                     }
                 }
             }
         });
 
+        // Emotes offered in each channel's input: the user's Twitch emotes plus the channel's FFZ/BTTV/7TV emotes
+        const emoteChoices = new Map();
+        const EMOTE_PROVIDER_LABELS = { twitch: 'Twitch', '7tv': '7TV', bttv: 'BTTV', ffz: 'FFZ' };
+        const MAX_WORD_COMPLETIONS = 8;
+
+        function activeEmoteChoices() {
+            return (activeChannel && emoteChoices.get(activeChannel)) || [];
+        }
+
+        // Emotes whose name starts with the prefix (any case); exact-case and shorter names first
+        function matchEmotes(prefix) {
+            const lower = prefix.toLowerCase();
+            const seen = new Set();
+            return activeEmoteChoices()
+                .filter(emote => {
+                    if (seen.has(emote.name) || !emote.name.toLowerCase().startsWith(lower)) {
+                        return false;
+                    }
+                    seen.add(emote.name);
+                    return true;
+                })
+                .sort((a, b) => (Number(b.name.startsWith(prefix)) - Number(a.name.startsWith(prefix)))
+                    || a.name.length - b.name.length
+                    || a.name.localeCompare(b.name));
+        }
+
+        // The word being typed: from the space before the caret up to the caret
+        function currentWord() {
+            const value = messageInput.value;
+            const end = messageInput.selectionStart === null ? value.length : messageInput.selectionStart;
+            const start = value.lastIndexOf(' ', end - 1) + 1;
+            return { start: Math.min(start, end), end: end, text: value.substring(Math.min(start, end), end) };
+        }
+
+        // Replace a word with a completion followed by a space, leaving the caret after it
+        function replaceWord(word, text) {
+            const value = messageInput.value;
+            const after = value.substring(word.end);
+            const insert = after.startsWith(' ') ? text : text + ' ';
+            messageInput.value = value.substring(0, word.start) + insert + after;
+            const caret = word.start + text.length + 1;
+            messageInput.setSelectionRange(caret, caret);
+        }
+
+        // Recent chatters per channel for @mentions: username -> display name, least recent first
+        const recentChatters = new Map();
+        const MAX_RECENT_CHATTERS = 200;
+
+        function rememberChatter(msg) {
+            if (!msg.username || msg.messageType === 'system' || msg.username === currentUsername) {
+                return;
+            }
+            let chatters = recentChatters.get(msg.channel);
+            if (!chatters) {
+                chatters = new Map();
+                recentChatters.set(msg.channel, chatters);
+            }
+            // Re-insert to move them to the end
+            chatters.delete(msg.username);
+            chatters.set(msg.username, msg.displayName || msg.username);
+            if (chatters.size > MAX_RECENT_CHATTERS) {
+                chatters.delete(chatters.keys().next().value);
+            }
+        }
+
+        // Chatters whose username or display name starts with the prefix, most recent first
+        function matchChatters(prefix) {
+            const lower = prefix.toLowerCase();
+            const chatters = Array.from((activeChannel && recentChatters.get(activeChannel)) || []).reverse();
+            return chatters.filter(([username, displayName]) =>
+                username.startsWith(lower) || displayName.toLowerCase().startsWith(lower));
+        }
+
+        const wordAutocomplete = document.getElementById('word-autocomplete');
+        let wordCompletions = [];
+        let selectedCompletionIndex = 0;
+        let completionWord = null;
+
+        // Suggestions for the word at the caret: ':na' lists the emotes starting with 'na', '@na' the recent chatters
+        function getWordCompletions(word) {
+            if (word.text.startsWith('@')) {
+                return matchChatters(word.text.substring(1)).slice(0, MAX_WORD_COMPLETIONS).map(([username, displayName]) => {
+                    // Localized display names (e.g. Japanese) aren't usernames; mention those by username
+                    const isLocalized = displayName.toLowerCase() !== username;
+                    return {
+                        label: displayName,
+                        insert: '@' + (isLocalized ? username : displayName),
+                        detail: isLocalized ? username : ''
+                    };
+                });
+            }
+
+            if (word.text.length >= 3 && word.text.startsWith(':')) {
+                return matchEmotes(word.text.substring(1)).slice(0, MAX_WORD_COMPLETIONS).map(emote => ({
+                    label: emote.name,
+                    insert: emote.name,
+                    image: emote.url,
+                    detail: EMOTE_PROVIDER_LABELS[emote.provider] || emote.provider
+                }));
+            }
+            return [];
+        }
+
+        function updateWordAutocomplete() {
+            const word = currentWord();
+            // Slash command names have their own autocomplete
+            const isCommandName = word.start === 0 && word.text.startsWith('/');
+            wordCompletions = isCommandName ? [] : getWordCompletions(word);
+            completionWord = word;
+            if (wordCompletions.length === 0) {
+                hideWordAutocomplete();
+                return;
+            }
+            selectedCompletionIndex = Math.min(selectedCompletionIndex, wordCompletions.length - 1);
+            renderWordAutocomplete();
+        }
+
+        function renderWordAutocomplete() {
+            wordAutocomplete.innerHTML = '';
+            wordCompletions.forEach((item, index) => {
+                const row = document.createElement('div');
+                row.className = 'command-item completion-item' + (index === selectedCompletionIndex ? ' selected' : '');
+                if (item.image) {
+                    const img = document.createElement('img');
+                    img.src = item.image;
+                    img.alt = '';
+                    row.appendChild(img);
+                }
+                const label = document.createElement('span');
+                label.className = 'command-name';
+                label.textContent = item.label;
+                row.appendChild(label);
+                if (item.detail) {
+                    const detail = document.createElement('span');
+                    detail.className = 'command-description';
+                    detail.textContent = item.detail;
+                    row.appendChild(detail);
+                }
+                // mousedown keeps focus in the input
+                row.addEventListener('mousedown', (e) => {
+                    e.preventDefault();
+                    acceptWordCompletion(item);
+                });
+                wordAutocomplete.appendChild(row);
+            });
+            wordAutocomplete.style.display = 'block';
+        }
+
+        function hideWordAutocomplete() {
+            wordAutocomplete.style.display = 'none';
+            wordCompletions = [];
+            selectedCompletionIndex = 0;
+        }
+
+        function acceptWordCompletion(item) {
+            replaceWord(completionWord, item.insert);
+            hideWordAutocomplete();
+            messageInput.focus();
+        }
+
+        // Tab completes the word at the caret to an emote name; more Tabs cycle through the matches (Shift+Tab back)
+        let tabCompletion = null;
+
+        function tabComplete(backwards) {
+            if (!tabCompletion) {
+                const word = currentWord();
+                const prefix = word.text.replace(/^:/, '');
+                const matches = prefix ? matchEmotes(prefix) : [];
+                if (matches.length === 0 || (word.start === 0 && word.text.startsWith('/'))) {
+                    return false;
+                }
+                tabCompletion = { start: word.start, end: word.end, matches: matches, index: backwards ? 0 : -1 };
+            }
+
+            const count = tabCompletion.matches.length;
+            tabCompletion.index = (tabCompletion.index + (backwards ? count - 1 : 1)) % count;
+            const name = tabCompletion.matches[tabCompletion.index].name;
+            replaceWord(tabCompletion, name);
+            tabCompletion.end = tabCompletion.start + name.length;
+            return true;
+        }
+
+        // Emote picker: the active channel's emotes grouped by provider
+        const emotePickerBtn = document.getElementById('emote-picker-btn');
+        const emotePicker = document.getElementById('emote-picker');
+        const emotePickerSearch = document.getElementById('emote-picker-search');
+        const emotePickerList = document.getElementById('emote-picker-list');
+
+        function setEmotePickerOpen(open) {
+            emotePicker.classList.toggle('open', open);
+            if (open) {
+                hideWordAutocomplete();
+                emotePickerSearch.value = '';
+                renderEmotePicker();
+                emotePickerSearch.focus();
+            }
+        }
+
+        function renderEmotePicker() {
+            const query = emotePickerSearch.value.trim().toLowerCase();
+            const emotes = activeEmoteChoices();
+            emotePickerList.innerHTML = '';
+
+            ['twitch', '7tv', 'bttv', 'ffz'].forEach(provider => {
+                const matching = emotes.filter(emote => emote.provider === provider && (!query || emote.name.toLowerCase().includes(query)));
+                if (matching.length === 0) {
+                    return;
+                }
+
+                const title = document.createElement('div');
+                title.className = 'emote-picker-group';
+                title.textContent = EMOTE_PROVIDER_LABELS[provider] + ' (' + matching.length + ')';
+                emotePickerList.appendChild(title);
+
+                const grid = document.createElement('div');
+                grid.className = 'emote-picker-grid';
+                matching.forEach(emote => {
+                    const button = document.createElement('button');
+                    button.className = 'emote-picker-item';
+                    button.title = emote.name;
+                    const img = document.createElement('img');
+                    img.src = emote.url;
+                    img.alt = emote.name;
+                    img.loading = 'lazy';
+                    button.appendChild(img);
+                    button.addEventListener('click', () => insertEmote(emote.name));
+                    grid.appendChild(button);
+                });
+                emotePickerList.appendChild(grid);
+            });
+
+            if (emotePickerList.children.length === 0) {
+                const empty = document.createElement('div');
+                empty.className = 'emote-picker-empty';
+                empty.textContent = emotes.length === 0 ? 'No emotes loaded for this channel yet' : 'No emotes match';
+                emotePickerList.appendChild(empty);
+            }
+        }
+
+        // Insert an emote name at the caret, separated by spaces
+        function insertEmote(name) {
+            const value = messageInput.value;
+            const start = messageInput.selectionStart === null ? value.length : messageInput.selectionStart;
+            const end = messageInput.selectionEnd === null ? start : messageInput.selectionEnd;
+            const before = value.substring(0, start);
+            const text = (before && !before.endsWith(' ') ? ' ' : '') + name + ' ';
+            messageInput.value = before + text + value.substring(end);
+            const caret = before.length + text.length;
+            messageInput.focus();
+            messageInput.setSelectionRange(caret, caret);
+        }
+
+        emotePickerBtn.addEventListener('click', (e) => {
+            e.stopPropagation();
+            setEmotePickerOpen(!emotePicker.classList.contains('open'));
+        });
+
+        emotePickerSearch.addEventListener('input', renderEmotePicker);
+
+        emotePickerSearch.addEventListener('keydown', (e) => {
+            if (e.key === 'Escape') {
+                setEmotePickerOpen(false);
+                messageInput.focus();
+            } else if (e.key === 'Enter') {
+                const first = emotePickerList.querySelector('.emote-picker-item');
+                if (first) {
+                    first.click();
+                }
+            }
+        });
+
+        document.addEventListener('click', (e) => {
+            if (emotePicker.classList.contains('open') && !emotePicker.contains(e.target) && e.target !== emotePickerBtn) {
+                setEmotePickerOpen(false);
+            }
+        });
+
         // Notify extension when webview gains focus
         window.addEventListener('focus', () => {
             vscode.postMessage({ type: 'webviewFocused' });
@@ -1057,15 +2573,294 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
         // Listen for visibility check from extension
         let isActive = false;
 
-        // Badge URLs for common Twitch badges
-        const badgeUrls = {
-            'broadcaster': 'https://static-cdn.jtvnw.net/badges/v1/5527c58c-fb7d-422d-b71b-f309dcb85cc1/1',
-            'moderator': 'https://static-cdn.jtvnw.net/badges/v1/3267646d-33f0-4b17-b3df-f923a41db1d0/1',
-            'vip': 'https://static-cdn.jtvnw.net/badges/v1/b817aba4-fad8-49e2-b88a-7cc744dfa6ec/1',
-            'subscriber': 'https://static-cdn.jtvnw.net/badges/v1/5d9f2208-5dd8-11e7-8513-2ff4adfae661/1',
-            'premium': 'https://static-cdn.jtvnw.net/badges/v1/bbbe0db0-a598-423e-86d0-f9fb98ca1933/1',
-            'turbo': 'https://static-cdn.jtvnw.net/badges/v1/bd444ec6-8f34-4bf9-91f4-af1e3428d80f/1'
-        };
+        // Search: filters the loaded feed and queries the saved chat log
+        const searchToggle = document.getElementById('search-toggle');
+        const searchBar = document.getElementById('search-bar');
+        const searchInput = document.getElementById('search-input');
+        const searchBadge = document.getElementById('search-badge');
+        const searchType = document.getElementById('search-type');
+        const searchStatus = document.getElementById('search-status');
+        const historyPanel = document.getElementById('history-panel');
+        const historyTitle = document.getElementById('history-title');
+        const historyList = document.getElementById('history-list');
+        const historyBack = document.getElementById('history-back');
+        let searchQuery = null;
+        let lastHistoryResults = null;
+
+        const badgeAliases = {
+            mod: 'moderator',
+            moderator: 'moderator',
+            vip: 'vip',
+            sub: 'subscriber',
+            subscriber: 'subscriber'
+        };
+
+        // Parse the search input ('from:user', 'badge:mod', 'type:bits', the rest is text) and dropdowns
+        function parseSearchQuery() {
+            const query = { text: '', username: '', badge: searchBadge.value, messageType: searchType.value };
+            const words = [];
+
+            searchInput.value.trim().split(/\\s+/).filter(word => word).forEach(word => {
+                const match = /^(from|badge|type):(.+)$/i.exec(word);
+                if (!match) {
+                    words.push(word);
+                    return;
+                }
+                const value = match[2].toLowerCase();
+                switch (match[1].toLowerCase()) {
+                    case 'from':
+                        query.username = value.replace(/^@/, '');
+                        break;
+                    case 'badge':
+                        query.badge = badgeAliases[value] || value;
+                        break;
+                    case 'type':
+                        query.messageType = value;
+                        break;
+                }
+            });
+
+            query.text = words.join(' ');
+            return query.text || query.username || query.badge || query.messageType ? query : null;
+        }
+
+        // Same rules as matchesSearchQuery() in the extension
+        function matchesSearch(msg, query) {
+            if (msg.messageType === 'system') {
+                return false;
+            }
+            if (query.text && !(msg.message || '').toLowerCase().includes(query.text.toLowerCase())) {
+                return false;
+            }
+            if (query.username) {
+                const username = (msg.username || '').toLowerCase();
+                const displayName = (msg.displayName || '').toLowerCase();
+                if (!username.includes(query.username) && !displayName.includes(query.username)) {
+                    return false;
+                }
+            }
+            if (query.badge) {
+                const accepted = query.badge === 'moderator' ? ['moderator', 'broadcaster']
+                    : query.badge === 'subscriber' ? ['subscriber', 'founder']
+                    : [query.badge];
+                if (!(msg.badges || []).some(badge => accepted.includes(badge))) {
+                    return false;
+                }
+            }
+            if (query.messageType && (msg.messageType || 'chat') !== query.messageType) {
+                return false;
+            }
+            return true;
+        }
+
+        // Filter every loaded feed; the count is for the active tab
+        function applySearch() {
+            searchQuery = parseSearchQuery();
+            Object.values(channels).forEach(ch => {
+                ch.container.classList.toggle('searching', !!searchQuery);
+                invalidateFeed(ch);
+            });
+            updateSearchStatus();
+        }
+
+        function updateSearchStatus() {
+            if (!searchQuery || !activeChannel || !channels[activeChannel]) {
+                searchStatus.textContent = '';
+                return;
+            }
+            const ch = channels[activeChannel];
+            searchStatus.textContent = getView(ch).length + ' of ' + ch.feed.buffer.length + ' loaded';
+        }
+
+        function openSearch() {
+            searchBar.style.display = 'flex';
+            searchInput.focus();
+            searchInput.select();
+        }
+
+        function closeSearch() {
+            searchBar.style.display = 'none';
+            searchInput.value = '';
+            searchBadge.value = '';
+            searchType.value = '';
+            applySearch();
+            closeHistoryPanel();
+        }
+
+        // Show a message in its place in the live feed
+        function jumpToMessage(ch, entry) {
+            searchInput.value = '';
+            searchBadge.value = '';
+            searchType.value = '';
+            applySearch();
+            closeHistoryPanel();
+
+            // Keep new messages from scrolling it away
+            setScrollPaused(true);
+            ch.feed.following = false;
+            ch.feed.pinned = { entry, offset: (ch.container.clientHeight - rowExtent(entry)) / 2 };
+            entry.highlight = true;
+            scheduleRender(ch);
+            setTimeout(() => {
+                entry.highlight = false;
+                scheduleRender(ch);
+            }, 2000);
+        }
+
+        searchToggle.addEventListener('click', () => {
+            if (searchBar.style.display === 'none') {
+                openSearch();
+            } else {
+                closeSearch();
+            }
+        });
+        document.getElementById('search-close').addEventListener('click', closeSearch);
+        searchInput.addEventListener('input', applySearch);
+        searchBadge.addEventListener('change', applySearch);
+        searchType.addEventListener('change', applySearch);
+        searchInput.addEventListener('keydown', (e) => {
+            if (e.key === 'Escape') {
+                closeSearch();
+            } else if (e.key === 'Enter') {
+                searchHistory();
+            }
+        });
+
+        document.addEventListener('keydown', (e) => {
+            if ((e.ctrlKey || e.metaKey) && e.key === 'f') {
+                e.preventDefault();
+                openSearch();
+            }
+        });
+
+        // While filtering, clicking a result shows it in context
+        chatArea.addEventListener('click', (e) => {
+            if (!searchQuery || e.target.closest('.username')) {
+                return;
+            }
+            const element = e.target.closest('.chat-message');
+            const entry = element && rowEntries.get(element);
+            if (entry && channels[activeChannel]) {
+                jumpToMessage(channels[activeChannel], entry);
+            }
+        });
+
+        // Query the saved chat log, which goes back further than the loaded feed
+        function searchHistory() {
+            const query = parseSearchQuery();
+            if (!query || !activeChannel) {
+                return;
+            }
+            lastHistoryResults = null;
+            historyTitle.textContent = 'Searching #' + activeChannel + '...';
+            historyBack.style.display = 'none';
+            historyList.innerHTML = '';
+            chatArea.classList.add('history-open');
+            postToActiveChannel({ type: 'searchHistory', query: query });
+        }
+
+        document.getElementById('search-history-btn').addEventListener('click', searchHistory);
+        document.getElementById('history-close').addEventListener('click', closeHistoryPanel);
+        historyBack.addEventListener('click', () => {
+            if (lastHistoryResults) {
+                showSearchResults(lastHistoryResults);
+            }
+        });
+
+        function closeHistoryPanel() {
+            chatArea.classList.remove('history-open');
+            historyList.innerHTML = '';
+            if (activeChannel && channels[activeChannel]) {
+                scheduleRender(channels[activeChannel]);
+            }
+        }
+
+        function createHistoryItem(msg) {
+            const item = document.createElement('div');
+            item.className = 'history-item';
+
+            const time = document.createElement('span');
+            time.className = 'history-time';
+            time.textContent = new Date(msg.timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+            item.appendChild(time);
+
+            if (msg.messageType !== 'system') {
+                const name = document.createElement('span');
+                name.className = 'history-name';
+                name.style.color = msg.color;
+                name.textContent = msg.displayName + ': ';
+                item.appendChild(name);
+            }
+
+            const content = document.createElement('span');
+            appendFragments(content, msg);
+            item.appendChild(content);
+            return item;
+        }
+
+        function showSearchResults(message) {
+            if (!chatArea.classList.contains('history-open')) {
+                return;
+            }
+            lastHistoryResults = message;
+            historyBack.style.display = 'none';
+            historyTitle.textContent = message.results.length === 0
+                ? 'No saved messages match'
+                : message.results.length + (message.truncated ? '+' : '') + ' saved messages in #' + message.channel;
+            historyList.innerHTML = '';
+
+            // Oldest first, like the feed
+            message.results.slice().reverse().forEach(msg => {
+                const item = createHistoryItem(msg);
+                if (msg.messageId) {
+                    item.classList.add('clickable');
+                    item.addEventListener('click', () => openHistoryResult(message.channel, msg));
+                }
+                historyList.appendChild(item);
+            });
+            historyList.scrollTop = historyList.scrollHeight;
+        }
+
+        function openHistoryResult(channelName, msg) {
+            // Still in the loaded feed: jump there directly
+            const ch = channels[channelName];
+            const loaded = ch && ch.feed.buffer.find(entry => entry.msg.messageId === msg.messageId);
+            if (loaded) {
+                setActiveChannel(channelName);
+                jumpToMessage(ch, loaded);
+                return;
+            }
+
+            historyTitle.textContent = 'Loading...';
+            vscode.postMessage({ type: 'loadHistoryContext', channel: channelName, messageId: msg.messageId, timestamp: msg.timestamp });
+        }
+
+        function showHistoryContext(message) {
+            if (!chatArea.classList.contains('history-open')) {
+                return;
+            }
+            historyBack.style.display = lastHistoryResults ? '' : 'none';
+            historyList.innerHTML = '';
+
+            if (message.messages.length === 0) {
+                historyTitle.textContent = 'That message is no longer in the saved chat log';
+                return;
+            }
+
+            historyTitle.textContent = new Date(message.messages[0].timestamp).toLocaleDateString() + ' in #' + message.channel;
+            let target = null;
+            message.messages.forEach(msg => {
+                const item = createHistoryItem(msg);
+                if (msg.messageId === message.messageId) {
+                    item.classList.add('target');
+                    target = item;
+                }
+                historyList.appendChild(item);
+            });
+            if (target) {
+                target.scrollIntoView({ block: 'center' });
+            }
+        }
 
         window.addEventListener('message', event => {
             const message = event.data;
@@ -1074,8 +2869,9 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
                 case 'connectionStatus':
                     handleConnectionStatus(message);
                     break;
-                case 'chatMessage':
-                    addChatMessage(message.message);
+                case 'chatEvents':
+                    // Messages only schedule a render, so the whole batch is drawn in one pass
+                    message.events.forEach(handleChatEvent);
                     break;
                 case 'checkFocus':
                     // Check if document is currently focused
@@ -1089,8 +2885,38 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
                 case 'messageSent':
                     handleMessageSent(message);
                     break;
-                case 'roomState':
-                    handleRoomState(message);
+                case 'activateChannel':
+                    setActiveChannel(message.channel);
+                    break;
+                case 'searchResults':
+                    showSearchResults(message);
+                    break;
+                case 'historyContext':
+                    showHistoryContext(message);
+                    break;
+                case 'viewSettings':
+                    setSlowChatRate(message.slowChatRate);
+                    scrollbackSize = message.scrollbackSize;
+                    Object.values(channels).forEach(ch => {
+                        ch.feed.buffer.resize(scrollbackSize);
+                        invalidateFeed(ch);
+                    });
+                    updateSearchStatus();
+                    break;
+                case 'emoteChoices':
+                    emoteChoices.set(message.channel, message.emotes);
+                    if (message.channel === activeChannel && emotePicker.classList.contains('open')) {
+                        renderEmotePicker();
+                    }
+                    break;
+                case 'customCommands':
+                    customCommands = message.commands.map(cmd => ({
+                        name: '/' + cmd.name,
+                        args: cmd.args,
+                        moderator: cmd.moderatorOnly,
+                        description: cmd.description,
+                        custom: true
+                    }));
                     break;
             }
         });
@@ -1107,9 +2933,12 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
             // Add connection status
             const statusClass = statusDiv.className;
             if (statusClass === 'connected') {
-                const channel = statusText.getAttribute('data-channel');
-                if (channel) {
-                    text += \` • Connected to #\${channel}\`;
+                const channelCount = Object.keys(channels).length;
+                if (activeChannel) {
+                    text += \` • Connected to #\${activeChannel}\`;
+                }
+                if (channelCount > 1) {
+                    text += \` (+\${channelCount - 1} more)\`;
                 }
             } else if (statusClass === 'error') {
                 const error = statusText.getAttribute('data-error');
@@ -1127,16 +2956,13 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
             statusDiv.className = data.status;
 
             if (data.status === 'connected') {
-                statusText.setAttribute('data-channel', data.channel);
-                clearBtn.style.display = 'block';
+                syncChannels(data.channels || []);
             } else if (data.status === 'error') {
                 statusText.setAttribute('data-error', data.error || 'Connection error');
-                clearBtn.style.display = 'none';
                 messageInputContainer.style.display = 'none';
             } else if (data.status === 'no-channel') {
-                statusText.removeAttribute('data-channel');
                 statusText.removeAttribute('data-error');
-                clearBtn.style.display = 'none';
+                syncChannels([]);
                 messageInputContainer.style.display = 'none';
             }
             
@@ -1152,29 +2978,37 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
             if (data.isAuthenticated) {
                 settingsAuthBtn.textContent = '🔑 Sign Out';
                 messageInputContainer.style.display = 'block'; // Show message input
-                // Show chat mode toggles
-                document.getElementById('chat-modes-separator').style.display = 'block';
-                document.getElementById('chat-modes-section').style.display = 'block';
             } else {
                 settingsAuthBtn.textContent = '🔑 Sign In';
                 messageInputContainer.style.display = 'none'; // Hide message input
-                // Hide chat mode toggles
-                document.getElementById('chat-modes-separator').style.display = 'none';
-                document.getElementById('chat-modes-section').style.display = 'none';
             }
+
+            // Chat mode toggles depend on moderator rights in the active channel
+            refreshModerationControls();
             
             updateStatusText();
         }
 
-        function handleRoomState(data) {
+        function handleRoomState(channelName, data) {
+            const ch = channels[channelName];
+            if (!ch) return;
+
             // Update room state from IRC ROOMSTATE
+            const roomState = ch.roomState;
             if (data.shieldMode !== undefined) roomState.shieldMode = data.shieldMode;
             if (data.subsOnly !== undefined) roomState.subsOnly = data.subsOnly;
             if (data.emotesOnly !== undefined) roomState.emotesOnly = data.emotesOnly;
             if (data.followersOnly !== undefined) roomState.followersOnly = data.followersOnly;
             if (data.slowMode !== undefined) roomState.slowMode = data.slowMode;
 
-            // Update UI
+            if (channelName === activeChannel) {
+                refreshRoomStateDisplay();
+            }
+        }
+
+        // Show the active tab's room state in the settings menu
+        function refreshRoomStateDisplay() {
+            const roomState = activeRoomState();
             document.getElementById('shield-status').textContent = roomState.shieldMode ? 'ON' : 'OFF';
             document.getElementById('subs-status').textContent = roomState.subsOnly ? 'ON' : 'OFF';
             document.getElementById('emotes-status').textContent = roomState.emotesOnly ? 'ON' : 'OFF';
@@ -1191,61 +3025,144 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
             }
         }
 
-        // Message deletion helpers
-        function removeMessageById(messageId) {
-            const message = chatContainer.querySelector(\`[data-message-id="\${messageId}"]\`);
-            if (message) {
-                message.style.opacity = '0.3';
-                message.style.textDecoration = 'line-through';
-                setTimeout(() => {
-                    if (message.parentNode) {
-                        message.parentNode.removeChild(message);
-                    }
-                }, 500);
-            }
-        }
-
-        function removeMessagesByUsername(username) {
-            const messages = chatContainer.querySelectorAll(\`[data-username="\${username}"]\`);
-            messages.forEach(message => {
-                message.style.opacity = '0.3';
-                message.style.textDecoration = 'line-through';
-            });
+        // Message deletion helpers: strike the messages through, then drop them from the buffer
+        function removeMessages(ch, predicate) {
+            dropQueuedMessages(msg => msg.channel === ch.name && predicate(msg));
+            const removed = new Set(ch.feed.buffer.toArray().filter(entry => predicate(entry.msg)));
+            if (removed.size === 0) return;
+            removed.forEach(entry => { entry.removing = true; });
+            scheduleRender(ch);
             setTimeout(() => {
-                messages.forEach(message => {
-                    if (message.parentNode) {
-                        message.parentNode.removeChild(message);
-                    }
-                });
+                ch.feed.buffer.removeWhere(entry => removed.has(entry));
+                invalidateFeed(ch);
+                updateSearchStatus();
             }, 500);
         }
 
-        function clearAllMessages() {
-            while (chatContainer.firstChild) {
-                chatContainer.removeChild(chatContainer.firstChild);
+        function removeMessageById(ch, messageId) {
+            removeMessages(ch, msg => msg.messageId === messageId);
+        }
+
+        function removeMessagesByUsername(ch, username) {
+            removeMessages(ch, msg => msg.username === username);
+        }
+
+        function clearAllMessages(channelName) {
+            const ch = channels[channelName];
+            if (!ch) return;
+            dropQueuedMessages(msg => msg.channel === channelName);
+            ch.feed.buffer.clear();
+            invalidateFeed(ch);
+            updateSearchStatus();
+        }
+
+        // Dispatch a chat event from the extension host to its channel tab
+        function handleChatEvent(event) {
+            if (!event || !event.channel) return;
+            const ch = ensureChannel(event.channel);
+
+            switch (event.type) {
+                case 'message':
+                    queueChatMessage(event.message);
+                    break;
+                case 'roomState':
+                    handleRoomState(event.channel, event.roomState);
+                    break;
+                case 'permissions':
+                    handlePermissions(event.channel, event);
+                    break;
+                case 'messageDeleted':
+                    removeMessageById(ch, event.messageId);
+                    break;
+                case 'userCleared':
+                    removeMessagesByUsername(ch, event.username);
+                    break;
+                case 'chatCleared':
+                    clearAllMessages(event.channel);
+                    break;
             }
         }
 
-        function addChatMessage(msg) {
-            // Handle room state updates
-            if (msg.roomStateUpdate) {
-                handleRoomState(msg.roomStateUpdate);
+        function queueChatMessage(msg) {
+            if (slowChatRate <= 0) {
+                addChatMessage(msg);
                 return;
             }
-            // Handle deletion messages
-            if (msg.deletedMessageId) {
-                removeMessageById(msg.deletedMessageId);
-                return;
+
+            slowChatQueue.push(msg);
+            // Never fall more than a few seconds behind
+            while (slowChatQueue.length > slowChatRate * SLOW_CHAT_MAX_DELAY_S) {
+                addChatMessage(slowChatQueue.shift());
             }
-            if (msg.deletedUsername) {
-                removeMessagesByUsername(msg.deletedUsername);
-                return;
+            if (!slowChatTimer) {
+                releaseQueuedMessage();
             }
-            if (msg.clearAllMessages) {
-                clearAllMessages();
-                return;
+        }
+
+        // Show the next queued message, then wait before the one after
+        function releaseQueuedMessage() {
+            slowChatTimer = null;
+            const msg = slowChatQueue.shift();
+            if (!msg) return;
+            addChatMessage(msg);
+            slowChatTimer = setTimeout(releaseQueuedMessage, 1000 / slowChatRate);
+        }
+
+        function setSlowChatRate(rate) {
+            slowChatRate = rate;
+            if (slowChatRate <= 0) {
+                clearTimeout(slowChatTimer);
+                slowChatTimer = null;
+                const queued = slowChatQueue;
+                slowChatQueue = [];
+                queued.forEach(addChatMessage);
+            }
+        }
+
+        function dropQueuedMessages(predicate) {
+            slowChatQueue = slowChatQueue.filter(msg => !predicate(msg));
+        }
+
+        function addChatMessage(msg) {
+            if (!msg.channel) return;
+            const ch = ensureChannel(msg.channel);
+            const feed = ch.feed;
+            rememberChatter(msg);
+
+            // Count unread chat messages on background tabs
+            const isChatMessage = !msg.messageType || msg.messageType === 'chat';
+            if (isChatMessage && msg.channel !== activeChannel) {
+                ch.unread++;
+                updateTabUnread(ch);
+            }
+
+            const entry = {
+                msg,
+                height: undefined,
+                // Slide in only if it arrives in view
+                isNew: msg.channel === activeChannel && feed.following && !scrollPaused,
+                removing: false,
+                highlight: false
+            };
+            const evicted = feed.buffer.push(entry);
+            if (!feed.viewDirty) {
+                // The view is in buffer order, so only its first entry can have been dropped
+                if (evicted && feed.view[0] === evicted) {
+                    feed.view.shift();
+                }
+                if (!searchQuery || matchesSearch(msg, searchQuery)) {
+                    feed.view.push(entry);
+                }
             }
 
+            if (searchQuery && msg.channel === activeChannel) {
+                updateSearchStatus();
+            }
+            scheduleRender(ch);
+        }
+
+        // Build the DOM row for a message
+        function createMessageElement(msg) {
             const messageDiv = document.createElement('div');
             messageDiv.className = 'chat-message';
             
@@ -1261,6 +3178,9 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
             if (msg.messageType) {
                 messageDiv.classList.add(msg.messageType);
             }
+            if (msg.highlight) {
+                messageDiv.classList.add('highlight-' + msg.highlight);
+            }
 
             // Handle system messages differently (no username, just message)
             if (msg.messageType === 'system') {
@@ -1268,12 +3188,7 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
                 messageContent.className = 'message-content';
                 messageContent.textContent = msg.message;
                 messageDiv.appendChild(messageContent);
-                chatContainer.appendChild(messageDiv);
-                
-                if (!scrollPaused) {
-                    chatContainer.scrollTop = chatContainer.scrollHeight;
-                }
-                return;
+                return messageDiv;
             }
 
             // Create header with badges, username, and timestamp
@@ -1311,36 +3226,21 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
                 headerDiv.appendChild(firstTimeBadge);
             }
 
-            // Add badges
-            if (msg.badges && msg.badges.length > 0) {
+            // Add badges (resolved to images and titles by the extension)
+            if (msg.badgeDetails && msg.badgeDetails.length > 0) {
                 const badgesDiv = document.createElement('div');
                 badgesDiv.className = 'badges';
 
-                msg.badges.forEach(badge => {
-                    let badgeUrl = null;
-                    let badgeName = '';
-                    
-                    // Check if badge is already a URL or a badge name
-                    if (badge.startsWith('http://') || badge.startsWith('https://')) {
-                        badgeUrl = badge;
-                        badgeName = 'badge';
-                    } else if (badgeUrls[badge]) {
-                        badgeUrl = badgeUrls[badge];
-                        badgeName = badge;
-                    }
-                    
-                    if (badgeUrl) {
-                        const badgeImg = document.createElement('img');
-                        badgeImg.src = badgeUrl;
-                        badgeImg.className = 'badge';
-                        badgeImg.alt = badgeName;
-                        badgesDiv.appendChild(badgeImg);
-                    }
+                msg.badgeDetails.forEach(badge => {
+                    const badgeImg = document.createElement('img');
+                    badgeImg.src = badge.url;
+                    badgeImg.className = 'badge';
+                    badgeImg.alt = badge.set;
+                    badgeImg.title = badge.title;
+                    badgesDiv.appendChild(badgeImg);
                 });
 
-                if (badgesDiv.children.length > 0) {
-                    headerDiv.appendChild(badgesDiv);
-                }
+                headerDiv.appendChild(badgesDiv);
             }
 
             // Add username with color (clickable for moderation)
@@ -1357,9 +3257,15 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
                 // Add click handler for moderation menu
                 usernameSpan.addEventListener('click', (e) => {
                     e.stopPropagation();
+
+                    // Moderation menu only where the user has mod rights
+                    if (!channels[msg.channel] || !channels[msg.channel].canModerate) {
+                        return;
+                    }
                     
                     currentModTarget = msg.username;
                     currentModMessageId = msg.messageId;
+                    currentModChannel = msg.channel;
                     modMenuUsername.textContent = msg.displayName;
                     
                     // Smart positioning: check if menu would go off bottom of screen
@@ -1399,88 +3305,51 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
             // Add message content with emotes
             const contentDiv = document.createElement('div');
             contentDiv.className = 'message-content';
-            contentDiv.innerHTML = parseMessageWithEmotes(msg.message, msg.emotes, msg.thirdPartyEmotes);
+            appendFragments(contentDiv, msg);
             messageDiv.appendChild(contentDiv);
-
-            chatContainer.appendChild(messageDiv);
-
-            // Limit message history to 200 messages
-            while (chatContainer.children.length > 200) {
-                chatContainer.removeChild(chatContainer.firstChild);
-            }
-
-            // Auto-scroll to bottom - scroll container to its maximum height (unless paused)
-            if (!scrollPaused) {
-                requestAnimationFrame(() => {
-                    chatContainer.scrollTop = chatContainer.scrollHeight;
-                });
-            }
-        }
-
-        function parseMessageWithEmotes(text, twitchEmotes, thirdPartyEmotes) {
-            let html = '';
-
-            // First, handle Twitch emotes (position-based)
-            if (!twitchEmotes || Object.keys(twitchEmotes).length === 0) {
-                html = escapeHtml(text);
-            } else {
-                const parts = [];
-                let lastIndex = 0;
-
-                // Create array of emote positions
-                const emotePositions = [];
-                for (const [emoteId, positions] of Object.entries(twitchEmotes)) {
-                    positions.forEach(pos => {
-                        const [start, end] = pos.split('-').map(Number);
-                        emotePositions.push({ start, end, emoteId });
-                    });
-                }
-
-                // Sort by start position
-                emotePositions.sort((a, b) => a.start - b.start);
-
-                // Build the message with emotes
-                emotePositions.forEach(({ start, end, emoteId }) => {
-                    // Add text before emote
-                    if (start > lastIndex) {
-                        parts.push(escapeHtml(text.substring(lastIndex, start)));
+            return messageDiv;
+        }
+
+        // Build message content from the fragments tokenized in the extension host
+        function appendFragments(parent, msg) {
+            const fragments = msg.fragments || [{ type: 'text', text: msg.message }];
+            fragments.forEach(fragment => {
+                switch (fragment.type) {
+                    case 'emote':
+                    case 'cheermote': {
+                        const img = document.createElement('img');
+                        img.className = fragment.type;
+                        img.src = fragment.url;
+                        img.alt = fragment.text;
+                        img.title = fragment.text;
+                        parent.appendChild(img);
+                        if (fragment.type === 'cheermote') {
+                            const amount = document.createElement('span');
+                            amount.className = 'cheer-amount';
+                            amount.style.color = fragment.color;
+                            amount.textContent = fragment.bits;
+                            parent.appendChild(amount);
+                        }
+                        break;
                     }
-
-                    // Add emote image
-                    const emoteUrl = \`https://static-cdn.jtvnw.net/emoticons/v2/\${emoteId}/default/dark/1.0\`;
-                    parts.push(\`<img class="emote" src="\${emoteUrl}" alt="emote" />\`);
-
-                    lastIndex = end + 1;
-                });
-
-                // Add remaining text
-                if (lastIndex < text.length) {
-                    parts.push(escapeHtml(text.substring(lastIndex)));
-                }
-
-                html = parts.join('');
-            }
-
-            // Second, handle third-party emotes (word-based)
-            if (thirdPartyEmotes && Object.keys(thirdPartyEmotes).length > 0) {
-                // Split by word boundaries while preserving spaces
-                const words = html.split(/(\\s+)/);
-                html = words.map(word => {
-                    // Skip if it's whitespace or contains HTML (already an emote)
-                    if (/^\\s+$/.test(word) || word.includes('<img')) {
-                        return word;
+                    case 'mention': {
+                        const mention = document.createElement('span');
+                        mention.className = 'mention';
+                        mention.textContent = fragment.text;
+                        parent.appendChild(mention);
+                        break;
                     }
-                    
-                    // Check if this word is a third-party emote
-                    if (thirdPartyEmotes[word]) {
-                        return \`<img class="emote" src="\${thirdPartyEmotes[word]}" alt="\${word}" title="\${word}" />\`;
+                    case 'url': {
+                        const link = document.createElement('a');
+                        link.href = fragment.url;
+                        link.textContent = fragment.text;
+                        parent.appendChild(link);
+                        break;
                     }
-                    
-                    return word;
-                }).join('');
-            }
-
-            return html;
+                    default:
+                        parent.appendChild(document.createTextNode(fragment.text));
+                }
+            });
         }
 
         function escapeHtml(text) {
@@ -1522,45 +3391,132 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
     /**
      * Sign in to Twitch via OAuth server
      */
-    private async signIn() {
-        const session = await this.authProvider.signIn();
+    public async signIn() {
+        // The chat reconnects from handleSessionsChanged
+        await this.authProvider.signIn();
+    }
+
+    /**
+     * Sign out from Twitch
+     */
+    public async signOut() {
+        // The chat reconnects from handleSessionsChanged
+        await this.authProvider.signOut();
+    }
+
+    /**
+     * React to the Twitch session changing
+     * Covers signing in/out here, from the Accounts menu or another extension,
+     * the session being dropped because Twitch rejected it, and token refreshes
+     * @param event The session change
+     */
+    private async handleSessionsChanged(event: vscode.AuthenticationProviderAuthenticationSessionsChangeEvent) {
+        if ((event.added && event.added.length > 0) || (event.removed && event.removed.length > 0)) {
+            const session = await this.authProvider.getSession();
+            this.moderatorScopesDeclined = false;
+            this.moderatorScopesOffered = false;
 
-        if (session) {
             // Send auth status to webview
             this.sendMessageToWebview({
                 type: 'authStatus',
-                isAuthenticated: true,
-                username: session.username
+                isAuthenticated: session !== undefined,
+                username: session?.username
             });
 
-            // Reconnect with authentication
+            // Reconnect with (or without) authentication
             await this.updateChannel();
+        } else if (event.changed && event.changed.length > 0) {
+            // Token refreshed - keep the connection, just swap the token
+            const token = await this.getAuthToken();
+            if (token) {
+                this.twitchClient.updateToken(token);
+            }
+
+            // Resubscribes the moderator-only EventSub topics if the granted scopes changed
+            const session = await this.authProvider.getSession();
+            this.twitchClient.setModeratorScopesGranted(this.hasModeratorScopes(session));
         }
     }
 
     /**
-     * Sign out from Twitch
+     * Check whether a session was granted the moderator scopes
+     * @param session The session, or undefined when signed out
      */
-    private async signOut() {
-        await this.authProvider.signOut();
+    private hasModeratorScopes(session: AuthSession | undefined): boolean {
+        return session !== undefined && this.authProvider.hasScopes(session, extensionConfig.twitch.moderatorScopes);
+    }
 
-        // Send auth status to webview
-        this.sendMessageToWebview({
-            type: 'authStatus',
-            isAuthenticated: false,
-            username: undefined
-        });
+    /**
+     * Offer the moderator scopes once, the first time the user turns out to moderate a channel
+     * Without them the channel's follow, Shield Mode and moderation events aren't shown
+     * @param channel The channel the user moderates
+     */
+    private async offerModeratorScopes(channel: string) {
+        if (this.moderatorScopesOffered || this.moderatorScopesDeclined) {
+            return;
+        }
+
+        // Checked again after the await, USERSTATE for several channels arrives at once
+        const session = await this.authProvider.getSession();
+        const scopes = extensionConfig.twitch.moderatorScopes;
+        if (!session || this.authProvider.hasScopes(session, scopes) || this.moderatorScopesOffered) {
+            return;
+        }
+        this.moderatorScopesOffered = true;
+
+        const choice = await vscode.window.showInformationMessage(
+            `You moderate ${channel}. Grant additional Twitch permissions to see follows, Shield Mode and moderation events there?`,
+            'Grant Permissions'
+        );
+        if (choice !== 'Grant Permissions') {
+            this.moderatorScopesDeclined = true;
+            return;
+        }
+
+        await this.authProvider.signIn(scopes);
+    }
+
+    /**
+     * Make sure the session was granted the moderator scopes, offering to grant them if not
+     * Scopes are requested incrementally, so the first moderation action asks for them
+     * @returns True if the scopes are granted; false if the user has to retry after granting them
+     */
+    private async ensureModeratorScopes(): Promise<boolean> {
+        const session = await this.authProvider.getSession();
+        if (!session) {
+            return false;
+        }
+
+        const scopes = extensionConfig.twitch.moderatorScopes;
+        if (this.authProvider.hasScopes(session, scopes)) {
+            return true;
+        }
+
+        if (this.moderatorScopesDeclined) {
+            vscode.window.showWarningMessage('Moderation tools need additional Twitch permissions. Sign in again to grant them.');
+            return false;
+        }
+
+        const choice = await vscode.window.showInformationMessage(
+            'Moderation tools need additional Twitch permissions (ban, delete messages, chat settings, Shield Mode).',
+            'Grant Permissions'
+        );
+        if (choice !== 'Grant Permissions') {
+            this.moderatorScopesDeclined = true;
+            return false;
+        }
 
-        // Reconnect without authentication
-        await this.updateChannel();
+        await this.authProvider.signIn(scopes);
+        return false;
     }
 
     /**
      * Send a message to the Twitch chat
      * Requires authentication token
+     * @param channel The channel of the active tab
      * @param message The message to send
      */
-    private async sendChatMessage(message: string) {
+    private async sendChatMessage(channel: string, message: string) {
         if (!(await this.isAuthenticated())) {
             vscode.window.showWarningMessage('You must sign in to send messages. Click "Sign In" to authenticate.');
             return;
@@ -1571,7 +3527,7 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
         }
 
         try {
-            await this.twitchClient.sendMessage(message);
+            await this.twitchClient.sendMessage(channel, message);
             this.sendMessageToWebview({
                 type: 'messageSent',
                 success: true
@@ -1590,16 +3546,26 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
     /**
      * Moderate a user (timeout, ban, delete message)
      * Requires authentication with channel:moderate scope
+     * @param channel The channel of the active tab
      * @param action The moderation action to perform
      * @param username The username to moderate
      * @param messageId Optional message ID for deletion
      */
-    private async moderateUser(action: string, username: string, messageId?: string) {
+    private async moderateUser(channel: string, action: string, username: string, messageId?: string) {
         if (!(await this.isAuthenticated())) {
             vscode.window.showWarningMessage('You must sign in to use moderation tools.');
             return;
         }
 
+        if (!this.twitchClient.canModerate(channel)) {
+            vscode.window.showWarningMessage(`You are not a moderator in #${channel}.`);
+            return;
+        }
+
+        if (!(await this.ensureModeratorScopes())) {
+            return;
+        }
+
         const token = await this.getAuthToken();
         if (!token) {
             vscode.window.showWarningMessage('Could not get authentication token.');
@@ -1607,7 +3573,7 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
         }
 
         try {
-            await this.twitchClient.moderate(action, username, token, messageId);
+            await this.twitchClient.moderate(channel, action, username, token, messageId);
 
             // Show success message in chat
             let actionName = '';
@@ -1623,26 +3589,36 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
             }
 
             if (actionName) {
-                this.sendSystemMessage(`${actionName}: ${username}`);
+                this.sendSystemMessage(channel, `${actionName}: ${username}`);
             }
         } catch (error) {
             this.outputChannel.appendLine(`Error moderating user: ${error}`);
-            this.sendSystemMessage(`Failed to moderate ${username}: ${error}`);
+            this.sendSystemMessage(channel, `Failed to moderate ${username}: ${error}`);
         }
     }
 
     /**
      * Toggle chat mode (Shield Mode, Subs-Only, etc.)
+     * @param channel The channel of the active tab
      * @param mode The mode to toggle
      * @param enabled Whether to enable or disable (for chat settings)
      * @param value Optional value for modes like slow mode
      */
-    private async toggleChatMode(mode: string, enabled?: boolean, value?: number) {
+    private async toggleChatMode(channel: string, mode: ChatMode, enabled?: boolean, value?: number) {
         if (!(await this.isAuthenticated())) {
             vscode.window.showWarningMessage('You must sign in to change chat settings.');
             return;
         }
 
+        if (!this.twitchClient.canModerate(channel)) {
+            vscode.window.showWarningMessage(`You are not a moderator in #${channel}.`);
+            return;
+        }
+
+        if (!(await this.ensureModeratorScopes())) {
+            return;
+        }
+
         const token = await this.getAuthToken();
         if (!token) {
             vscode.window.showWarningMessage('Could not get authentication token.');
@@ -1650,33 +3626,231 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
         }
 
         try {
-            await this.twitchClient.toggleChatMode(mode, token, enabled, value);
+            await this.twitchClient.toggleChatMode(channel, mode, token, enabled, value);
 
             // Show success message in chat
-            const modeNames: { [key: string]: string } = {
+            const modeNames: { [key in ChatMode]: string } = {
                 'shield': 'Shield Mode',
                 'subsOnly': 'Subscribers-Only',
                 'emotesOnly': 'Emotes-Only',
                 'followersOnly': 'Followers-Only',
                 'slowMode': 'Slow Mode'
             };
-            const modeName = modeNames[mode] || mode;
+            const modeName = modeNames[mode];
             const state = enabled === false ? 'disabled' : 'enabled';
-            this.sendSystemMessage(`${modeName} ${state}`);
+            this.sendSystemMessage(channel, `${modeName} ${state}`);
         } catch (error) {
             this.outputChannel.appendLine(`Error toggling chat mode: ${error}`);
-            this.sendSystemMessage(`Failed to update chat mode: ${error}`);
+            this.sendSystemMessage(channel, `Failed to update chat mode: ${error}`);
         }
     }
 
     /**
-     * Send a system message to the chat
-     * @param message The system message to display
+     * Get the joined channels
+     * @returns The channel names
+     */
+    public getChannels(): string[] {
+        return this.twitchClient.getChannels();
+    }
+
+    /**
+     * Get the current chat modes of a joined channel
+     * @param channel The channel name
+     * @returns The room state, or undefined if the channel isn't joined
+     */
+    public getRoomState(channel: string): RoomState | undefined {
+        return this.twitchClient.getRoomState(channel);
+    }
+
+    /**
+     * Send a chat message for another extension
+     * Unlike the webview path, failures are thrown to the caller instead of shown as notifications
+     * @param channel A joined channel
+     * @param message The message to send
+     */
+    public async sendMessage(channel: string, message: string): Promise<void> {
+        if (!(await this.isAuthenticated())) {
+            throw new Error('Not signed in to Twitch');
+        }
+
+        if (!message || message.trim() === '') {
+            throw new Error('Message is empty');
+        }
+
+        await this.twitchClient.sendMessage(channel, message);
+    }
+
+    /**
+     * Run a moderation action for another extension
+     * Doesn't prompt for missing moderator scopes; the user grants them from the chat view
+     * @param channel A joined channel
+     * @param action The moderation action ('ban', 'timeout-<seconds>', 'untimeout' or 'delete')
+     * @param username The username to moderate
+     * @param messageId Message ID for deletion
+     */
+    public async moderate(channel: string, action: string, username: string, messageId?: string): Promise<void> {
+        const session = await this.authProvider.getSession();
+        if (!session) {
+            throw new Error('Not signed in to Twitch');
+        }
+
+        if (!this.twitchClient.canModerate(channel)) {
+            throw new Error(`Not a moderator in #${channel}`);
+        }
+
+        if (!this.authProvider.hasScopes(session, extensionConfig.twitch.moderatorScopes)) {
+            throw new Error('Moderator permissions have not been granted');
+        }
+
+        await this.twitchClient.moderate(channel, action, username, session.accessToken, messageId);
+    }
+
+    /**
+     * Add a slash command to the webview's chat input
+     * @param command The command definition
+     * @returns Disposable that removes the command
+     */
+    public registerCommand(command: ChatCommand): vscode.Disposable {
+        const name = command.name.replace(/^\//, '').toLowerCase();
+
+        if (!/^[a-z0-9_-]+$/.test(name)) {
+            throw new Error(`Invalid command name: ${command.name}`);
+        }
+        if (TwitchChatViewProvider.BUILT_IN_COMMANDS.includes(name) || this.customCommands.has(name)) {
+            throw new Error(`Command /${name} is already registered`);
+        }
+
+        this.customCommands.set(name, command);
+        this.sendCustomCommands();
+        this.outputChannel.appendLine(`Registered chat command /${name}`);
+
+        return new vscode.Disposable(() => {
+            if (this.customCommands.get(name) === command) {
+                this.customCommands.delete(name);
+                this.sendCustomCommands();
+            }
+        });
+    }
+
+    /**
+     * Push view settings that changed to the webview
+     */
+    updateViewSettings() {
+        this.sendMessageToWebview({
+            type: 'viewSettings',
+            scrollbackSize: this.getScrollbackSize(),
+            slowChatRate: this.getSlowChatRate()
+        });
+    }
+
+    /**
+     * Messages kept per channel in the webview (`twitchChat.scrollbackSize`)
+     */
+    private getScrollbackSize(): number {
+        const size = vscode.workspace.getConfiguration('twitchChat').get<number>('scrollbackSize', extensionConfig.scrollback.defaultSize);
+        return Math.max(extensionConfig.scrollback.minSize, Math.floor(size) || extensionConfig.scrollback.defaultSize);
+    }
+
+    /**
+     * Most messages shown per second in slow chat, 0 when off (`twitchChat.slowChatRate`)
      */
-    private sendSystemMessage(message: string) {
+    private getSlowChatRate(): number {
+        const rate = vscode.workspace.getConfiguration('twitchChat').get<number>('slowChatRate', 0);
+        return rate > 0 ? rate : 0;
+    }
+
+    private sendCustomCommands() {
         this.sendMessageToWebview({
-            type: 'chatMessage',
+            type: 'customCommands',
+            commands: Array.from(this.customCommands, ([name, command]) => ({
+                name: name,
+                args: command.args || '',
+                description: command.description,
+                moderatorOnly: command.moderatorOnly === true
+            }))
+        });
+    }
+
+    /**
+     * Send the emotes offered by the chat input's autocomplete and emote picker
+     * @param channel The channel whose emotes changed; every joined channel if omitted
+     */
+    private sendEmoteChoices(channel?: string) {
+        const channels = channel ? [channel] : this.twitchClient.getChannels();
+        for (const name of channels) {
+            this.sendMessageToWebview({ type: 'emoteChoices', channel: name, emotes: this.twitchClient.getEmoteChoices(name) });
+        }
+    }
+
+    /**
+     * Run a custom slash command typed in the webview
+     * @param channel The channel of the active tab
+     * @param name The command name without the slash
+     * @param args The words after the command name
+     */
+    private async runCustomCommand(channel: string, name: string, args: string[]) {
+        const command = this.customCommands.get(name);
+        if (!command) {
+            return;
+        }
+
+        if (command.moderatorOnly && !this.twitchClient.canModerate(channel)) {
+            vscode.window.showWarningMessage(`You are not a moderator in #${channel}.`);
+            return;
+        }
+
+        try {
+            await command.execute({ channel: channel, args: args });
+        } catch (error) {
+            this.outputChannel.appendLine(`Error running /${name}: ${error}`);
+            this.sendSystemMessage(channel, `/${name} failed: ${error}`);
+        }
+    }
+
+    /**
+     * Search the logged chat of a channel and send the results to the webview
+     * @param channel The channel of the active tab
+     * @param query The search criteria
+     */
+    private async searchHistory(channel: string, query: SearchQuery) {
+        try {
+            const { results, truncated } = await this.chatLogger.searchMessages(channel, query);
+            this.sendMessageToWebview({ type: 'searchResults', channel, results: results.map(forWebview), truncated });
+        } catch (error) {
+            this.outputChannel.appendLine(`Error searching chat history: ${error}`);
+            this.sendMessageToWebview({ type: 'searchResults', channel, results: [], truncated: false });
+        }
+    }
+
+    /**
+     * Send the logged messages around a search result to the webview
+     * @param channel The channel of the result
+     * @param messageId The result's message ID
+     * @param timestamp When the result was sent
+     */
+    private async loadHistoryContext(channel: string, messageId: string, timestamp: number) {
+        try {
+            const messages = await this.chatLogger.readContext(channel, messageId, timestamp);
+            this.sendMessageToWebview({ type: 'historyContext', channel, messageId, messages: messages.map(forWebview) });
+        } catch (error) {
+            this.outputChannel.appendLine(`Error loading chat history: ${error}`);
+        }
+    }
+
+    /**
+     * Send a system message to a channel's chat tab
+     * @param channel The channel tab to show the message in
+     * @param message The system message to display
+     */
+    private sendSystemMessage(channel: string, message: string) {
+        const timestamp = Date.now();
+        // Through the batch queue, so it stays in order with chat
+        this.queueEvent({
+            type: 'message',
+            channel: channel,
+            timestamp: timestamp,
             message: {
+                channel: channel,
                 username: '',
                 displayName: '',
                 message: message,
@@ -1684,7 +3858,7 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
                 badges: [],
                 emotes: {},
                 thirdPartyEmotes: {},
-                timestamp: Date.now(),
+                timestamp: timestamp,
                 messageType: 'system'
             }
         });
@@ -1697,11 +3871,26 @@ export class TwitchChatViewProvider implements vscode.WebviewViewProvider {
     public dispose() {
         this.outputChannel.appendLine('TwitchChatViewProvider disposing...');
         this.twitchClient.disconnect();
+        if (this.batchTimer) {
+            clearTimeout(this.batchTimer);
+            this.batchTimer = undefined;
+        }
+        this.sessionsChangedListener.dispose();
+        this.emoteChoicesListener.dispose();
+        this.eventEmitter.dispose();
+        this.customCommands.clear();
         this._view = undefined;
     }
 }
 
-function getNonce() {
+/**
+ * Make sure a logged message has the fragments and badges the webview renders
+ */
+function forWebview(message: TwitchMessage): TwitchMessage {
+    return message.fragments && message.badgeDetails ? message : { ...message, fragments: getFragments(message), badgeDetails: getMessageBadges(message) };
+}
+
+export function getNonce() {
     let text = '';
     const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
     for (let i = 0; i < 32; i++) {
@@ -1,48 +1,68 @@
 import * as tmi from 'tmi.js';
 import * as vscode from 'vscode';
-import * as https from 'https';
-import { EmoteService } from './emoteService';
+import { BadgeService } from './badgeService';
+import { EmoteService, EmoteSetChange } from './emoteService';
+import { EventSubClient, EventSubNotification, EventSubSubscription } from './eventSubClient';
 import { config } from './config';
-
-export interface TwitchMessage {
-    username: string;
-    displayName: string;
-    message: string;
-    color: string;
-    badges: string[];
-    emotes: { [emoteid: string]: string[] };
-    thirdPartyEmotes: { [emoteName: string]: string };
-    timestamp: number;
-    messageId?: string;
-    isFirstMessage?: boolean;
-    messageType?: 'chat' | 'subscription' | 'resub' | 'subgift' | 'bits' | 'system';
-    bits?: number;
-    subMonths?: number;
-    subTier?: string;
-    gifterName?: string;
-    recipientName?: string;
+import { HelixClient } from './helixClient';
+import { ChatEvent, EmoteChoice, RoomState, TwitchMessage } from './protocol';
+import { CheermoteTier, tokenizeMessage } from './messageTokenizer';
+
+
+/**
+ * Per-channel state tracked while joined
+ */
+interface ChannelState {
+    name: string;
+    userId?: string;
+    thirdPartyEmotes: Map<string, string>;
+    /** Cheermote tiers by lowercase prefix (global and the channel's own) */
+    cheermotes: { [prefix: string]: CheermoteTier[] };
+    isModerator: boolean;
+    isBroadcaster: boolean;
+    /** Our own badges in the channel (set -> version), from USERSTATE */
+    ownBadges: { [set: string]: string };
+    ownBadgeInfo: { [set: string]: string };
+    roomState: RoomState;
 }
 
 export class TwitchClient {
-    private static readonly CLIENT_ID = config.twitch.clientId;
-    private static readonly BROADCASTER_BADGE_URL = 'https://static-cdn.jtvnw.net/badges/v1/5527c58c-fb7d-422d-b71b-f309dcb85cc1/1';
-
     private client: tmi.Client | null = null;
-    private currentChannel: string = '';
+    private channels: Map<string, ChannelState> = new Map();
     private currentUsername: string | undefined;
     private currentUserId: string | undefined;
     private currentUserColor: string | undefined;
-    private messageCallback: ((message: TwitchMessage) => void) | null = null;
+    private eventCallback: ((event: ChatEvent) => void) | null = null;
     private outputChannel: vscode.OutputChannel;
     private emoteService: EmoteService;
-    private thirdPartyEmotes: Map<string, string> = new Map();
-    private shieldModePollingInterval: NodeJS.Timeout | undefined;
+    private badgeService: BadgeService;
+    private eventSub: EventSubClient | null = null;
     private authToken: string | undefined;
+    // Whether the session was granted the moderator scopes the moderator-only EventSub topics need
+    private moderatorScopesGranted: boolean = false;
+    // Twitch emotes the signed-in user can use everywhere (from GLOBALUSERSTATE emote-sets)
+    private ownEmotes: EmoteChoice[] = [];
+    private ownEmoteSetIds: string = '';
+    private readonly emoteChoicesEmitter = new vscode.EventEmitter<string | undefined>();
 
-    constructor(private onMessage: (message: TwitchMessage) => void, outputChannel: vscode.OutputChannel) {
-        this.messageCallback = onMessage;
+    /**
+     * Fires when the emotes offered in a channel's chat input change
+     * Carries the channel name, or undefined when every channel is affected
+     */
+    readonly onDidChangeEmoteChoices = this.emoteChoicesEmitter.event;
+
+    constructor(
+        private onEvent: (event: ChatEvent) => void,
+        outputChannel: vscode.OutputChannel,
+        private readonly helix: HelixClient,
+        emoteService: EmoteService,
+        badgeService: BadgeService
+    ) {
+        this.eventCallback = onEvent;
         this.outputChannel = outputChannel;
-        this.emoteService = new EmoteService(outputChannel);
+        this.emoteService = emoteService;
+        this.badgeService = badgeService;
+        this.emoteService.onDidChangeEmotes((change) => this.handleEmoteSetChange(change));
         this.outputChannel.appendLine('TwitchClient constructor called');
     }
 
@@ -52,68 +72,29 @@ export class TwitchClient {
      * @returns Promise resolving to username or undefined if failed
      */
     private async fetchUsername(token: string): Promise<string | undefined> {
-        return new Promise((resolve) => {
-            const cleanToken = token.replace('oauth:', '');
-            const options = {
-                hostname: 'api.twitch.tv',
-                path: '/helix/users',
-                method: 'GET',
-                headers: {
-                    'Authorization': `Bearer ${cleanToken}`,
-                    'Client-Id': TwitchClient.CLIENT_ID
-                }
-            };
-
-            const req = https.request(options, (res) => {
-                let data = '';
-
-                res.on('data', (chunk) => {
-                    data += chunk;
-                });
-
-                res.on('end', async () => {
-                    try {
-                        if (res.statusCode === 200) {
-                            const json = JSON.parse(data);
-                            if (json.data && json.data.length > 0) {
-                                const username = json.data[0].login;
-                                const userId = json.data[0].id;
-                                this.currentUserId = userId;
-                                this.outputChannel.appendLine(`Fetched username: ${username}, ID: ${userId}`);
-                                resolve(username);
-                            } else {
-                                this.outputChannel.appendLine('No user data in response');
-                                resolve(undefined);
-                            }
-                        } else {
-                            this.outputChannel.appendLine(`Failed to fetch username: HTTP ${res.statusCode}`);
-                            this.outputChannel.appendLine(`Response: ${data}`);
-                            resolve(undefined);
-                        }
-                    } catch (error) {
-                        this.outputChannel.appendLine(`Error parsing user data: ${error}`);
-                        resolve(undefined);
-                    }
-                });
-            });
-
-            req.on('error', (error) => {
-                this.outputChannel.appendLine(`Error fetching username: ${error}`);
-                resolve(undefined);
-            });
+        try {
+            const [user] = await this.helix.get('/users', {}, token);
+            if (!user) {
+                this.outputChannel.appendLine('No user data in response');
+                return undefined;
+            }
 
-            req.end();
-        });
+            this.currentUserId = user.id;
+            this.outputChannel.appendLine(`Fetched username: ${user.login}, ID: ${user.id}`);
+            return user.login;
+        } catch (error) {
+            this.outputChannel.appendLine(`Failed to fetch username: ${error}`);
+            return undefined;
+        }
     }
 
-
     /**
-     * Connect to a Twitch channel's IRC chat
-     * @param channel The Twitch channel name to connect to
+     * Connect to one or more Twitch channels' IRC chat
+     * @param channels The Twitch channel names to join
      * @param token Optional OAuth token for authenticated connection
      */
-    async connect(channel: string, token?: string): Promise<void> {
-        this.outputChannel.appendLine(`TwitchClient.connect() called with channel: "${channel}"`);
+    async connect(channels: string[], token?: string): Promise<void> {
+        this.outputChannel.appendLine(`TwitchClient.connect() called with channels: "${channels.join(', ')}"`);
 
         // Disconnect if already connected
         if (this.client) {
@@ -121,14 +102,16 @@ export class TwitchClient {
             await this.disconnect();
         }
 
-        if (!channel || channel.trim() === '') {
-            this.outputChannel.appendLine('Channel is empty, aborting connection');
+        const normalized = Array.from(new Set(channels.map(c => this.normalizeChannel(c)).filter(c => c !== '')));
+        if (normalized.length === 0) {
+            this.outputChannel.appendLine('No channels given, aborting connection');
             return;
         }
 
-        channel = channel.replace('#', '').toLowerCase().trim();
-        this.currentChannel = channel;
-        this.outputChannel.appendLine(`Normalized channel name: "${channel}"`);
+        for (const channel of normalized) {
+            this.channels.set(channel, this.createChannelState(channel));
+        }
+        this.outputChannel.appendLine(`Normalized channel names: "${normalized.join(', ')}"`);
 
         // Fetch username if token is provided
         let username: string | undefined;
@@ -152,31 +135,34 @@ export class TwitchClient {
                 reconnect: true,
                 secure: true
             },
-            channels: [channel],
+            channels: normalized,
             options: {
                 debug: false
             },
             identity: token && username ? {
                 username: username,
-                password: `oauth:${token.replace('oauth:', '')}`
+                // Read on every (re)connect so a refreshed token is picked up
+                password: () => `oauth:${(this.authToken || token).replace('oauth:', '')}`
             } : undefined
         });
 
         // Set up message handler
         this.client.on('message', (channel, tags, message, self) => {
-            if (self || !this.messageCallback) return;
+            if (self || !this.eventCallback) return;
 
             const tagData = tags as any;
 
             const username = tags.username || 'anonymous';
             const twitchMessage: TwitchMessage = {
+                channel: this.normalizeChannel(channel),
                 username: username,
                 displayName: tags['display-name'] || tags.username || 'Anonymous',
                 message: message,
                 color: tags.color || this.getDeterministicColor(username),
                 badges: this.parseBadges(tags.badges),
+                badgeDetails: this.badgeService.resolve(this.normalizeChannel(channel), tags.badges, tags['badge-info']),
                 emotes: tags.emotes || {},
-                thirdPartyEmotes: Object.fromEntries(this.thirdPartyEmotes),
+                thirdPartyEmotes: this.getMessageEmotes(channel, message),
                 timestamp: Date.now(),
                 messageId: tags.id,
                 isFirstMessage: tagData['first-msg'] === true || tagData['first-msg'] === '1',
@@ -184,67 +170,73 @@ export class TwitchClient {
                 bits: tags.bits ? parseInt(tags.bits) : undefined
             };
 
-            this.messageCallback(twitchMessage);
+            this.emitMessage(twitchMessage);
         });
 
         // Handle subscription events
         this.client.on('subscription', (channel, username, method, message, userstate) => {
-            if (!this.messageCallback) return;
+            if (!this.eventCallback) return;
             this.outputChannel.appendLine(`New subscription from ${username}`);
 
             const subMessage: TwitchMessage = {
+                channel: this.normalizeChannel(channel),
                 username: username,
                 displayName: userstate['display-name'] || username,
                 message: message || 'just subscribed!',
                 color: userstate.color || this.getDeterministicColor(username),
                 badges: this.parseBadges(userstate.badges),
+                badgeDetails: this.badgeService.resolve(this.normalizeChannel(channel), userstate.badges, userstate['badge-info']),
                 emotes: userstate.emotes || {},
-                thirdPartyEmotes: Object.fromEntries(this.thirdPartyEmotes),
+                thirdPartyEmotes: this.getMessageEmotes(channel, message || ''),
                 timestamp: Date.now(),
                 messageType: 'subscription',
                 subTier: method?.plan || 'Prime'
             };
 
-            this.messageCallback(subMessage);
+            this.emitMessage(subMessage);
         });
 
         // Handle resubscription events
         this.client.on('resub', (channel, username, months, message, userstate, methods) => {
-            if (!this.messageCallback) return;
+            if (!this.eventCallback) return;
 
             const cumulativeMonths = parseInt(userstate['msg-param-cumulative-months'] || '0') || months;
             this.outputChannel.appendLine(`Resub from ${username}: ${cumulativeMonths} months`);
 
             const resubMessage: TwitchMessage = {
+                channel: this.normalizeChannel(channel),
                 username: username,
                 displayName: userstate['display-name'] || username,
                 message: message || `resubscribed for ${cumulativeMonths} months!`,
                 color: userstate.color || this.getDeterministicColor(username),
                 badges: this.parseBadges(userstate.badges),
+                badgeDetails: this.badgeService.resolve(this.normalizeChannel(channel), userstate.badges, userstate['badge-info']),
                 emotes: userstate.emotes || {},
-                thirdPartyEmotes: Object.fromEntries(this.thirdPartyEmotes),
+                thirdPartyEmotes: this.getMessageEmotes(channel, message || ''),
                 timestamp: Date.now(),
                 messageType: 'resub',
                 subMonths: cumulativeMonths,
                 subTier: methods?.plan || 'Prime'
             };
 
-            this.messageCallback(resubMessage);
+            this.emitMessage(resubMessage);
         });
 
         // Handle gift sub events
         this.client.on('subgift', (channel, username, streakMonths, recipient, methods, userstate) => {
-            if (!this.messageCallback) return;
+            if (!this.eventCallback) return;
             this.outputChannel.appendLine(`${username} gifted a sub to ${recipient}`);
 
             const giftMessage: TwitchMessage = {
+                channel: this.normalizeChannel(channel),
                 username: username,
                 displayName: userstate['display-name'] || username,
                 message: `gifted a subscription to ${recipient}!`,
                 color: userstate.color || this.getDeterministicColor(username),
                 badges: this.parseBadges(userstate.badges),
+                badgeDetails: this.badgeService.resolve(this.normalizeChannel(channel), userstate.badges, userstate['badge-info']),
                 emotes: {},
-                thirdPartyEmotes: Object.fromEntries(this.thirdPartyEmotes),
+                thirdPartyEmotes: {},
                 timestamp: Date.now(),
                 messageType: 'subgift',
                 gifterName: username,
@@ -252,57 +244,86 @@ export class TwitchClient {
                 subTier: methods?.plan || '1000'
             };
 
-            this.messageCallback(giftMessage);
+            this.emitMessage(giftMessage);
         });
 
         // Handle mystery gift subs
         this.client.on('submysterygift', (channel, username, numbOfSubs, methods, userstate) => {
-            if (!this.messageCallback) return;
+            if (!this.eventCallback) return;
             this.outputChannel.appendLine(`${username} gifted ${numbOfSubs} subs`);
 
             const mysteryGiftMessage: TwitchMessage = {
+                channel: this.normalizeChannel(channel),
                 username: username,
                 displayName: userstate['display-name'] || username,
                 message: `gifted ${numbOfSubs} subscriptions to the community!`,
                 color: userstate.color || this.getDeterministicColor(username),
                 badges: this.parseBadges(userstate.badges),
+                badgeDetails: this.badgeService.resolve(this.normalizeChannel(channel), userstate.badges, userstate['badge-info']),
                 emotes: {},
-                thirdPartyEmotes: Object.fromEntries(this.thirdPartyEmotes),
+                thirdPartyEmotes: {},
                 timestamp: Date.now(),
                 messageType: 'subgift',
                 gifterName: username,
                 subTier: methods?.plan || '1000'
             };
 
-            this.messageCallback(mysteryGiftMessage);
+            this.emitMessage(mysteryGiftMessage);
         });
 
         // Handle raw IRC messages for various events
         this.client.on('raw_message', (messageCloned: any) => {
+            const channel = this.normalizeChannel(messageCloned.params?.[0] || '');
+
             // Handle ROOMSTATE to track chat modes
+            // The join ROOMSTATE carries every mode, later ones only the modes that changed
             if (messageCloned.command === 'ROOMSTATE') {
                 const tags = messageCloned.tags;
-                if (tags && this.messageCallback) {
-                    const followersOnlyValue = tags['followers-only'] ? parseInt(tags['followers-only']) : -1;
-                    const roomState: any = {
-                        subsOnly: tags['subs-only'] === '1' || tags['subs-only'] === true,
-                        emotesOnly: tags['emote-only'] === '1' || tags['emote-only'] === true,
-                        followersOnly: followersOnlyValue !== -1 ? followersOnlyValue : false,
-                        slowMode: tags['slow'] ? parseInt(tags['slow']) : 0
-                    };
-
-                    this.messageCallback({
-                        username: '',
-                        displayName: '',
-                        message: '',
-                        color: '',
-                        badges: [],
-                        emotes: {},
-                        thirdPartyEmotes: {},
-                        timestamp: Date.now(),
-                        messageType: 'chat' as any,
-                        roomStateUpdate: roomState
-                    } as any);
+                if (tags) {
+                    const roomState: Partial<RoomState> = {};
+                    if (tags['subs-only'] !== undefined) {
+                        roomState.subsOnly = tags['subs-only'] === '1' || tags['subs-only'] === true;
+                    }
+                    if (tags['emote-only'] !== undefined) {
+                        roomState.emotesOnly = tags['emote-only'] === '1' || tags['emote-only'] === true;
+                    }
+                    if (tags['followers-only'] !== undefined) {
+                        const followersOnlyValue = parseInt(tags['followers-only']);
+                        roomState.followersOnly = !isNaN(followersOnlyValue) && followersOnlyValue !== -1 ? followersOnlyValue : false;
+                    }
+                    if (tags['slow'] !== undefined) {
+                        roomState.slowMode = parseInt(tags['slow']) || 0;
+                    }
+
+                    this.emitRoomStateUpdate(channel, roomState);
+                }
+            }
+            // Handle USERSTATE to learn whether we can moderate this channel
+            else if (messageCloned.command === 'USERSTATE') {
+                const tags = messageCloned.tags;
+                const state = this.channels.get(channel);
+                if (tags && state) {
+                    state.ownBadges = this.parseBadgeTag(tags.badges);
+                    state.ownBadgeInfo = this.parseBadgeTag(tags['badge-info']);
+                    const isBroadcaster = state.ownBadges.broadcaster !== undefined;
+                    const isModerator = isBroadcaster || tags.mod === '1' || tags['user-type'] === 'mod';
+
+                    if (isModerator !== state.isModerator || isBroadcaster !== state.isBroadcaster) {
+                        state.isModerator = isModerator;
+                        state.isBroadcaster = isBroadcaster;
+                        this.outputChannel.appendLine(`Permissions in ${channel}: moderator=${isModerator}, broadcaster=${isBroadcaster}`);
+
+                        this.emit({
+                            type: 'permissions',
+                            channel: channel,
+                            timestamp: Date.now(),
+                            isModerator: isModerator,
+                            isBroadcaster: isBroadcaster
+                        });
+
+                        // Moderator-only EventSub topics and shield mode depend on these rights
+                        this.onChannelReady(state);
+                    }
                 }
             }
             // Handle GLOBALUSERSTATE to get our own color from IRC
@@ -316,26 +337,22 @@ export class TwitchClient {
                     this.currentUserColor = '#9147ff';
                     this.outputChannel.appendLine('No color in GLOBALUSERSTATE, using Twitch purple');
                 }
+                if (tags && typeof tags['emote-sets'] === 'string') {
+                    this.loadOwnEmotes(tags['emote-sets']);
+                }
             }
             // Handle message deletion (CLEARMSG)
             else if (messageCloned.command === 'CLEARMSG') {
                 const tags = messageCloned.tags;
-                if (tags && tags['target-msg-id'] && this.messageCallback) {
+                if (tags && tags['target-msg-id']) {
                     this.outputChannel.appendLine(`Message deleted: ${tags['target-msg-id']}`);
 
-                    this.messageCallback({
-                        username: '',
-                        displayName: '',
-                        message: '',
-                        color: '',
-                        badges: [],
-                        emotes: {},
-                        thirdPartyEmotes: {},
+                    this.emit({
+                        type: 'messageDeleted',
+                        channel: channel,
                         timestamp: Date.now(),
-                        messageId: tags['target-msg-id'],
-                        messageType: 'chat' as any,
-                        deletedMessageId: tags['target-msg-id'] // Special flag
-                    } as any);
+                        messageId: tags['target-msg-id']
+                    });
                 }
             }
             // Handle user timeout/ban (CLEARCHAT)
@@ -347,37 +364,21 @@ export class TwitchClient {
                     const duration = tags && tags['ban-duration'];
                     this.outputChannel.appendLine(`User messages cleared: ${username} (${duration ? duration + 's timeout' : 'ban'})`);
 
-                    if (this.messageCallback) {
-                        this.messageCallback({
-                            username: username,
-                            displayName: '',
-                            message: '',
-                            color: '',
-                            badges: [],
-                            emotes: {},
-                            thirdPartyEmotes: {},
-                            timestamp: Date.now(),
-                            messageType: 'chat' as any,
-                            deletedUsername: username
-                        } as any);
-                    }
+                    this.emit({
+                        type: 'userCleared',
+                        channel: channel,
+                        timestamp: Date.now(),
+                        username: username,
+                        duration: duration ? parseInt(duration) : undefined
+                    });
                 } else {
                     // No username = clear all chat
                     this.outputChannel.appendLine('All chat cleared');
-                    if (this.messageCallback) {
-                        this.messageCallback({
-                            username: '',
-                            displayName: '',
-                            message: '',
-                            color: '',
-                            badges: [],
-                            emotes: {},
-                            thirdPartyEmotes: {},
-                            timestamp: Date.now(),
-                            messageType: 'chat' as any,
-                            clearAllMessages: true
-                        } as any);
-                    }
+                    this.emit({
+                        type: 'chatCleared',
+                        channel: channel,
+                        timestamp: Date.now()
+                    });
                 }
             }
         });
@@ -401,17 +402,16 @@ export class TwitchClient {
             await this.client.connect();
             this.outputChannel.appendLine('client.connect() completed successfully');
 
-            // Fetch all third-party emotes for the channel
-            this.outputChannel.appendLine('Fetching third-party emotes (FFZ, BTTV, 7TV)...');
-            const channelUserId = await this.fetchChannelUserId(channel, token);
-            this.thirdPartyEmotes = await this.emoteService.fetchAllEmotes(channel, channelUserId);
-            this.outputChannel.appendLine(`Total third-party emotes loaded: ${this.thirdPartyEmotes.size}`);
+            // Store auth token for authenticated API calls
+            this.authToken = token;
 
-            // Store auth token and start shield mode polling if authenticated
-            if (token) {
-                this.authToken = token;
-                this.startShieldModePolling();
+            // EventSub delivers channel events IRC can't see (shield mode, follows, raids, mod actions)
+            if (token && this.currentUserId) {
+                this.eventSub = new EventSubClient(token, (notification) => this.handleEventSubNotification(notification), this.outputChannel, this.getEventSubEndpoints(), this.helix);
             }
+
+            // Fetch channel IDs and third-party emotes for every joined channel
+            await Promise.all(normalized.map(channel => this.loadChannelData(channel)));
         } catch (error) {
             this.outputChannel.appendLine(`ERROR in client.connect(): ${error}`);
             throw error;
@@ -419,64 +419,454 @@ export class TwitchClient {
     }
 
     /**
-     * Fetch channel user ID from Twitch API
+     * Join an additional channel on the existing connection
+     * @param channel The Twitch channel name to join
+     */
+    async joinChannel(channel: string): Promise<void> {
+        if (!this.client) {
+            throw new Error('Not connected to Twitch');
+        }
+
+        channel = this.normalizeChannel(channel);
+        if (!channel || this.channels.has(channel)) {
+            return;
+        }
+
+        this.outputChannel.appendLine(`Joining channel: ${channel}`);
+        this.channels.set(channel, this.createChannelState(channel));
+
+        try {
+            await this.client.join(channel);
+        } catch (error) {
+            this.channels.delete(channel);
+            this.outputChannel.appendLine(`Error joining channel ${channel}: ${error}`);
+            throw error;
+        }
+
+        await this.loadChannelData(channel);
+    }
+
+    /**
+     * Leave a channel while keeping the connection to the others
+     * @param channel The Twitch channel name to leave
+     */
+    async partChannel(channel: string): Promise<void> {
+        channel = this.normalizeChannel(channel);
+        if (!this.client || !this.channels.has(channel)) {
+            return;
+        }
+
+        this.outputChannel.appendLine(`Leaving channel: ${channel}`);
+        this.channels.delete(channel);
+        this.emoteService.forgetChannel(channel);
+        this.badgeService.forgetChannel(channel);
+        this.eventSub?.unsubscribe(channel).catch(error => {
+            this.outputChannel.appendLine(`EventSub: failed to unsubscribe from ${channel}: ${error}`);
+        });
+
+        try {
+            await this.client.part(channel);
+        } catch (error) {
+            this.outputChannel.appendLine(`Error leaving channel ${channel}: ${error}`);
+        }
+    }
+
+    /**
+     * Create the initial state for a channel being joined
+     * @param channel The normalized channel name
+     */
+    private createChannelState(channel: string): ChannelState {
+        return {
+            name: channel,
+            thirdPartyEmotes: new Map(),
+            cheermotes: {},
+            isModerator: false,
+            isBroadcaster: false,
+            ownBadges: {},
+            ownBadgeInfo: {},
+            roomState: { shieldMode: false, subsOnly: false, emotesOnly: false, followersOnly: false, slowMode: 0 }
+        };
+    }
+
+    /**
+     * Fetch the channel user ID, badges, cheermotes and third-party emotes for a joined channel
+     * @param channel The normalized channel name
+     */
+    private async loadChannelData(channel: string): Promise<void> {
+        const state = this.channels.get(channel);
+        if (!state) {
+            return;
+        }
+
+        state.userId = await this.fetchChannelUserId(channel, this.authToken);
+        await Promise.all([this.loadEmotes(state), this.loadBadges(state), this.loadCheermotes(state)]);
+
+        this.onChannelReady(state);
+    }
+
+    /**
+     * Load (or reload) a channel's third-party emotes
+     * @param state The joined channel
+     */
+    private async loadEmotes(state: ChannelState) {
+        this.outputChannel.appendLine(`Fetching third-party emotes (FFZ, BTTV, 7TV) for ${state.name}...`);
+        const emotes = await this.emoteService.fetchAllEmotes(state.name, state.userId);
+        // Skip if the channel was left meanwhile
+        if (this.channels.get(state.name) === state) {
+            state.thirdPartyEmotes = emotes;
+            this.outputChannel.appendLine(`Total third-party emotes loaded for ${state.name}: ${emotes.size}`);
+            this.emoteChoicesEmitter.fire(state.name);
+        }
+    }
+
+    /**
+     * Load the Twitch emotes in the signed-in user's emote sets
+     * @param emoteSets The comma-separated `emote-sets` tag
+     */
+    private async loadOwnEmotes(emoteSets: string) {
+        if (emoteSets === this.ownEmoteSetIds || !this.authToken) {
+            return;
+        }
+        this.ownEmoteSetIds = emoteSets;
+
+        const setIds = emoteSets.split(',').filter(id => id !== '');
+        const emotes: EmoteChoice[] = [];
+        try {
+            // At most 25 sets per request
+            for (let i = 0; i < setIds.length; i += 25) {
+                const data = await this.helix.get('/chat/emotes/set', { emote_set_id: setIds.slice(i, i + 25) }, this.authToken);
+                for (const emote of data) {
+                    if (emote.id && emote.name) {
+                        emotes.push({
+                            name: emote.name,
+                            url: `https://static-cdn.jtvnw.net/emoticons/v2/${encodeURIComponent(emote.id)}/default/dark/1.0`,
+                            provider: 'twitch'
+                        });
+                    }
+                }
+            }
+        } catch (error) {
+            this.outputChannel.appendLine(`Failed to load your Twitch emotes: ${error}`);
+            this.ownEmoteSetIds = '';
+            return;
+        }
+
+        if (this.ownEmoteSetIds === emoteSets) {
+            this.ownEmotes = emotes;
+            this.outputChannel.appendLine(`Loaded ${emotes.length} Twitch emotes from ${setIds.length} emote sets`);
+            this.emoteChoicesEmitter.fire(undefined);
+        }
+    }
+
+    /**
+     * Get the emotes to offer in a channel's chat input
      * @param channel The channel name
-     * @param token Optional OAuth token
-     * @returns Promise resolving to channel user ID or undefined
+     * @returns The user's Twitch emotes, then the channel's FFZ/BTTV/7TV emotes (collisions resolved)
      */
-    private async fetchChannelUserId(channel: string, token?: string): Promise<string | undefined> {
-        return new Promise((resolve) => {
-            const options = {
-                hostname: 'api.twitch.tv',
-                path: `/helix/users?login=${channel}`,
-                method: 'GET',
-                headers: {
-                    'Client-Id': TwitchClient.CLIENT_ID,
-                    ...(token ? { 'Authorization': `Bearer ${token.replace('oauth:', '')}` } : {})
+    getEmoteChoices(channel: string): EmoteChoice[] {
+        const thirdParty = (this.emoteService.getLoadedEmotes(this.normalizeChannel(channel)) || [])
+            .filter(emote => emote.active)
+            .map(emote => ({ name: emote.name, url: emote.url, provider: emote.provider }));
+        return this.ownEmotes.concat(thirdParty);
+    }
+
+    /**
+     * Load the global badges and a channel's custom badges
+     * @param state The joined channel
+     */
+    private async loadBadges(state: ChannelState) {
+        const token = this.authToken;
+        await this.badgeService.loadGlobalBadges(token);
+        if (state.userId && this.channels.get(state.name) === state) {
+            await this.badgeService.loadChannelBadges(state.name, state.userId, token);
+        }
+    }
+
+    /**
+     * Load the cheermotes usable in a channel, so 'Cheer100' in bits messages renders as an image
+     * Helix requires a token; anonymous chat shows cheers as text
+     * @param state The joined channel
+     */
+    private async loadCheermotes(state: ChannelState) {
+        if (!this.authToken || !state.userId) {
+            return;
+        }
+
+        try {
+            const cheermotes = await this.helix.get('/bits/cheermotes', { broadcaster_id: state.userId }, this.authToken);
+            const tiersByPrefix: { [prefix: string]: CheermoteTier[] } = {};
+            for (const cheermote of cheermotes) {
+                const tiers: CheermoteTier[] = (cheermote.tiers || [])
+                    .map((tier: any) => ({
+                        minBits: tier.min_bits,
+                        url: tier.images?.dark?.animated?.['1'] || tier.images?.dark?.static?.['1'],
+                        color: tier.color
+                    }))
+                    .filter((tier: CheermoteTier) => typeof tier.minBits === 'number' && tier.url);
+                if (cheermote.prefix && tiers.length > 0) {
+                    tiersByPrefix[cheermote.prefix.toLowerCase()] = tiers;
                 }
-            };
+            }
 
-            const req = https.request(options, (res) => {
-                let data = '';
-
-                res.on('data', (chunk) => {
-                    data += chunk;
-                });
-
-                res.on('end', () => {
-                    try {
-                        if (res.statusCode === 200) {
-                            const json = JSON.parse(data);
-                            if (json.data && json.data.length > 0) {
-                                const userId = json.data[0].id;
-                                this.outputChannel.appendLine(`Fetched channel user ID for ${channel}: ${userId}`);
-                                resolve(userId);
-                            } else {
-                                this.outputChannel.appendLine(`No user data for channel ${channel}`);
-                                resolve(undefined);
-                            }
-                        } else {
-                            this.outputChannel.appendLine(`Failed to fetch channel user ID: HTTP ${res.statusCode}`);
-                            resolve(undefined);
-                        }
-                    } catch (error) {
-                        this.outputChannel.appendLine(`Error parsing channel user data: ${error}`);
-                        resolve(undefined);
-                    }
-                });
-            });
+            if (this.channels.get(state.name) === state) {
+                state.cheermotes = tiersByPrefix;
+                this.outputChannel.appendLine(`Loaded ${Object.keys(tiersByPrefix).length} cheermotes for ${state.name}`);
+            }
+        } catch (error) {
+            this.outputChannel.appendLine(`Failed to load cheermotes for ${state.name}: ${error}`);
+        }
+    }
+
+    /**
+     * Reload the third-party emotes of every joined channel, e.g. after the emote settings changed
+     * Lists cached on disk are reused, so this rarely hits the network
+     */
+    async reloadEmotes(): Promise<void> {
+        await Promise.all(Array.from(this.channels.values()).map(state => this.loadEmotes(state)));
+    }
+
+    /**
+     * Pick up a channel's changed emotes and announce live 7TV changes in the channel
+     * @param change The emotes added, removed or renamed (none for a background refresh)
+     */
+    private handleEmoteSetChange(change: EmoteSetChange) {
+        const state = this.channels.get(change.channel);
+        if (!state) {
+            return;
+        }
+
+        state.thirdPartyEmotes = this.emoteService.getActiveEmotes(change.channel);
+        this.emoteChoicesEmitter.fire(change.channel);
+        const actor = change.actor || 'Someone';
+        for (const { action, name, oldName } of change.changes) {
+            this.emitSystemMessage(change.channel, action === 'renamed'
+                ? `${actor} renamed 7TV emote ${oldName} to ${name}`
+                : `${actor} ${action} 7TV emote ${name}`);
+        }
+    }
+
+    /**
+     * Set up EventSub subscriptions and initial shield mode state for a channel
+     * Called once the channel user ID is known and again whenever moderator rights change
+     * @param state The joined channel
+     */
+    private onChannelReady(state: ChannelState) {
+        if (!state.userId || !this.channels.has(state.name)) {
+            return;
+        }
+
+        this.subscribeChannelEvents(state);
+
+        // EventSub only reports shield mode changes, so fetch the current state once
+        if ((state.isModerator || state.isBroadcaster) && this.moderatorScopesGranted) {
+            this.refreshShieldModeStatus(state);
+        }
+    }
+
+    /**
+     * Build the EventSub subscriptions for a channel
+     * Raids are public, everything else requires moderator rights in the channel
+     * and the moderator scopes on the session
+     * @param state The joined channel
+     */
+    private subscribeChannelEvents(state: ChannelState) {
+        if (!this.eventSub || !state.userId || !this.currentUserId) {
+            return;
+        }
+
+        const broadcasterId = state.userId;
+        const moderatorCondition = { broadcaster_user_id: broadcasterId, moderator_user_id: this.currentUserId };
+        const subscriptions: EventSubSubscription[] = [
+            { type: 'channel.raid', version: '1', condition: { to_broadcaster_user_id: broadcasterId } }
+        ];
+
+        if ((state.isModerator || state.isBroadcaster) && this.moderatorScopesGranted) {
+            subscriptions.push(
+                { type: 'channel.shield_mode.begin', version: '1', condition: moderatorCondition },
+                { type: 'channel.shield_mode.end', version: '1', condition: moderatorCondition },
+                { type: 'channel.follow', version: '2', condition: moderatorCondition },
+                { type: 'channel.moderate', version: '1', condition: moderatorCondition },
+                { type: 'channel.unban_request.create', version: '1', condition: moderatorCondition }
+            );
+        }
+
+        this.eventSub.subscribe(state.name, subscriptions).catch(error => {
+            this.outputChannel.appendLine(`EventSub: failed to update subscriptions for ${state.name}: ${error}`);
+        });
+    }
+
+    /**
+     * Read EventSub endpoints, honoring overrides from settings (for mock servers)
+     */
+    private getEventSubEndpoints() {
+        const settings = vscode.workspace.getConfiguration('twitchChat');
+        return {
+            websocketUrl: settings.get<string>('eventSub.websocketUrl') || config.twitch.eventSub.websocketUrl,
+            subscriptionsUrl: settings.get<string>('eventSub.subscriptionsUrl') || config.twitch.eventSub.subscriptionsPath
+        };
+    }
+
+    /**
+     * Translate an EventSub notification into chat messages for the webview
+     * @param notification The EventSub notification
+     */
+    private handleEventSubNotification(notification: EventSubNotification) {
+        const event = notification.event || {};
+        const channel = this.normalizeChannel(event.broadcaster_user_login || event.to_broadcaster_user_login || '');
+        if (!this.channels.has(channel)) {
+            return;
+        }
+
+        this.outputChannel.appendLine(`EventSub notification in ${channel}: ${notification.subscriptionType}`);
+
+        switch (notification.subscriptionType) {
+            case 'channel.shield_mode.begin':
+            case 'channel.shield_mode.end': {
+                const isActive = notification.subscriptionType === 'channel.shield_mode.begin';
+                this.emitRoomStateUpdate(channel, { shieldMode: isActive });
+                this.emitSystemMessage(channel, `${event.moderator_user_name || 'A moderator'} ${isActive ? 'activated' : 'deactivated'} Shield Mode`);
+                break;
+            }
+
+            case 'channel.follow':
+                this.emitSystemMessage(channel, `${event.user_name} followed the channel`);
+                break;
+
+            case 'channel.raid':
+                this.emitSystemMessage(channel, `${event.from_broadcaster_user_name} is raiding with ${event.viewers} viewer${event.viewers === 1 ? '' : 's'}!`);
+                break;
+
+            case 'channel.moderate':
+                // Our own actions are already reported by the view provider
+                if (event.moderator_user_login && event.moderator_user_login === this.currentUsername) {
+                    return;
+                }
+                this.emitSystemMessage(channel, `${event.moderator_user_name} ${this.describeModerationAction(event)}`);
+                break;
+
+            case 'channel.unban_request.create':
+                this.emitSystemMessage(channel, `${event.user_name} requested to be unbanned${event.text ? `: "${event.text}"` : ''}`);
+                break;
+        }
+    }
 
-            req.on('error', (error) => {
-                this.outputChannel.appendLine(`Error fetching channel user ID: ${error}`);
-                resolve(undefined);
-            });
+    /**
+     * Describe a channel.moderate event in words
+     * @param event The channel.moderate event payload
+     * @returns Description of the action, e.g. "banned someuser"
+     */
+    private describeModerationAction(event: any): string {
+        const target = (key: string) => event[key]?.user_name || event[key]?.user_login || 'a user';
+        const reason = (key: string) => event[key]?.reason ? ` (${event[key].reason})` : '';
+
+        switch (event.action) {
+            case 'ban': return `banned ${target('ban')}${reason('ban')}`;
+            case 'unban': return `unbanned ${target('unban')}`;
+            case 'timeout': return `timed out ${target('timeout')}${reason('timeout')}`;
+            case 'untimeout': return `removed the timeout on ${target('untimeout')}`;
+            case 'delete': return `deleted a message from ${target('delete')}`;
+            case 'clear': return 'cleared the chat';
+            case 'mod': return `added ${target('mod')} as a moderator`;
+            case 'unmod': return `removed ${target('unmod')} as a moderator`;
+            case 'vip': return `added ${target('vip')} as a VIP`;
+            case 'unvip': return `removed ${target('unvip')} as a VIP`;
+            case 'raid': return `started a raid to ${target('raid')}`;
+            case 'unraid': return 'cancelled the raid';
+            case 'emoteonly': return 'enabled emote-only mode';
+            case 'emoteonlyoff': return 'disabled emote-only mode';
+            case 'followers': return 'enabled followers-only mode';
+            case 'followersoff': return 'disabled followers-only mode';
+            case 'slow': return 'enabled slow mode';
+            case 'slowoff': return 'disabled slow mode';
+            case 'subscribers': return 'enabled subscribers-only mode';
+            case 'subscribersoff': return 'disabled subscribers-only mode';
+            case 'uniquechat': return 'enabled unique chat mode';
+            case 'uniquechatoff': return 'disabled unique chat mode';
+            case 'approve_unban_request': return `approved the unban request from ${target('unban_request')}`;
+            case 'deny_unban_request': return `denied the unban request from ${target('unban_request')}`;
+            default: return `used /${event.action}`;
+        }
+    }
+
+    /**
+     * Deliver a chat event to the registered callback
+     * @param event The chat event
+     */
+    private emit(event: ChatEvent) {
+        if (this.eventCallback) {
+            this.eventCallback(event);
+        }
+    }
 
-            req.end();
+    /**
+     * Tokenize a chat line and deliver it as a message event
+     * @param message The chat message
+     */
+    private emitMessage(message: TwitchMessage) {
+        message.fragments = tokenizeMessage(message, { cheermotes: this.channels.get(message.channel)?.cheermotes });
+        this.emit({
+            type: 'message',
+            channel: message.channel,
+            timestamp: message.timestamp,
+            message: message
         });
     }
 
     /**
-     * Disconnect from the current Twitch channel
+     * Send a room state update for a channel
+     * @param channel The channel name
+     * @param roomState The room state fields that changed
+     */
+    private emitRoomStateUpdate(channel: string, roomState: Partial<RoomState>) {
+        const state = this.channels.get(channel);
+        if (state) {
+            Object.assign(state.roomState, roomState);
+        }
+
+        this.emit({
+            type: 'roomState',
+            channel: channel,
+            timestamp: Date.now(),
+            roomState: roomState
+        });
+    }
+
+    /**
+     * Send a system message for a channel
+     * @param channel The channel name
+     * @param text The message text
+     */
+    private emitSystemMessage(channel: string, text: string) {
+        this.emitMessage({
+            channel: channel,
+            username: '',
+            displayName: '',
+            message: text,
+            color: '#808080',
+            badges: [],
+            emotes: {},
+            thirdPartyEmotes: {},
+            timestamp: Date.now(),
+            messageType: 'system'
+        });
+    }
+
+    /**
+     * Fetch channel user ID from Twitch API
+     * @param channel The channel name
+     * @param token Optional OAuth token
+     * @returns Promise resolving to channel user ID or undefined
+     */
+    private async fetchChannelUserId(channel: string, token?: string): Promise<string | undefined> {
+        const userId = await this.fetchUserIdByUsername(channel, token);
+        if (userId) {
+            this.outputChannel.appendLine(`Fetched channel user ID for ${channel}: ${userId}`);
+        }
+        return userId;
+    }
+
+    /**
+     * Disconnect from all joined Twitch channels
      */
     async disconnect(): Promise<void> {
         if (this.client) {
@@ -488,23 +878,49 @@ export class TwitchClient {
                 this.outputChannel.appendLine(`Error disconnecting: ${error}`);
             }
             this.client = null;
-            this.thirdPartyEmotes.clear();
+            for (const channel of this.channels.keys()) {
+                this.emoteService.forgetChannel(channel);
+                this.badgeService.forgetChannel(channel);
+            }
+            this.channels.clear();
 
-            this.stopShieldModePolling();
+            this.eventSub?.dispose();
+            this.eventSub = null;
             this.authToken = undefined;
+            this.ownEmotes = [];
+            this.ownEmoteSetIds = '';
         }
     }
 
     /**
      * Parse user badges from TMI tags
      * @param badges Badge data from Twitch IRC tags
-     * @returns Array of badge names
+     * @returns Array of badge set names (the versions are resolved by the BadgeService)
      */
     private parseBadges(badges: { [key: string]: string } | undefined): string[] {
         if (!badges) return [];
         return Object.keys(badges);
     }
 
+    /**
+     * Parse a raw `badges` or `badge-info` tag ('subscriber/12,premium/1')
+     * @param tag The raw tag value
+     * @returns Map of set -> version
+     */
+    private parseBadgeTag(tag: unknown): { [set: string]: string } {
+        const badges: { [set: string]: string } = {};
+        if (typeof tag !== 'string') {
+            return badges;
+        }
+        for (const badge of tag.split(',')) {
+            const separator = badge.indexOf('/');
+            if (separator > 0) {
+                badges[badge.substring(0, separator)] = badge.substring(separator + 1);
+            }
+        }
+        return badges;
+    }
+
     /**
      * Generate a deterministic color based on username
      * @param username The username to generate a color for
@@ -530,11 +946,77 @@ export class TwitchClient {
     }
 
     /**
-     * Get the currently connected channel name
-     * @returns The channel name or empty string if not connected
+     * Normalize a channel name the way tmi.js reports it (lowercase, no '#')
+     * @param channel The raw channel name
+     * @returns The normalized channel name
+     */
+    private normalizeChannel(channel: string): string {
+        return channel.replace('#', '').toLowerCase().trim();
+    }
+
+    /**
+     * Get the third-party emotes used in a message
+     * Only these are attached to the message, not the channel's whole emote set
+     * @param channel The channel name (with or without '#')
+     * @param text The message text
+     * @returns Plain object of emote name -> URL
+     */
+    private getMessageEmotes(channel: string, text: string): { [emoteName: string]: string } {
+        const state = this.channels.get(this.normalizeChannel(channel));
+        const emotes: { [emoteName: string]: string } = {};
+        if (!state || state.thirdPartyEmotes.size === 0) {
+            return emotes;
+        }
+
+        for (const word of text.split(/\s+/)) {
+            const url = state.thirdPartyEmotes.get(word);
+            if (url) {
+                emotes[word] = url;
+            }
+        }
+        return emotes;
+    }
+
+    /**
+     * Get the joined channel state, throwing if the channel is not joined
+     * @param channel The channel name
+     * @returns The channel state
+     */
+    private requireChannel(channel: string): ChannelState {
+        const state = this.channels.get(this.normalizeChannel(channel));
+        if (!state) {
+            throw new Error(`Not joined to channel: ${channel}`);
+        }
+        return state;
+    }
+
+    /**
+     * Check whether the authenticated user can moderate a channel
+     * Based on the USERSTATE received when joining (moderator or broadcaster)
+     * @param channel The channel name
+     * @returns True if the user is a moderator or the broadcaster of the channel
+     */
+    canModerate(channel: string): boolean {
+        const state = this.channels.get(this.normalizeChannel(channel));
+        return state !== undefined && (state.isModerator || state.isBroadcaster);
+    }
+
+    /**
+     * Get the current chat modes of a joined channel
+     * @param channel The channel name
+     * @returns A copy of the room state, or undefined if the channel isn't joined
+     */
+    getRoomState(channel: string): RoomState | undefined {
+        const state = this.channels.get(this.normalizeChannel(channel));
+        return state ? { ...state.roomState } : undefined;
+    }
+
+    /**
+     * Get the currently joined channel names
+     * @returns The channel names in join order
      */
-    getCurrentChannel(): string {
-        return this.currentChannel;
+    getChannels(): string[] {
+        return Array.from(this.channels.keys());
     }
 
     /**
@@ -546,50 +1028,48 @@ export class TwitchClient {
     }
 
     /**
-     * Send a message to the current channel
+     * Send a message to a joined channel
      * Requires authenticated connection
+     * @param channel The channel to send to
      * @param message The message to send
      * @returns Promise that resolves when message is sent
      */
-    async sendMessage(message: string): Promise<void> {
+    async sendMessage(channel: string, message: string): Promise<void> {
         if (!this.client) {
             throw new Error('Not connected to a channel');
         }
 
-        if (!this.currentChannel) {
-            throw new Error('No active channel');
-        }
+        const state = this.requireChannel(channel);
+        channel = state.name;
 
         if (!this.currentUsername) {
             throw new Error('Not authenticated');
         }
 
         try {
-            await this.client.say(this.currentChannel, message);
+            await this.client.say(channel, message);
             this.outputChannel.appendLine(`Message sent: ${message}`);
 
             // Manually add our own message to the chat (tmi.js doesn't echo it back)
-            if (this.messageCallback) {
-                const isBroadcaster = this.currentUsername === this.currentChannel;
-                const badges: string[] = [];
-
-                if (isBroadcaster) {
-                    badges.push(TwitchClient.BROADCASTER_BADGE_URL);
-                }
+            if (this.eventCallback) {
+                // Our badges in this channel, as reported by USERSTATE on join
+                const badges = state.ownBadges;
 
                 const selfMessage: TwitchMessage = {
+                    channel: channel,
                     username: this.currentUsername,
                     displayName: this.currentUsername,
                     message: message,
                     color: this.currentUserColor || '#9147ff', // Use fetched color or Twitch purple as fallback
-                    badges: badges,
+                    badges: this.parseBadges(badges),
+                    badgeDetails: this.badgeService.resolve(channel, badges, state.ownBadgeInfo),
                     emotes: {},
-                    thirdPartyEmotes: Object.fromEntries(this.thirdPartyEmotes),
+                    thirdPartyEmotes: this.getMessageEmotes(channel, message),
                     timestamp: Date.now(),
                     messageType: 'chat'
                 };
 
-                this.messageCallback(selfMessage);
+                this.emitMessage(selfMessage);
             }
         } catch (error) {
             this.outputChannel.appendLine(`Error sending message: ${error}`);
@@ -597,36 +1077,67 @@ export class TwitchClient {
         }
     }
 
+    /**
+     * Swap in a refreshed access token without reconnecting
+     * Used for EventSub subscriptions, Helix calls and the next IRC reconnect
+     * @param token The new OAuth token
+     */
+    updateToken(token: string) {
+        if (!this.authToken) {
+            // Anonymous connection, nothing to update
+            return;
+        }
+
+        this.authToken = token;
+        this.eventSub?.setToken(token);
+    }
+
+    /**
+     * Tell whether the session was granted the moderator scopes
+     * Moderator-only EventSub topics and the shield mode status are only requested with them,
+     * so channels are resubscribed when this changes
+     * @param granted True if `config.twitch.moderatorScopes` are granted
+     */
+    setModeratorScopesGranted(granted: boolean) {
+        if (granted === this.moderatorScopesGranted) {
+            return;
+        }
+
+        this.moderatorScopesGranted = granted;
+        for (const state of this.channels.values()) {
+            this.onChannelReady(state);
+        }
+    }
+
     /**
      * Check if the client is currently connected
      * @returns True if connected, false otherwise
      */
     isConnected(): boolean {
-        return this.client !== null && this.currentChannel !== '';
+        return this.client !== null && this.channels.size > 0;
     }
 
     /**
      * Perform moderation action on a user using Twitch Helix API
+     * @param channel The channel to moderate in
      * @param action The moderation action to perform
      * @param username The username to moderate
      * @param token The OAuth token for authentication
      * @param messageId Optional message ID for deletion
      * @returns Promise that resolves when moderation action is sent
      */
-    async moderate(action: string, username: string, token: string, messageId?: string): Promise<void> {
-        if (!this.currentChannel) {
-            throw new Error('No active channel');
-        }
+    async moderate(channel: string, action: string, username: string, token: string, messageId?: string): Promise<void> {
+        const state = this.requireChannel(channel);
 
         if (!this.currentUserId) {
             throw new Error('Not authenticated - moderation requires authentication');
         }
 
         try {
-            // Get broadcaster ID (the channel we're in)
-            const broadcasterUserId = await this.fetchChannelUserId(this.currentChannel, token);
+            // Get broadcaster ID (the channel we're moderating)
+            const broadcasterUserId = state.userId || await this.fetchChannelUserId(state.name, token);
             if (!broadcasterUserId) {
-                throw new Error(`Could not get broadcaster ID for channel ${this.currentChannel}`);
+                throw new Error(`Could not get broadcaster ID for channel ${state.name}`);
             }
 
             // Get target user ID
@@ -660,49 +1171,17 @@ export class TwitchClient {
     /**
      * Get user ID by username
      */
-    private async fetchUserIdByUsername(username: string, token: string): Promise<string | undefined> {
-        return new Promise((resolve) => {
-            const cleanToken = token.replace('oauth:', '');
-            const options = {
-                hostname: 'api.twitch.tv',
-                path: `/helix/users?login=${encodeURIComponent(username)}`,
-                method: 'GET',
-                headers: {
-                    'Authorization': `Bearer ${cleanToken}`,
-                    'Client-Id': TwitchClient.CLIENT_ID
-                }
-            };
-
-            const req = https.request(options, (res) => {
-                let data = '';
-                res.on('data', (chunk) => { data += chunk; });
-                res.on('end', () => {
-                    try {
-                        if (res.statusCode === 200) {
-                            const json = JSON.parse(data);
-                            if (json.data && json.data.length > 0) {
-                                resolve(json.data[0].id);
-                            } else {
-                                resolve(undefined);
-                            }
-                        } else {
-                            this.outputChannel.appendLine(`Failed to fetch user ID: HTTP ${res.statusCode} - ${data}`);
-                            resolve(undefined);
-                        }
-                    } catch (error) {
-                        this.outputChannel.appendLine(`Error parsing user ID: ${error}`);
-                        resolve(undefined);
-                    }
-                });
-            });
-
-            req.on('error', (error) => {
-                this.outputChannel.appendLine(`Error fetching user ID: ${error}`);
-                resolve(undefined);
-            });
-
-            req.end();
-        });
+    private async fetchUserIdByUsername(username: string, token?: string): Promise<string | undefined> {
+        try {
+            const [user] = await this.helix.get('/users', { login: username }, token);
+            if (!user) {
+                this.outputChannel.appendLine(`No user data for ${username}`);
+            }
+            return user?.id;
+        } catch (error) {
+            this.outputChannel.appendLine(`Failed to fetch user ID for ${username}: ${error}`);
+            return undefined;
+        }
     }
 
     /**
@@ -723,180 +1202,78 @@ export class TwitchClient {
      * Ban or timeout a user via Helix API
      */
     private async apiBanUser(broadcasterId: string, moderatorId: string, userId: string, duration: number | undefined, token: string): Promise<void> {
-        return new Promise((resolve, reject) => {
-            const cleanToken = token.replace('oauth:', '');
-            const body = JSON.stringify({
+        await this.helix.request('/moderation/bans', {
+            method: 'POST',
+            query: { broadcaster_id: broadcasterId, moderator_id: moderatorId },
+            body: {
                 data: {
                     user_id: userId,
                     ...(duration !== undefined && { duration: duration }),
                     reason: 'Moderated via VS Code extension'
                 }
-            });
-
-            const options = {
-                hostname: 'api.twitch.tv',
-                path: `/helix/moderation/bans?broadcaster_id=${broadcasterId}&moderator_id=${moderatorId}`,
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${cleanToken}`,
-                    'Client-Id': TwitchClient.CLIENT_ID,
-                    'Content-Type': 'application/json',
-                    'Content-Length': Buffer.byteLength(body)
-                }
-            };
-
-            const req = https.request(options, (res) => {
-                let data = '';
-                res.on('data', (chunk) => { data += chunk; });
-                res.on('end', () => {
-                    if (res.statusCode === 200 || res.statusCode === 204) {
-                        this.outputChannel.appendLine(`Ban/timeout successful (HTTP ${res.statusCode})`);
-                        resolve();
-                    } else {
-                        this.outputChannel.appendLine(`Ban/timeout failed: HTTP ${res.statusCode} - ${data}`);
-                        reject(new Error(`HTTP ${res.statusCode}: ${data}`));
-                    }
-                });
-            });
-
-            req.on('error', (error) => {
-                this.outputChannel.appendLine(`Ban/timeout request error: ${error}`);
-                reject(error);
-            });
-
-            req.write(body);
-            req.end();
+            },
+            token
         });
+        this.outputChannel.appendLine('Ban/timeout successful');
     }
 
     /**
      * Unban/untimeout a user via Helix API
      */
     private async apiUnbanUser(broadcasterId: string, moderatorId: string, userId: string, token: string): Promise<void> {
-        return new Promise((resolve, reject) => {
-            const cleanToken = token.replace('oauth:', '');
-            const options = {
-                hostname: 'api.twitch.tv',
-                path: `/helix/moderation/bans?broadcaster_id=${broadcasterId}&moderator_id=${moderatorId}&user_id=${userId}`,
-                method: 'DELETE',
-                headers: {
-                    'Authorization': `Bearer ${cleanToken}`,
-                    'Client-Id': TwitchClient.CLIENT_ID
-                }
-            };
-
-            const req = https.request(options, (res) => {
-                let data = '';
-                res.on('data', (chunk) => { data += chunk; });
-                res.on('end', () => {
-                    if (res.statusCode === 200 || res.statusCode === 204) {
-                        this.outputChannel.appendLine(`Unban/untimeout successful (HTTP ${res.statusCode})`);
-                        resolve();
-                    } else {
-                        this.outputChannel.appendLine(`Unban/untimeout failed: HTTP ${res.statusCode} - ${data}`);
-                        reject(new Error(`HTTP ${res.statusCode}: ${data}`));
-                    }
-                });
-            });
-
-            req.on('error', (error) => {
-                this.outputChannel.appendLine(`Unban/untimeout request error: ${error}`);
-                reject(error);
-            });
-
-            req.end();
+        await this.helix.request('/moderation/bans', {
+            method: 'DELETE',
+            query: { broadcaster_id: broadcasterId, moderator_id: moderatorId, user_id: userId },
+            token
         });
+        this.outputChannel.appendLine('Unban/untimeout successful');
     }
 
     /**
      * Delete a chat message via Helix API
      */
     private async apiDeleteMessage(broadcasterId: string, moderatorId: string, messageId: string, token: string): Promise<void> {
-        return new Promise((resolve, reject) => {
-            if (!messageId) {
-                reject(new Error('Message ID is required for deletion'));
-                return;
-            }
-
-            const cleanToken = token.replace('oauth:', '');
-            const options = {
-                hostname: 'api.twitch.tv',
-                path: `/helix/moderation/chat?broadcaster_id=${broadcasterId}&moderator_id=${moderatorId}&message_id=${messageId}`,
-                method: 'DELETE',
-                headers: {
-                    'Authorization': `Bearer ${cleanToken}`,
-                    'Client-Id': TwitchClient.CLIENT_ID
-                }
-            };
-
-            const req = https.request(options, (res) => {
-                let data = '';
-                res.on('data', (chunk) => { data += chunk; });
-                res.on('end', () => {
-                    if (res.statusCode === 204) {
-                        this.outputChannel.appendLine(`Message deleted successfully`);
-                        resolve();
-                    } else {
-                        this.outputChannel.appendLine(`Message deletion failed: HTTP ${res.statusCode} - ${data}`);
-                        reject(new Error(`HTTP ${res.statusCode}: ${data}`));
-                    }
-                });
-            });
-
-            req.on('error', (error) => {
-                this.outputChannel.appendLine(`Delete message request error: ${error}`);
-                reject(error);
-            });
+        if (!messageId) {
+            throw new Error('Message ID is required for deletion');
+        }
 
-            req.end();
+        await this.helix.request('/moderation/chat', {
+            method: 'DELETE',
+            query: { broadcaster_id: broadcasterId, moderator_id: moderatorId, message_id: messageId },
+            token
         });
+        this.outputChannel.appendLine('Message deleted successfully');
     }
 
     /**
      * Toggle chat mode (Shield, Subs-Only, Emotes-Only, Followers-Only, Slow Mode)
+     * @param channel The channel to change the mode in
      * @param mode The mode to toggle
      * @param token OAuth token
      * @param enabled Whether to enable/disable
      * @param value Optional value (for slow mode)
      */
-    async toggleChatMode(mode: string, token: string, enabled?: boolean, value?: number): Promise<void> {
-        if (!this.currentChannel) {
-            throw new Error('No active channel');
-        }
+    async toggleChatMode(channel: string, mode: string, token: string, enabled?: boolean, value?: number): Promise<void> {
+        const state = this.requireChannel(channel);
 
         if (!this.currentUserId) {
             throw new Error('Not authenticated');
         }
 
         try {
-            const broadcasterUserId = await this.fetchChannelUserId(this.currentChannel, token);
+            const broadcasterUserId = state.userId || await this.fetchChannelUserId(state.name, token);
             if (!broadcasterUserId) {
-                throw new Error(`Could not get broadcaster ID for channel ${this.currentChannel}`);
+                throw new Error(`Could not get broadcaster ID for channel ${state.name}`);
             }
 
-            this.outputChannel.appendLine(`Toggle chat mode: ${mode}, enabled=${enabled}, value=${value}`);
+            this.outputChannel.appendLine(`Toggle chat mode in ${state.name}: ${mode}, enabled=${enabled}, value=${value}`);
 
             if (mode === 'shield') {
                 // Shield Mode uses separate API
                 await this.apiUpdateShieldMode(broadcasterUserId, this.currentUserId, enabled!, token);
 
                 // Immediately update UI with new shield mode state
-                if (this.messageCallback) {
-                    this.messageCallback({
-                        username: '',
-                        displayName: '',
-                        message: '',
-                        color: '',
-                        badges: [],
-                        emotes: {},
-                        thirdPartyEmotes: {},
-                        timestamp: Date.now(),
-                        messageType: 'chat' as any,
-                        roomStateUpdate: {
-                            shieldMode: enabled
-                        }
-                    } as any);
-                }
+                this.emitRoomStateUpdate(state.name, { shieldMode: enabled });
             } else {
                 // All other modes use Chat Settings API
                 await this.apiUpdateChatSettings(broadcasterUserId, this.currentUserId, mode, enabled, value, token);
@@ -913,111 +1290,47 @@ export class TwitchClient {
      * Update Shield Mode via Helix API
      */
     private async apiUpdateShieldMode(broadcasterId: string, moderatorId: string, isActive: boolean, token: string): Promise<void> {
-        return new Promise((resolve, reject) => {
-            const cleanToken = token.replace('oauth:', '');
-            const body = JSON.stringify({
-                is_active: isActive
-            });
-
-            const options = {
-                hostname: 'api.twitch.tv',
-                path: `/helix/moderation/shield_mode?broadcaster_id=${broadcasterId}&moderator_id=${moderatorId}`,
-                method: 'PUT',
-                headers: {
-                    'Authorization': `Bearer ${cleanToken}`,
-                    'Client-Id': TwitchClient.CLIENT_ID,
-                    'Content-Type': 'application/json',
-                    'Content-Length': Buffer.byteLength(body)
-                }
-            };
-
-            const req = https.request(options, (res) => {
-                let data = '';
-                res.on('data', (chunk) => { data += chunk; });
-                res.on('end', () => {
-                    if (res.statusCode === 200) {
-                        this.outputChannel.appendLine(`Shield mode updated successfully`);
-                        resolve();
-                    } else {
-                        this.outputChannel.appendLine(`Shield mode update failed: HTTP ${res.statusCode} - ${data}`);
-                        reject(new Error(`HTTP ${res.statusCode}: ${data}`));
-                    }
-                });
-            });
-
-            req.on('error', (error) => {
-                this.outputChannel.appendLine(`Shield mode request error: ${error}`);
-                reject(error);
-            });
-
-            req.write(body);
-            req.end();
+        await this.helix.request('/moderation/shield_mode', {
+            method: 'PUT',
+            query: { broadcaster_id: broadcasterId, moderator_id: moderatorId },
+            body: { is_active: isActive },
+            token
         });
+        this.outputChannel.appendLine('Shield mode updated successfully');
     }
 
     /**
      * Update chat settings via Helix API
      */
     private async apiUpdateChatSettings(broadcasterId: string, moderatorId: string, mode: string, enabled?: boolean, value?: number, token?: string): Promise<void> {
-        return new Promise((resolve, reject) => {
-            const cleanToken = token!.replace('oauth:', '');
-            const body: any = {};
-
-            switch (mode) {
-                case 'subsOnly':
-                    body.subscriber_mode = enabled;
-                    break;
-                case 'emotesOnly':
-                    body.emote_mode = enabled;
-                    break;
-                case 'followersOnly':
-                    body.follower_mode = enabled;
-                    body.follower_mode_duration = enabled ? 0 : undefined;
-                    break;
-                case 'slowMode':
-                    body.slow_mode = value !== undefined && value > 0;
-                    body.slow_mode_wait_time = value || 0;
-                    break;
-                default:
-                    reject(new Error(`Unknown chat mode: ${mode}`));
-                    return;
-            }
-
-            const bodyStr = JSON.stringify(body);
-            const options = {
-                hostname: 'api.twitch.tv',
-                path: `/helix/chat/settings?broadcaster_id=${broadcasterId}&moderator_id=${moderatorId}`,
-                method: 'PATCH',
-                headers: {
-                    'Authorization': `Bearer ${cleanToken}`,
-                    'Client-Id': TwitchClient.CLIENT_ID,
-                    'Content-Type': 'application/json',
-                    'Content-Length': Buffer.byteLength(bodyStr)
-                }
-            };
-
-            const req = https.request(options, (res) => {
-                let data = '';
-                res.on('data', (chunk) => { data += chunk; });
-                res.on('end', () => {
-                    if (res.statusCode === 200) {
-                        this.outputChannel.appendLine(`Chat settings updated successfully`);
-                        resolve();
-                    } else {
-                        this.outputChannel.appendLine(`Chat settings update failed: HTTP ${res.statusCode} - ${data}`);
-                        reject(new Error(`HTTP ${res.statusCode}: ${data}`));
-                    }
-                });
-            });
-
-            req.on('error', (error) => {
-                this.outputChannel.appendLine(`Chat settings request error: ${error}`);
-                reject(error);
-            });
+        const body: any = {};
+
+        switch (mode) {
+            case 'subsOnly':
+                body.subscriber_mode = enabled;
+                break;
+            case 'emotesOnly':
+                body.emote_mode = enabled;
+                break;
+            case 'followersOnly':
+                body.follower_mode = enabled;
+                body.follower_mode_duration = enabled ? 0 : undefined;
+                break;
+            case 'slowMode':
+                body.slow_mode = value !== undefined && value > 0;
+                body.slow_mode_wait_time = value || 0;
+                break;
+            default:
+                throw new Error(`Unknown chat mode: ${mode}`);
+        }
 
-            req.write(bodyStr);
-            req.end();
+        await this.helix.request('/chat/settings', {
+            method: 'PATCH',
+            query: { broadcaster_id: broadcasterId, moderator_id: moderatorId },
+            body: body,
+            token
         });
+        this.outputChannel.appendLine('Chat settings updated successfully');
     }
 
     /**
@@ -1028,112 +1341,25 @@ export class TwitchClient {
      * @returns Promise resolving to shield mode status
      */
     private async fetchShieldModeStatus(broadcasterId: string, moderatorId: string, token: string): Promise<boolean> {
-        return new Promise((resolve, reject) => {
-            const cleanToken = token.replace('oauth:', '');
-            const options = {
-                hostname: 'api.twitch.tv',
-                path: `/helix/moderation/shield_mode?broadcaster_id=${broadcasterId}&moderator_id=${moderatorId}`,
-                method: 'GET',
-                headers: {
-                    'Authorization': `Bearer ${cleanToken}`,
-                    'Client-Id': TwitchClient.CLIENT_ID
-                }
-            };
-
-            const req = https.request(options, (res) => {
-                let data = '';
-                res.on('data', (chunk) => { data += chunk; });
-                res.on('end', () => {
-                    if (res.statusCode === 200) {
-                        try {
-                            const json = JSON.parse(data);
-                            const isActive = json.data && json.data.length > 0 && json.data[0].is_active === true;
-                            resolve(isActive);
-                        } catch (error) {
-                            this.outputChannel.appendLine(`Error parsing shield mode status: ${error}`);
-                            reject(error);
-                        }
-                    } else {
-                        this.outputChannel.appendLine(`Shield mode status fetch failed: ${res.statusCode} - ${data}`);
-                        reject(new Error(`HTTP ${res.statusCode}`));
-                    }
-                });
-            });
-
-            req.on('error', (error) => {
-                this.outputChannel.appendLine(`Shield mode status fetch error: ${error}`);
-                reject(error);
-            });
-
-            req.end();
-        });
+        const [status] = await this.helix.get('/moderation/shield_mode', { broadcaster_id: broadcasterId, moderator_id: moderatorId }, token);
+        return status?.is_active === true;
     }
 
     /**
-     * Start polling shield mode status every 30 seconds
+     * Fetch the current shield mode state for a channel and send it to the webview
+     * @param state The joined channel
      */
-    private startShieldModePolling() {
-        // Clear any existing interval
-        this.stopShieldModePolling();
-
-        // Only poll if we have auth and user ID
-        if (!this.authToken || !this.currentUserId) {
-            return;
-        }
-
-        this.outputChannel.appendLine('Starting shield mode polling (every 30 seconds)');
-
-        // Poll immediately
-        this.pollShieldMode();
-
-        // Then poll every 30 seconds
-        this.shieldModePollingInterval = setInterval(() => {
-            this.pollShieldMode();
-        }, 30000);
-    }
-
-    /**
-     * Poll shield mode status once
-     */
-    private async pollShieldMode() {
-        if (!this.authToken || !this.currentUserId) {
+    private async refreshShieldModeStatus(state: ChannelState) {
+        if (!this.authToken || !this.currentUserId || !state.userId) {
             return;
         }
 
         try {
-            const isActive = await this.fetchShieldModeStatus(this.currentUserId, this.currentUserId, this.authToken);
-
-            // Send update to UI
-            if (this.messageCallback) {
-                this.messageCallback({
-                    username: '',
-                    displayName: '',
-                    message: '',
-                    color: '',
-                    badges: [],
-                    emotes: {},
-                    thirdPartyEmotes: {},
-                    timestamp: Date.now(),
-                    messageType: 'chat' as any,
-                    roomStateUpdate: {
-                        shieldMode: isActive
-                    }
-                } as any);
-            }
+            const isActive = await this.fetchShieldModeStatus(state.userId, this.currentUserId, this.authToken);
+            this.emitRoomStateUpdate(state.name, { shieldMode: isActive });
         } catch (error) {
-            // Silently fail - shield mode polling is best-effort
-            this.outputChannel.appendLine(`Shield mode poll failed: ${error}`);
-        }
-    }
-
-    /**
-     * Stop polling shield mode status
-     */
-    private stopShieldModePolling() {
-        if (this.shieldModePollingInterval) {
-            clearInterval(this.shieldModePollingInterval);
-            this.shieldModePollingInterval = undefined;
-            this.outputChannel.appendLine('Stopped shield mode polling');
+            // Best-effort - EventSub keeps the state up to date from here on
+            this.outputChannel.appendLine(`Shield mode status fetch failed for ${state.name}: ${error}`);
         }
     }
 }